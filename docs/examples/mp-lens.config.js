@@ -87,4 +87,17 @@ module.exports = {
     // "@app/*": ["./src/*"],
     // "@components/*": ["./src/components/*"]
   },
+
+  /**
+   * [可选] 包大小预算，供 budget 命令使用。
+   * 数值单位为字节，也可以写成 '2MB'、'512KB' 这样的字符串。
+   * 未配置的项使用微信官方限制：主包 2MB、单个分包 2MB、总计 20MB。
+   * packages 按分包 root（与 app.json 中一致）单独覆盖限制，'main' 表示主包。
+   */
+  packageSizeLimits: {
+    // main: '2MB',
+    // subPackage: '2MB',
+    // total: '20MB',
+    // packages: { packageA: '1.5MB' },
+  },
 };
@@ -1,6 +1,11 @@
 import * as fs from 'fs';
 import * as glob from 'glob';
 import * as path from 'path';
+import {
+  ParsedDependency,
+  RouteDependency,
+  UnresolvedDependency,
+} from '../parser/dependency-types';
 import { AnalyzerOptions } from '../types/command-options';
 import { logger } from '../utils/debug-logger';
 import { HandledError } from '../utils/errors';
@@ -9,10 +14,14 @@ import { findPureAmbientDeclarationFiles } from '../utils/typescript-helper';
 import { GraphLink, ProjectStructure } from './project-structure';
 import { ProjectStructureBuilder } from './project-structure-builder';
 
-interface AnalysisResult {
+export interface AnalysisResult {
   projectStructure: ProjectStructure;
   unusedFiles: string[];
   reachableNodeIds: Set<string>;
+  entryNodeIds: string[]; // Entry points the reachability analysis started from
+  unresolvedDependencies: UnresolvedDependency[]; // References to files that do not exist
+  pageRoutes: RouteDependency[]; // Page URLs opened by navigation calls and <navigator> tags
+  cloudFunctionCalls: ParsedDependency[]; // Cloud functions called by name with callFunction()
 }
 
 // --- Start: Helper Function Definitions --- //
@@ -40,7 +49,10 @@ interface AnalysisResult {
 /**
  * Performs reachability analysis (BFS) on the ProjectStructure graph.
  */
-function findReachableNodes(structure: ProjectStructure, entryNodeIds: string[]): Set<string> {
+export function findReachableNodes(
+  structure: ProjectStructure,
+  entryNodeIds: string[],
+): Set<string> {
   const reachable = new Set<string>();
   const queue: string[] = [];
   const linksFrom = new Map<string, GraphLink[]>();
@@ -131,14 +143,53 @@ function findAllFiles(rootDir: string, fileTypes: string[], excludePatterns: str
     return [];
   }
 }
+
+/**
+ * Checks whether a file that exists on disk would be picked up by the initial scan.
+ */
+function isScannedFile(
+  filePath: string,
+  rootDir: string,
+  fileTypes: string[],
+  excludePatterns: string[],
+): boolean {
+  const relativePath = path.relative(rootDir, filePath);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) return false;
+  if (!fileTypes.includes(path.extname(filePath).slice(1).toLowerCase())) return false;
+
+  const pattern = glob.escape(relativePath.split(path.sep).join('/'));
+  return (
+    glob.sync(pattern, { cwd: rootDir, ignore: excludePatterns, nodir: true, dot: true }).length > 0
+  );
+}
 // --- End: Re-added findAllFiles --- //
 
+/**
+ * An analysis that is kept up to date as files change, used by the `--watch` modes.
+ */
+export interface AnalysisSession {
+  result: AnalysisResult;
+  /**
+   * Re-parses only the given (added, modified or deleted) files, then recomputes reachability
+   * and unused files. A change to app.json rebuilds the whole structure.
+   */
+  update(changedFiles: string[]): Promise<AnalysisResult>;
+}
+
 // --- Start: Exported analyzeProject function --- //
 
 export async function analyzeProject(
   projectRoot: string,
   options: AnalyzerOptions,
 ): Promise<AnalysisResult> {
+  const session = await createAnalysisSession(projectRoot, options);
+  return session.result;
+}
+
+export async function createAnalysisSession(
+  projectRoot: string,
+  options: AnalyzerOptions,
+): Promise<AnalysisSession> {
   const {
     excludePatterns = [],
     miniappRoot,
@@ -200,7 +251,71 @@ export async function analyzeProject(
   );
 
   const projectStructure = await builder.build();
+  // Set once app.json changes: the structure is rebuilt and later updates go to the new session
+  let rebuiltSession: AnalysisSession | null = null;
+  const session: AnalysisSession = {
+    result: summarizeStructure(
+      projectStructure,
+      builder.getUnresolvedDependencies(),
+      builder.getPageRoutes(),
+      builder.getCloudFunctionCalls(),
+      projectRoot,
+      essentialFilePaths,
+      includeAssets,
+    ),
+    async update(changedFiles: string[]): Promise<AnalysisResult> {
+      if (rebuiltSession) {
+        session.result = await rebuiltSession.update(changedFiles);
+        return session.result;
+      }
+      if (appJsonPath && changedFiles.includes(appJsonPath) && fs.existsSync(appJsonPath)) {
+        logger.info('app.json 已变更，重新分析整个项目...');
+        rebuiltSession = await createAnalysisSession(projectRoot, {
+          ...options,
+          appJsonContent: JSON.parse(fs.readFileSync(appJsonPath, 'utf-8')),
+        });
+        session.result = rebuiltSession.result;
+        return session.result;
+      }
+
+      const knownNodeIds = new Set(session.result.projectStructure.nodes.map((n) => n.id));
+      const relevantFiles = changedFiles.filter((filePath) =>
+        fs.existsSync(filePath)
+          ? isScannedFile(filePath, projectRoot, fileTypes, excludePatterns)
+          : knownNodeIds.has(filePath),
+      );
+      if (relevantFiles.length === 0) {
+        return session.result;
+      }
+
+      const updatedStructure = await builder.update(relevantFiles);
+      session.result = summarizeStructure(
+        updatedStructure,
+        builder.getUnresolvedDependencies(),
+        builder.getPageRoutes(),
+        builder.getCloudFunctionCalls(),
+        projectRoot,
+        essentialFilePaths,
+        includeAssets,
+      );
+      return session.result;
+    },
+  };
+  return session;
+}
 
+/**
+ * Computes reachability from the entry points and the resulting unused files.
+ */
+function summarizeStructure(
+  projectStructure: ProjectStructure,
+  unresolvedDependencies: UnresolvedDependency[],
+  pageRoutes: RouteDependency[],
+  cloudFunctionCalls: ParsedDependency[],
+  projectRoot: string,
+  essentialFilePaths: Set<string>,
+  includeAssets: boolean,
+): AnalysisResult {
   // --- Calculate Reachable Nodes FIRST --- //
   const nodeMap = new Map(projectStructure.nodes.map((n) => [n.id, n]));
   const entryNodeIdsSet: Set<string> = new Set();
@@ -209,6 +324,10 @@ export async function analyzeProject(
   } else {
     logger.warn('Project structure has no root node ID defined.');
   }
+  // Cloud functions are deployed on their own: each one is an entry point
+  projectStructure.nodes
+    .filter((node) => node.type === 'CloudFunction')
+    .forEach((node) => entryNodeIdsSet.add(node.id));
   // Add essential files as entry points
   essentialFilePaths.forEach((filePath) => {
     if (nodeMap.has(filePath)) {
@@ -232,7 +351,8 @@ export async function analyzeProject(
     }
   });
   logger.debug(`Starting reachability analysis from ${entryNodeIdsSet.size} entry nodes.`);
-  const reachableNodeIds = findReachableNodes(projectStructure, Array.from(entryNodeIdsSet));
+  const entryNodeIds = Array.from(entryNodeIdsSet);
+  const reachableNodeIds = findReachableNodes(projectStructure, entryNodeIds);
   logger.debug(`Found ${reachableNodeIds.size} total reachable nodes.`);
 
   // --- Find Unused Files using the Calculated Reachable Nodes --- //
@@ -247,6 +367,10 @@ export async function analyzeProject(
     projectStructure,
     unusedFiles,
     reachableNodeIds, // <-- Return calculated reachable nodes
+    entryNodeIds,
+    unresolvedDependencies,
+    pageRoutes,
+    cloudFunctionCalls,
   };
 }
 
@@ -262,7 +386,10 @@ function findUnusedFiles(
 ): string[] {
   // --- Step 1: Determine Unused FILES --- //
   const allModuleNodes = structure.nodes.filter((n) => n.type === 'Module');
-  const unusedModuleNodes = allModuleNodes.filter((node) => !reachableNodeIds.has(node.id));
+  // Files in miniprogram_npm are build output of the devtools, never report them for cleanup
+  const unusedModuleNodes = allModuleNodes.filter(
+    (node) => !reachableNodeIds.has(node.id) && !node.properties?.npmPackage,
+  );
   let unusedFiles = unusedModuleNodes
     .map((node) => node.properties?.absolutePath as string | undefined)
     .filter((filePath): filePath is string => !!filePath);
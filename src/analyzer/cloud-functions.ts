@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParsedDependency } from '../parser/dependency-types';
+import { logger } from '../utils/debug-logger';
+import { AnalysisResult } from './analyzer';
+
+/** Entry script of a cloud function whose package.json has no `main` */
+export const DEFAULT_CLOUD_FUNCTION_ENTRY = 'index.js';
+
+/** A cloud function folder found under `cloudfunctionRoot` */
+export interface CloudFunction {
+  name: string;
+  /** Absolute path of the function folder */
+  root: string;
+}
+
+export interface CloudFunctionUsage extends CloudFunction {
+  /** Places the function is called from, in the mini-program or in other cloud functions */
+  calls: ParsedDependency[];
+  /** Whether config.json declares timer triggers, which invoke the function without any call */
+  hasTriggers: boolean;
+  /** Files inside the function folder its entry script never loads */
+  unusedFiles: string[];
+}
+
+export interface CloudFunctionReport {
+  functions: CloudFunctionUsage[];
+  /** Functions nothing calls and no trigger invokes */
+  uncalled: CloudFunctionUsage[];
+  /** Calls to functions that have no folder under `cloudfunctionRoot` */
+  missing: ParsedDependency[];
+}
+
+/**
+ * Lists the cloud functions under `cloudfunctionRoot`: every folder with a package.json or an
+ * index.js, the way the devtools list them for upload.
+ */
+export function findCloudFunctions(cloudfunctionRoot: string | undefined): CloudFunction[] {
+  if (!cloudfunctionRoot || !fs.existsSync(cloudfunctionRoot)) {
+    return [];
+  }
+
+  try {
+    return fs
+      .readdirSync(cloudfunctionRoot, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map((entry) => ({ name: entry.name, root: path.join(cloudfunctionRoot, entry.name) }))
+      .filter(
+        ({ root }) =>
+          fs.existsSync(path.join(root, 'package.json')) ||
+          fs.existsSync(path.join(root, DEFAULT_CLOUD_FUNCTION_ENTRY)),
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    logger.warn(`读取云函数目录 ${cloudfunctionRoot} 失败: ${(error as Error).message}`);
+    return [];
+  }
+}
+
+/**
+ * Returns the entry script of a cloud function: `main` of its package.json, index.js by default.
+ */
+export function findCloudFunctionEntry(functionRoot: string): string {
+  const packageJsonPath = path.join(functionRoot, 'package.json');
+  if (fs.existsSync(packageJsonPath)) {
+    try {
+      const { main } = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+      if (typeof main === 'string' && main.trim() !== '') {
+        return path.resolve(functionRoot, main);
+      }
+    } catch (error) {
+      logger.warn(`无法解析 ${packageJsonPath}: ${(error as Error).message}`);
+    }
+  }
+  return path.join(functionRoot, DEFAULT_CLOUD_FUNCTION_ENTRY);
+}
+
+function hasTimerTriggers(functionRoot: string): boolean {
+  const configPath = path.join(functionRoot, 'config.json');
+  if (!fs.existsSync(configPath)) {
+    return false;
+  }
+  try {
+    const { triggers } = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    return Array.isArray(triggers) && triggers.length > 0;
+  } catch (error) {
+    logger.warn(`无法解析 ${configPath}: ${(error as Error).message}`);
+    return false;
+  }
+}
+
+/**
+ * Matches the `callFunction` calls found in the analysis against the cloud function nodes.
+ * A function calling itself does not count as a call.
+ */
+export function analyzeCloudFunctions(analysis: AnalysisResult): CloudFunctionReport {
+  const { projectStructure, cloudFunctionCalls, unusedFiles } = analysis;
+  const nodeMap = new Map(projectStructure.nodes.map((node) => [node.id, node]));
+
+  const functions: CloudFunctionUsage[] = projectStructure.nodes
+    .filter((node) => node.type === 'CloudFunction')
+    .map((node) => {
+      const name = node.properties!.cloudFunction as string;
+      const root = node.properties!.root as string;
+      return {
+        name,
+        root,
+        calls: cloudFunctionCalls.filter(
+          (call) =>
+            call.rawPath === name &&
+            nodeMap.get(call.sourceFile)?.properties?.cloudFunction !== name,
+        ),
+        hasTriggers: hasTimerTriggers(root),
+        unusedFiles: unusedFiles.filter((filePath) => filePath.startsWith(root + path.sep)),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const functionNames = new Set(functions.map((fn) => fn.name));
+  return {
+    functions,
+    uncalled: functions.filter((fn) => fn.calls.length === 0 && !fn.hasTriggers),
+    missing: cloudFunctionCalls.filter((call) => !functionNames.has(call.rawPath)),
+  };
+}
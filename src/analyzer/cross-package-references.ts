@@ -0,0 +1,118 @@
+import { collectPackages, findOwningPackage, MiniProgramPackage } from './package-attribution';
+import { GraphNode, LinkSourceLocation, LinkType, ProjectStructure } from './project-structure';
+
+export type CrossPackageReason =
+  | 'subpackage-to-subpackage' // 普通分包引用了另一个分包中的文件
+  | 'main-to-subpackage' // 主包引用了分包中的文件
+  | 'independent-to-outside'; // 独立分包引用了自身以外的文件（包括主包）
+
+export interface CrossPackageReference {
+  source: string; // Source node ID
+  target: string; // Target node ID
+  linkType: LinkType;
+  sourcePackage: MiniProgramPackage;
+  targetPackage: MiniProgramPackage;
+  reason: CrossPackageReason;
+  /** Where the reference is written, when the parser recorded it */
+  location?: LinkSourceLocation;
+}
+
+// Link types that make the runtime load the target file from the source's package;
+// AsyncImport and AsyncComponent load the target's package on demand and may cross packages
+const CHECKED_LINK_TYPES: ReadonlySet<LinkType> = new Set<LinkType>([
+  'Import',
+  'Template',
+  'Style',
+  'Config',
+]);
+
+/**
+ * Returns the file system location a node lives at: the file for Module nodes,
+ * the definition base path for Page/Component nodes.
+ */
+function nodeLocation(node: GraphNode): string | undefined {
+  if (node.type === 'Module') {
+    return node.properties?.absolutePath;
+  }
+  if (node.type === 'Page' || node.type === 'Component') {
+    return node.properties?.basePath;
+  }
+  return undefined;
+}
+
+function classify(
+  sourcePackage: MiniProgramPackage,
+  targetPackage: MiniProgramPackage,
+): CrossPackageReason | null {
+  if (sourcePackage.id === targetPackage.id) {
+    return null;
+  }
+  if (sourcePackage.independent) {
+    return 'independent-to-outside';
+  }
+  if (targetPackage.isMain) {
+    return null; // Regular subpackages may always use the main package
+  }
+  return sourcePackage.isMain ? 'main-to-subpackage' : 'subpackage-to-subpackage';
+}
+
+/**
+ * Finds references that cross package boundaries in a way that fails at runtime.
+ *
+ * Files are attributed to packages by the subpackage roots of the Package nodes; Page/Component
+ * nodes use their definition base path. Import/Template/Style/Config links between files are
+ * checked, as well as `usingComponents` (Structure links from a page/component to a component).
+ * `require.async()` and components with a `componentPlaceholder` are asynchronous and not checked.
+ */
+export function findCrossPackageReferences(structure: ProjectStructure): CrossPackageReference[] {
+  const packages = collectPackages(structure);
+  if (packages.length <= 1) {
+    return []; // No subpackages, nothing can cross
+  }
+
+  const nodeMap = new Map(structure.nodes.map((node) => [node.id, node]));
+  const packageOf = (node: GraphNode): MiniProgramPackage | null => {
+    const location = nodeLocation(node);
+    return location ? findOwningPackage(location, packages) : null;
+  };
+
+  const references: CrossPackageReference[] = [];
+  for (const link of structure.links) {
+    const sourceNode = nodeMap.get(link.source);
+    const targetNode = nodeMap.get(link.target);
+    if (!sourceNode || !targetNode) continue;
+
+    const isComponentUsage =
+      link.type === 'Structure' &&
+      (sourceNode.type === 'Page' || sourceNode.type === 'Component') &&
+      targetNode.type === 'Component';
+    if (!CHECKED_LINK_TYPES.has(link.type) && !isComponentUsage) continue;
+
+    const sourcePackage = packageOf(sourceNode);
+    const targetPackage = packageOf(targetNode);
+    if (!sourcePackage || !targetPackage) continue;
+
+    const reason = classify(sourcePackage, targetPackage);
+    if (reason) {
+      references.push({
+        source: link.source,
+        target: link.target,
+        linkType: link.type,
+        sourcePackage,
+        targetPackage,
+        reason,
+        ...(link.properties?.sourceFile && { location: link.properties as LinkSourceLocation }),
+      });
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Whether a reference is a synchronous `usingComponents` entry pointing into a subpackage, which
+ * works once the component gets a `componentPlaceholder` and is loaded asynchronously.
+ */
+export function needsComponentPlaceholder(reference: CrossPackageReference): boolean {
+  return reference.linkType === 'Structure' && !reference.targetPackage.isMain;
+}
@@ -0,0 +1,204 @@
+import * as path from 'path';
+import { GraphLink, GraphNode, ProjectStructure } from './project-structure';
+
+export type CycleKind =
+  | 'import' // JS/TS/WXS 模块之间的循环 require/import
+  | 'template' // WXML import/include 的循环引用
+  | 'component'; // usingComponents 形成的组件循环
+
+export interface DependencyCycle {
+  kind: CycleKind;
+  /** Every node of the strongly connected component */
+  nodeIds: string[];
+  /** One cycle through the component, starting and implicitly ending at its first node */
+  path: string[];
+  /** Every link of this kind between members of the component; each of them lies on a cycle */
+  links: GraphLink[];
+}
+
+const SCRIPT_EXTENSIONS = new Set(['.js', '.ts', '.wxs']);
+
+// Cycles inside third-party packages in miniprogram_npm are not reported
+function isScriptModule(node: GraphNode): boolean {
+  const filePath = node.properties?.absolutePath;
+  return (
+    node.type === 'Module' &&
+    !node.properties?.npmPackage &&
+    typeof filePath === 'string' &&
+    SCRIPT_EXTENSIONS.has(path.extname(filePath).toLowerCase())
+  );
+}
+
+// Which links form the graph of each kind of cycle
+const CYCLE_LINK_FILTERS: Record<
+  CycleKind,
+  (link: GraphLink, source: GraphNode, target: GraphNode) => boolean
+> = {
+  import: (link, source, target) =>
+    link.type === 'Import' && isScriptModule(source) && isScriptModule(target),
+  template: (link) => link.type === 'Template',
+  component: (link, source, target) =>
+    link.type === 'Structure' && source.type === 'Component' && target.type === 'Component',
+};
+
+/**
+ * Tarjan's strongly connected components algorithm, iterative so deep import chains cannot
+ * overflow the call stack. Only components that contain a cycle (more than one node) are returned.
+ */
+function findStronglyConnectedComponents(adjacency: Map<string, string[]>): string[][] {
+  const indexOf = new Map<string, number>();
+  const lowLinkOf = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  for (const start of adjacency.keys()) {
+    if (indexOf.has(start)) continue;
+
+    // Each frame is a node and the position of the next successor to visit
+    const frames: Array<{ node: string; next: number }> = [{ node: start, next: 0 }];
+    indexOf.set(start, nextIndex);
+    lowLinkOf.set(start, nextIndex++);
+    stack.push(start);
+    onStack.add(start);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const successors = adjacency.get(frame.node) ?? [];
+
+      if (frame.next < successors.length) {
+        const successor = successors[frame.next++];
+        if (!indexOf.has(successor)) {
+          indexOf.set(successor, nextIndex);
+          lowLinkOf.set(successor, nextIndex++);
+          stack.push(successor);
+          onStack.add(successor);
+          frames.push({ node: successor, next: 0 });
+        } else if (onStack.has(successor)) {
+          lowLinkOf.set(frame.node, Math.min(lowLinkOf.get(frame.node)!, indexOf.get(successor)!));
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].node;
+        lowLinkOf.set(parent, Math.min(lowLinkOf.get(parent)!, lowLinkOf.get(frame.node)!));
+      }
+
+      if (lowLinkOf.get(frame.node) === indexOf.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        if (component.length > 1) {
+          components.push(component.reverse());
+        }
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Finds the shortest cycle through `start`, staying inside the strongly connected component.
+ */
+function findCyclePath(
+  start: string,
+  members: Set<string>,
+  adjacency: Map<string, string[]>,
+): string[] {
+  const previous = new Map<string, string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const successor of adjacency.get(node) ?? []) {
+      if (!members.has(successor)) continue;
+      if (successor === start) {
+        const cyclePath = [node];
+        while (cyclePath[0] !== start) {
+          cyclePath.unshift(previous.get(cyclePath[0])!);
+        }
+        return cyclePath;
+      }
+      if (!previous.has(successor)) {
+        previous.set(successor, node);
+        queue.push(successor);
+      }
+    }
+  }
+  return [start];
+}
+
+/**
+ * Finds circular dependencies in the project graph: `Import` chains between script modules,
+ * recursive WXML `import`/`include` chains and `usingComponents` loops between components.
+ *
+ * A component using itself is legitimate (recursive components) and never reported;
+ * the graph does not contain self-links in the first place.
+ */
+export function findDependencyCycles(structure: ProjectStructure): DependencyCycle[] {
+  const nodeMap = new Map(structure.nodes.map((node) => [node.id, node]));
+  const cycles: DependencyCycle[] = [];
+
+  for (const [kind, accepts] of Object.entries(CYCLE_LINK_FILTERS) as Array<
+    [CycleKind, (typeof CYCLE_LINK_FILTERS)[CycleKind]]
+  >) {
+    const links = structure.links.filter((link) => {
+      const source = nodeMap.get(link.source);
+      const target = nodeMap.get(link.target);
+      return !!source && !!target && link.source !== link.target && accepts(link, source, target);
+    });
+
+    const adjacency = new Map<string, string[]>();
+    for (const link of links) {
+      if (!adjacency.has(link.source)) adjacency.set(link.source, []);
+      adjacency.get(link.source)!.push(link.target);
+    }
+
+    for (const nodeIds of findStronglyConnectedComponents(adjacency)) {
+      const members = new Set(nodeIds);
+      cycles.push({
+        kind,
+        nodeIds,
+        path: findCyclePath(nodeIds[0], members, adjacency),
+        links: links.filter((link) => members.has(link.source) && members.has(link.target)),
+      });
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Returns a copy of the structure whose links taking part in a cycle carry a `cycle` property
+ * with the kind of the cycle, so the graph UI can highlight them.
+ */
+export function markCycleLinks(
+  structure: ProjectStructure,
+  cycles: DependencyCycle[] = findDependencyCycles(structure),
+): ProjectStructure {
+  const kindOfLink = new Map<GraphLink, CycleKind>();
+  for (const cycle of cycles) {
+    for (const link of cycle.links) {
+      kindOfLink.set(link, cycle.kind);
+    }
+  }
+  if (kindOfLink.size === 0) {
+    return structure;
+  }
+
+  return {
+    ...structure,
+    links: structure.links.map((link) =>
+      kindOfLink.has(link)
+        ? { ...link, properties: { ...link.properties, cycle: kindOfLink.get(link) } }
+        : link,
+    ),
+  };
+}
@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SourceLocation } from '../parser/dependency-types';
+import { JavaScriptParser } from '../parser/javascript-parser';
+import { collectJsonComponentReferences } from '../parser/json-dependencies';
+import { findJsonPointerLocations } from '../parser/source-location';
+import { logger } from '../utils/debug-logger';
+import { findNpmPackageOf, getNpmPackageName, MINIPROGRAM_NPM_DIR } from '../utils/miniprogram-npm';
+import { PathResolver } from '../utils/path-resolver';
+import { AnalysisResult } from './analyzer';
+
+/** A place where the project uses an npm package */
+export interface NpmPackageUsage {
+  packageName: string;
+  /** File the import or `usingComponents` entry is written in */
+  sourceFile: string;
+  /** The specifier or component path as written */
+  rawPath: string;
+  location?: SourceLocation;
+  /** Whether the file is reachable from the entry points */
+  reachable: boolean;
+}
+
+export interface NpmDependencyReport {
+  /** Declared in `dependencies` but not used by any file */
+  unused: string[];
+  /** Used by some file but not declared in `dependencies` */
+  undeclared: Array<{ packageName: string; usages: NpmPackageUsage[]; devDependency: boolean }>;
+  /** Declared in `dependencies` but only used by files unreachable from the entry points */
+  onlyUnreachable: Array<{ packageName: string; usages: NpmPackageUsage[] }>;
+}
+
+export interface PackageJsonDependencies {
+  dependencies: string[];
+  devDependencies: string[];
+}
+
+const SCRIPT_EXTENSIONS = new Set(['.js', '.ts', '.wxs']);
+
+/**
+ * Reads the dependency names declared in a package.json.
+ */
+export function readPackageJsonDependencies(packageJsonPath: string): PackageJsonDependencies {
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  const namesOf = (section: unknown): string[] =>
+    section && typeof section === 'object' ? Object.keys(section) : [];
+  return {
+    dependencies: namesOf(packageJson.dependencies),
+    devDependencies: namesOf(packageJson.devDependencies),
+  };
+}
+
+/**
+ * A component path uses an npm package when it is a bare specifier (looked up in miniprogram_npm)
+ * or an explicit path into a miniprogram_npm directory. Packages of an enabled `useExtendedLib`
+ * library are provided by the platform and need no dependency.
+ */
+function npmPackageOfComponent(
+  rawPath: string,
+  jsonFile: string,
+  pathResolver: PathResolver,
+): string | undefined {
+  if (pathResolver.getEnabledExtendedLib(rawPath)) {
+    return undefined;
+  }
+  if (pathResolver.isNpmPackageImport(rawPath)) {
+    return getNpmPackageName(rawPath);
+  }
+  if (!rawPath.split('/').includes(MINIPROGRAM_NPM_DIR)) {
+    return undefined;
+  }
+  const resolvedPath = pathResolver.resolveAnyPath(rawPath, jsonFile, ['json', 'js', 'ts']);
+  return resolvedPath ? findNpmPackageOf(resolvedPath)?.name : undefined;
+}
+
+/**
+ * Finds every npm package used by the project's own files: bare specifiers of `require`/`import`
+ * in scripts, and `usingComponents`/`componentGenerics` paths that are bare specifiers or point
+ * into a miniprogram_npm directory. Files inside miniprogram_npm are not scanned, the packages
+ * they use are dependencies of the packages themselves.
+ */
+export async function collectNpmPackageUsages(
+  analysis: AnalysisResult,
+  pathResolver: PathResolver,
+): Promise<NpmPackageUsage[]> {
+  const javaScriptParser = new JavaScriptParser();
+  const usages: NpmPackageUsage[] = [];
+
+  for (const node of analysis.projectStructure.nodes) {
+    const filePath = node.properties?.absolutePath;
+    // Cloud functions install their own dependencies from their own package.json
+    if (
+      node.type !== 'Module' ||
+      node.properties?.npmPackage ||
+      node.properties?.cloudFunction ||
+      typeof filePath !== 'string'
+    ) {
+      continue;
+    }
+    const ext = path.extname(filePath).toLowerCase();
+    if (!SCRIPT_EXTENSIONS.has(ext) && ext !== '.json') {
+      continue;
+    }
+
+    const reachable = analysis.reachableNodeIds.has(node.id);
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      if (ext === '.json') {
+        const locations = findJsonPointerLocations(content);
+        for (const entry of collectJsonComponentReferences(JSON.parse(content))) {
+          const packageName = npmPackageOfComponent(entry.rawPath, filePath, pathResolver);
+          if (packageName) {
+            usages.push({
+              packageName,
+              sourceFile: filePath,
+              rawPath: entry.rawPath,
+              location: locations.get(entry.pointer),
+              reachable,
+            });
+          }
+        }
+        continue;
+      }
+
+      for (const dependency of await javaScriptParser.parseWithLocations(content, filePath)) {
+        if (
+          pathResolver.isNpmPackageImport(dependency.rawPath) &&
+          !pathResolver.getEnabledExtendedLib(dependency.rawPath)
+        ) {
+          usages.push({
+            packageName: getNpmPackageName(dependency.rawPath),
+            sourceFile: filePath,
+            rawPath: dependency.rawPath,
+            location: dependency.location,
+            reachable,
+          });
+        }
+      }
+    } catch (error) {
+      logger.warn(`解析 ${filePath} 中的 npm 依赖失败: ${(error as Error).message}`);
+    }
+  }
+
+  return usages;
+}
+
+/**
+ * Compares the npm packages the project uses with the ones declared in package.json.
+ * Only `dependencies` are packed by the devtools "build npm" step, so a package that is
+ * only in `devDependencies` counts as undeclared when the mini-program uses it.
+ */
+export function compareNpmDependencies(
+  usages: NpmPackageUsage[],
+  declared: PackageJsonDependencies,
+): NpmDependencyReport {
+  const usagesByPackage = new Map<string, NpmPackageUsage[]>();
+  for (const usage of usages) {
+    if (!usagesByPackage.has(usage.packageName)) usagesByPackage.set(usage.packageName, []);
+    usagesByPackage.get(usage.packageName)!.push(usage);
+  }
+
+  const dependencies = new Set(declared.dependencies);
+  const devDependencies = new Set(declared.devDependencies);
+  const report: NpmDependencyReport = { unused: [], undeclared: [], onlyUnreachable: [] };
+
+  for (const packageName of [...dependencies].sort()) {
+    const packageUsages = usagesByPackage.get(packageName);
+    if (!packageUsages) {
+      report.unused.push(packageName);
+    } else if (packageUsages.every((usage) => !usage.reachable)) {
+      report.onlyUnreachable.push({ packageName, usages: packageUsages });
+    }
+  }
+
+  for (const [packageName, packageUsages] of [...usagesByPackage].sort(([a], [b]) =>
+    a.localeCompare(b),
+  )) {
+    if (!dependencies.has(packageName)) {
+      report.undeclared.push({
+        packageName,
+        usages: packageUsages,
+        devDependency: devDependencies.has(packageName),
+      });
+    }
+  }
+
+  return report;
+}
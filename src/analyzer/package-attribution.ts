@@ -0,0 +1,118 @@
+import * as path from 'path';
+import { ProjectStructure } from './project-structure';
+
+/**
+ * 小程序中的一个代码包：主包，或 app.json 中声明的某个分包。
+ */
+export interface MiniProgramPackage {
+  /** 主包使用 App 节点 ID；分包使用 Package 节点 ID（pkg:<root>） */
+  id: string;
+  /** 主包为 '主包'；分包为 app.json 中声明的 root */
+  label: string;
+  /** 包根目录的绝对路径；主包为 miniappRoot */
+  root: string;
+  isMain: boolean;
+  /** 独立分包（app.json 中 independent: true） */
+  independent: boolean;
+}
+
+export interface PackageSizeUsage {
+  pkg: MiniProgramPackage;
+  totalSize: number;
+  fileCount: number;
+}
+
+export const MAIN_PACKAGE_LABEL = '主包';
+
+const MB = 1024 * 1024;
+
+/** 微信官方的包大小限制 */
+export const PLATFORM_PACKAGE_SIZE_LIMITS = {
+  main: 2 * MB,
+  subPackage: 2 * MB,
+  total: 20 * MB,
+};
+
+/**
+ * Collects the main package and every subpackage declared in the project structure.
+ * The main package is always the first entry.
+ */
+export function collectPackages(structure: ProjectStructure): MiniProgramPackage[] {
+  const packages: MiniProgramPackage[] = [
+    {
+      id: structure.rootNodeId ?? 'app',
+      label: MAIN_PACKAGE_LABEL,
+      root: structure.miniappRoot,
+      isMain: true,
+      independent: false,
+    },
+  ];
+
+  for (const node of structure.nodes) {
+    if (node.type === 'Package' && typeof node.properties?.root === 'string') {
+      packages.push({
+        id: node.id,
+        label: node.label,
+        root: node.properties.root,
+        isMain: false,
+        independent: node.properties.independent === true,
+      });
+    }
+  }
+
+  return packages;
+}
+
+/**
+ * Finds the package a file is packed into. WeChat packs files by directory: anything under a
+ * subpackage root belongs to that subpackage, everything else ships with the main package.
+ */
+export function findOwningPackage(
+  filePath: string,
+  packages: MiniProgramPackage[],
+): MiniProgramPackage {
+  let owner: MiniProgramPackage | undefined;
+  for (const pkg of packages) {
+    if (pkg.isMain) continue;
+    const isInside = filePath === pkg.root || filePath.startsWith(pkg.root + path.sep);
+    // Prefer the deepest root in case subpackage roots are nested
+    if (isInside && (!owner || pkg.root.length > owner.root.length)) {
+      owner = pkg;
+    }
+  }
+  return owner ?? packages.find((pkg) => pkg.isMain)!;
+}
+
+/**
+ * Sums the sizes of all reachable file nodes per package, leaving out files that packOptions
+ * keep out of the upload and the files of cloud functions, which are deployed separately.
+ * Every package is present in the result, even if no reachable file belongs to it.
+ */
+export function sumReachableSizesByPackage(
+  structure: ProjectStructure,
+  reachableNodeIds: Set<string>,
+): PackageSizeUsage[] {
+  const packages = collectPackages(structure);
+  const usageById = new Map<string, PackageSizeUsage>(
+    packages.map((pkg) => [pkg.id, { pkg, totalSize: 0, fileCount: 0 }]),
+  );
+
+  for (const node of structure.nodes) {
+    const absolutePath = node.properties?.absolutePath;
+    const fileSize = node.properties?.fileSize;
+    if (
+      !reachableNodeIds.has(node.id) ||
+      !absolutePath ||
+      typeof fileSize !== 'number' ||
+      node.properties?.packIgnored ||
+      node.properties?.cloudFunction
+    ) {
+      continue;
+    }
+    const usage = usageById.get(findOwningPackage(absolutePath, packages).id)!;
+    usage.totalSize += fileSize;
+    usage.fileCount++;
+  }
+
+  return Array.from(usageById.values());
+}
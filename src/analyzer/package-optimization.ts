@@ -0,0 +1,200 @@
+import * as path from 'path';
+import { AnalysisResult, findReachableNodes } from './analyzer';
+import { collectPackages, findOwningPackage, MiniProgramPackage } from './package-attribution';
+import { LinkType } from './project-structure';
+
+// Targets of these links are loaded on demand, with the package they live in
+const ASYNC_LINK_TYPES: ReadonlySet<LinkType> = new Set<LinkType>([
+  'AsyncImport',
+  'AsyncComponent',
+]);
+
+/**
+ * 一个只被单个分包使用、却打包在主包中的文件。
+ */
+export interface RelocationCandidate {
+  nodeId: string;
+  filePath: string;
+  size: number;
+  /** 唯一使用该文件的分包 */
+  targetPackage: MiniProgramPackage;
+  /** 移动后的绝对路径：分包 root 下保持原有的相对目录结构 */
+  destinationPath: string;
+}
+
+/**
+ * Finds main-package files that only pages of a single subpackage can reach.
+ *
+ * Reachability from the main package is computed from the regular analysis entry points with
+ * every link into a Package node removed; each subpackage is then walked from its Package node.
+ * Navigation links are ignored: opening a page does not load its files into the caller's package,
+ * and neither do CloudFunction links, cloud functions run on the server.
+ * Async links (`require.async()`, components with a `componentPlaceholder`) do not attribute their
+ * target to the caller either: the target is walked from the package it lives in instead.
+ * A file qualifies when the main package cannot reach it and exactly one subpackage can.
+ * Component files are only suggested together: if any file of a component has to stay in the
+ * main package, the whole component stays. Files are not suggested for an independent subpackage
+ * while they still load files that stay in the main package.
+ */
+export function findSubpackageOnlyModules(analysis: AnalysisResult): RelocationCandidate[] {
+  const { projectStructure, entryNodeIds } = analysis;
+  const structure = {
+    ...projectStructure,
+    links: projectStructure.links.filter(
+      (link) =>
+        link.type !== 'Navigation' &&
+        link.type !== 'CloudFunction' &&
+        !ASYNC_LINK_TYPES.has(link.type),
+    ),
+  };
+  const packages = collectPackages(structure);
+  const subPackages = packages.filter((pkg) => !pkg.isMain);
+  if (subPackages.length === 0) {
+    return [];
+  }
+
+  // Async targets are entries of the package that owns them
+  const nodeMap = new Map(structure.nodes.map((node) => [node.id, node]));
+  const asyncEntriesByPackage = new Map<string, string[]>();
+  for (const link of projectStructure.links) {
+    const target = nodeMap.get(link.target);
+    const location = target?.properties?.absolutePath ?? target?.properties?.basePath;
+    if (!ASYNC_LINK_TYPES.has(link.type) || !location) continue;
+    const ownerId = findOwningPackage(location, packages).id;
+    if (!asyncEntriesByPackage.has(ownerId)) asyncEntriesByPackage.set(ownerId, []);
+    asyncEntriesByPackage.get(ownerId)!.push(link.target);
+  }
+
+  const packageIds = new Set(subPackages.map((pkg) => pkg.id));
+  const mainOnlyStructure = {
+    ...structure,
+    links: structure.links.filter((link) => !packageIds.has(link.target)),
+  };
+  const mainPackage = packages.find((pkg) => pkg.isMain)!;
+  const reachableFromMain = findReachableNodes(mainOnlyStructure, [
+    ...entryNodeIds,
+    ...(asyncEntriesByPackage.get(mainPackage.id) ?? []),
+  ]);
+
+  const usersByNode = new Map<string, MiniProgramPackage[]>();
+  for (const pkg of subPackages) {
+    const roots = [pkg.id, ...(asyncEntriesByPackage.get(pkg.id) ?? [])];
+    for (const nodeId of findReachableNodes(structure, roots)) {
+      if (reachableFromMain.has(nodeId)) continue;
+      if (!usersByNode.has(nodeId)) usersByNode.set(nodeId, []);
+      usersByNode.get(nodeId)!.push(pkg);
+    }
+  }
+
+  const candidates: RelocationCandidate[] = [];
+  for (const node of structure.nodes) {
+    const filePath = node.properties?.absolutePath;
+    const users = usersByNode.get(node.id);
+    if (node.type !== 'Module' || !filePath || !users || users.length !== 1) continue;
+    if (!findOwningPackage(filePath, packages).isMain) continue;
+
+    const targetPackage = users[0];
+    candidates.push({
+      nodeId: node.id,
+      filePath,
+      size: node.properties?.fileSize ?? 0,
+      targetPackage,
+      destinationPath: path.join(
+        targetPackage.root,
+        path.relative(structure.miniappRoot, filePath),
+      ),
+    });
+  }
+
+  return dropBlockedIndependentMoves(analysis, packages, candidates);
+}
+
+/**
+ * An independent subpackage runs without the main package, so a file moved into it must not load
+ * anything that stays in the main package. Dropping a candidate can block the candidates loading
+ * it (or the rest of its component) in turn, so this repeats until nothing changes.
+ */
+function dropBlockedIndependentMoves(
+  analysis: AnalysisResult,
+  packages: MiniProgramPackage[],
+  candidates: RelocationCandidate[],
+): RelocationCandidate[] {
+  const { nodes, links } = analysis.projectStructure;
+  const nodeMap = new Map(nodes.map((node) => [node.id, node]));
+  const filesByParent = new Map<string, string[]>();
+  for (const node of nodes) {
+    const parentId = node.properties?.structuralParentId;
+    if (node.type !== 'Module' || !parentId) continue;
+    if (!filesByParent.has(parentId)) filesByParent.set(parentId, []);
+    filesByParent.get(parentId)!.push(node.id);
+  }
+  const targetsBySource = new Map<string, string[]>();
+  for (const link of links) {
+    if (link.type === 'Navigation' || link.type === 'CloudFunction') continue;
+    if (!targetsBySource.has(link.source)) targetsBySource.set(link.source, []);
+    targetsBySource.get(link.source)!.push(link.target);
+  }
+
+  // Files a candidate loads; a component also loads what its component node links to
+  const dependenciesOf = (nodeId: string): string[] => {
+    const parentId = nodeMap.get(nodeId)?.properties?.structuralParentId;
+    const targets = [...(targetsBySource.get(nodeId) ?? [])];
+    if (parentId?.startsWith('comp:')) {
+      targets.push(...(targetsBySource.get(parentId) ?? []));
+    }
+    return targets.flatMap((target) => filesByParent.get(target) ?? [target]);
+  };
+
+  let remaining = dropPartialComponents(analysis, candidates);
+  for (;;) {
+    const destinations = new Map(
+      remaining.map((candidate) => [candidate.nodeId, candidate.targetPackage.id]),
+    );
+    const staysInMain = (nodeId: string, packageId: string): boolean => {
+      const filePath = nodeMap.get(nodeId)?.properties?.absolutePath;
+      return (
+        !!filePath &&
+        findOwningPackage(filePath, packages).isMain &&
+        destinations.get(nodeId) !== packageId
+      );
+    };
+    const next = dropPartialComponents(
+      analysis,
+      remaining.filter(
+        (candidate) =>
+          !candidate.targetPackage.independent ||
+          !dependenciesOf(candidate.nodeId).some((id) =>
+            staysInMain(id, candidate.targetPackage.id),
+          ),
+      ),
+    );
+    if (next.length === remaining.length) return next;
+    remaining = next;
+  }
+}
+
+/**
+ * Removes candidates belonging to a component whose files cannot all move together.
+ */
+function dropPartialComponents(
+  analysis: AnalysisResult,
+  candidates: RelocationCandidate[],
+): RelocationCandidate[] {
+  const candidateIds = new Set(candidates.map((candidate) => candidate.nodeId));
+  const componentFiles = new Map<string, string[]>();
+  for (const node of analysis.projectStructure.nodes) {
+    const parentId = node.properties?.structuralParentId;
+    if (node.type !== 'Module' || !parentId?.startsWith('comp:')) continue;
+    if (!componentFiles.has(parentId)) componentFiles.set(parentId, []);
+    componentFiles.get(parentId)!.push(node.id);
+  }
+
+  const blocked = new Set<string>();
+  for (const files of componentFiles.values()) {
+    if (files.some((id) => !candidateIds.has(id))) {
+      files.forEach((id) => blocked.add(id));
+    }
+  }
+
+  return candidates.filter((candidate) => !blocked.has(candidate.nodeId));
+}
@@ -1,16 +1,58 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { DependencyCache } from '../parser/dependency-cache';
+import {
+  ParsedDependency,
+  RouteDependency,
+  SourceLocation,
+  UnresolvedDependency,
+} from '../parser/dependency-types';
 import { FileParser } from '../parser/file-parser';
-import { extractJsonComponentReferences } from '../parser/json-dependencies';
+import {
+  collectJsonComponentReferences,
+  collectJsonPluginReferences,
+} from '../parser/json-dependencies';
+import { getPluginName, PLUGIN_URL_PREFIX } from '../parser/plugin-references';
+import { toPageRoute } from '../parser/route-references';
+import { findJsonPointerLocations, toJsonPointerSegment } from '../parser/source-location';
 import { AnalyzerOptions } from '../types/command-options';
-import { MiniProgramAppJson } from '../types/miniprogram';
+import { MiniProgramAppJson, MiniProgramSubPackage } from '../types/miniprogram';
 import { logger } from '../utils/debug-logger';
+import { getExtendedLibName } from '../utils/extended-libs';
 import {
   COMPONENT_DEFINITION_FILE_TYPES,
   COMPONENT_IMPLEMENTATION_FILE_TYPES,
 } from '../utils/filetypes';
+import { findNpmPackageOf } from '../utils/miniprogram-npm';
 import { PathResolver } from '../utils/path-resolver';
-import { GraphLink, GraphNode, LinkType, NodeType, ProjectStructure } from './project-structure';
+import { createPackIgnoreMatcher } from '../utils/project-config';
+import { CloudFunction, findCloudFunctionEntry, findCloudFunctions } from './cloud-functions';
+import {
+  GraphLink,
+  GraphNode,
+  LinkSourceLocation,
+  LinkType,
+  NodeType,
+  ProjectStructure,
+} from './project-structure';
+
+// Files a computed require()/import() in a script can load
+const DYNAMIC_IMPORT_EXTENSIONS = ['.js', '.ts', '.json'];
+
+// Worker threads only run scripts
+const WORKER_SCRIPT_EXTENSIONS = new Set(['.js', '.ts']);
+
+/** Directory of the component rendered as the tab bar when `tabBar.custom` is true */
+export const CUSTOM_TAB_BAR_DIR = 'custom-tab-bar';
+
+function linkKeyOf(
+  sourceId: string,
+  targetId: string,
+  type: LinkType,
+  dependencyType?: string,
+): string {
+  return `${sourceId}\0${targetId}\0${type}\0${dependencyType ?? ''}`;
+}
 
 export class ProjectStructureBuilder {
   private nodes: Map<string, GraphNode> = new Map();
@@ -19,6 +61,7 @@ export class ProjectStructureBuilder {
   private miniappRoot: string;
   private projectRoot: string;
   private fileParser: FileParser;
+  private dependencyCache: DependencyCache | null;
   private pathResolver: PathResolver;
   private rootNodeId: string | null = null;
   private processedJsonFiles: Set<string> = new Set(); // Avoid infinite loops
@@ -34,6 +77,16 @@ export class ProjectStructureBuilder {
 
   // --- Start: Add tracking for parsed dependencies --- //
   private parsedModules: Set<string> = new Set();
+  // Dependencies that did not resolve to an existing file, keyed by the file declaring them
+  private unresolvedDependencies: Map<string, UnresolvedDependency[]> = new Map();
+  // Page URLs each file navigates to; linked once every page is known
+  private pageRoutes: Map<string, RouteDependency[]> = new Map();
+  // Whether project.config.json packOptions leave a file out of the uploaded package
+  private isPackIgnored: (filePath: string) => boolean;
+  // Cloud function folders under cloudfunctionRoot
+  private cloudFunctions: CloudFunction[];
+  // Cloud functions each file calls; linked once every function is known
+  private cloudFunctionCalls: Map<string, ParsedDependency[]> = new Map();
   // --- End: Add tracking for parsed dependencies --- //
 
   constructor(
@@ -58,10 +111,18 @@ export class ProjectStructureBuilder {
     this.fileParser = new FileParser(projectRoot, {
       ...options,
       miniappRoot: miniappRoot,
+      appJsonContent,
     });
 
+    this.dependencyCache =
+      options.cache === false
+        ? null
+        : new DependencyCache(projectRoot, { ...options, miniappRoot, appJsonContent });
+
     // Initialize alias + path resolvers for non-AST path resolutions (e.g., JSON usingComponents)
-    this.pathResolver = new PathResolver(projectRoot, { ...options, miniappRoot });
+    this.pathResolver = new PathResolver(projectRoot, { ...options, miniappRoot, appJsonContent });
+    this.isPackIgnored = createPackIgnoreMatcher(options.packOptions, miniappRoot);
+    this.cloudFunctions = findCloudFunctions(options.cloudfunctionRoot);
 
     // --- Start: Initialize all nodes first --- //
     logger.debug(`Initializing nodes for ${this.allFiles.length} found files.`);
@@ -99,6 +160,7 @@ export class ProjectStructureBuilder {
     // Process app.json content (pages, subpackages, etc.)
     // This uses appJsonContent which is guaranteed to be an object (even if empty)
     await this.processAppJsonContent(appJsonContent);
+    await this.processCloudFunctions();
 
     // --- Start: Final pass to parse all remaining files --- //
     logger.debug(`Starting final pass to parse dependencies for all ${this.nodes.size} nodes...`);
@@ -124,21 +186,374 @@ export class ProjectStructureBuilder {
     );
     // --- End: Final pass to parse all remaining files --- //
 
+    this.linkNpmPackages();
+    this.linkNavigations();
+    this.linkCloudFunctionCalls();
+    this.dependencyCache?.save();
+
     // Structure is built, return it
-    const structure: ProjectStructure = {
+    const structure = this.toStructure();
+
+    logger.info(
+      `项目结构分析完成。发现 ${structure.nodes.length} 个节点和 ${structure.links.length} 条链接。`,
+    );
+    return structure;
+  }
+
+  /**
+   * Applies file changes (added, modified or deleted files) to the structure built by `build()`
+   * without rebuilding it: only the changed files are re-parsed and only their links replaced.
+   *
+   * Changes to app.json are not handled here, callers are expected to rebuild instead.
+   * Files whose imports failed to resolve before are not re-parsed when the missing file appears;
+   * they pick it up the next time they change themselves.
+   */
+  async update(changedFiles: string[]): Promise<ProjectStructure> {
+    for (const filePath of changedFiles) {
+      if (!fs.existsSync(filePath)) {
+        this.removeFileNode(filePath);
+        continue;
+      }
+
+      const existingNode = this.nodes.get(filePath);
+      const node = existingNode ?? this.addNodeForFile(filePath, 'Module');
+      if (!node) continue;
+      if (existingNode) {
+        node.properties = { ...node.properties, fileSize: fs.statSync(filePath).size };
+      } else {
+        this.attachToOwner(node);
+      }
+
+      const ownerId = node.properties?.structuralParentId;
+      const ext = path.extname(filePath).toLowerCase();
+      if (ext === '.json' && ownerId) {
+        // usingComponents may have changed: drop the owner's component links and re-read them
+        this.removeLinks(
+          (link) =>
+            link.source === ownerId &&
+            (((link.type === 'Structure' || link.type === 'AsyncComponent') &&
+              this.nodes.get(link.target)?.type === 'Component') ||
+              link.type === 'Plugin' ||
+              link.type === 'ExtendedLib'),
+        );
+        this.processedJsonFiles.delete(filePath);
+        await this.parseComponentJson(ownerId, filePath);
+      } else if (
+        this.parsedModules.has(filePath) ||
+        (COMPONENT_IMPLEMENTATION_FILE_TYPES as readonly string[]).includes(ext.slice(1))
+      ) {
+        this.removeDependencyLinks(filePath);
+        this.parsedModules.delete(filePath);
+        await this.parseModuleDependencies(node);
+      }
+    }
+
+    this.linkNpmPackages();
+    this.linkNavigations();
+    this.linkCloudFunctionCalls();
+    this.removeUnusedUndeclaredPlugins();
+    this.dependencyCache?.save();
+
+    const structure = this.toStructure();
+    logger.info(
+      `已增量更新 ${changedFiles.length} 个文件。当前共 ${structure.nodes.length} 个节点和 ${structure.links.length} 条链接。`,
+    );
+    return structure;
+  }
+
+  /**
+   * Returns the dependencies that could not be resolved to an existing file in the current structure:
+   * imports, styles, templates and resources found while parsing, and `usingComponents` targets.
+   */
+  getUnresolvedDependencies(): UnresolvedDependency[] {
+    return Array.from(this.unresolvedDependencies.values()).flat();
+  }
+
+  /**
+   * Returns the page URLs the project's own scripts and templates navigate to, whether or not
+   * they name a registered page. Files inside miniprogram_npm are left out.
+   */
+  getPageRoutes(): RouteDependency[] {
+    return Array.from(this.pageRoutes)
+      .filter(([filePath]) => !this.nodes.get(filePath)?.properties?.npmPackage)
+      .flatMap(([, routes]) => routes);
+  }
+
+  /**
+   * Returns the cloud functions called by name anywhere in the project, whether or not a
+   * function of that name exists. Files inside miniprogram_npm are left out.
+   */
+  getCloudFunctionCalls(): ParsedDependency[] {
+    return Array.from(this.cloudFunctionCalls)
+      .filter(([filePath]) => !this.nodes.get(filePath)?.properties?.npmPackage)
+      .flatMap(([, calls]) => calls);
+  }
+
+  // Lists every npm package used by the project under the App node, so it shows up in the tree
+  private linkNpmPackages(): void {
+    for (const node of this.nodes.values()) {
+      if (node.type === 'NpmPackage') {
+        this.addLink(this.rootNodeId!, node.id, 'Structure');
+      }
+    }
+  }
+
+  // Links every file to the registered pages it navigates to; URLs of unknown pages are skipped
+  private linkNavigations(): void {
+    for (const [filePath, routes] of this.pageRoutes) {
+      for (const route of routes) {
+        const pageId = `page:${toPageRoute(route.rawPath, filePath, this.miniappRoot)}`;
+        if (this.nodes.get(pageId)?.type !== 'Page') continue;
+        this.addLink(
+          filePath,
+          pageId,
+          'Navigation',
+          route.method,
+          route.location && { sourceFile: filePath, ...route.location },
+        );
+      }
+    }
+  }
+
+  // Links every script to the cloud functions it calls; calls to unknown functions are skipped
+  private linkCloudFunctionCalls(): void {
+    for (const [filePath, calls] of this.cloudFunctionCalls) {
+      for (const call of calls) {
+        const functionId = `cloudfn:${call.rawPath}`;
+        if (!this.nodes.has(functionId)) continue;
+        this.addLink(
+          filePath,
+          functionId,
+          'CloudFunction',
+          undefined,
+          call.location && { sourceFile: filePath, ...call.location },
+        );
+      }
+    }
+  }
+
+  /**
+   * Returns the node of a plugin, creating it as undeclared on first use. Declarations in
+   * app.json or a subpackage mark it declared, whichever is processed first.
+   */
+  private addPluginNode(pluginName: string): GraphNode {
+    return this.addNode({
+      id: `plugin:${pluginName}`,
+      type: 'Plugin',
+      label: pluginName,
+      properties: { pluginName, declared: false },
+    });
+  }
+
+  // Adds a node for every `plugins` entry of app.json or a subpackage, under the declaring node
+  private processPlugins(
+    parentId: string,
+    plugins: MiniProgramAppJson['plugins'],
+    pointer: string, // JSON Pointer of the `plugins` object in app.json
+    appJsonLocations: Map<string, SourceLocation>,
+  ): void {
+    if (!plugins || typeof plugins !== 'object') return;
+
+    for (const [pluginName, config] of Object.entries(plugins)) {
+      const node = this.addPluginNode(pluginName);
+      node.properties = {
+        ...node.properties,
+        declared: true,
+        provider: config?.provider,
+        version: config?.version,
+        structuralParentId: parentId,
+      };
+      const location = appJsonLocations.get(`${pointer}/${toJsonPointerSegment(pluginName)}`);
+      this.addLink(
+        parentId,
+        node.id,
+        'Structure',
+        undefined,
+        location && { sourceFile: this.appJsonPath!, ...location },
+      );
+    }
+  }
+
+  // Links a page, component or script to the plugin of a `plugin://name/...` component or page
+  private linkPluginUsage(sourceId: string, rawPath: string, usedAt?: LinkSourceLocation): void {
+    const pluginName = getPluginName(rawPath);
+    if (!pluginName) return;
+    const pluginNode = this.addPluginNode(pluginName);
+    this.addLink(sourceId, pluginNode.id, 'Plugin', undefined, usedAt);
+  }
+
+  /**
+   * Returns the node of a `useExtendedLib` library, creating it as not enabled on first use.
+   */
+  private addExtendedLibNode(libName: string): GraphNode {
+    return this.addNode({
+      id: `extlib:${libName}`,
+      type: 'ExtendedLib',
+      label: libName,
+      properties: { extendedLib: libName, declared: false },
+    });
+  }
+
+  // Adds a node for every library app.json enables with `useExtendedLib`
+  private processExtendedLibs(
+    parentId: string,
+    useExtendedLib: MiniProgramAppJson['useExtendedLib'],
+    appJsonLocations: Map<string, SourceLocation>,
+  ): void {
+    if (!useExtendedLib || typeof useExtendedLib !== 'object') return;
+
+    for (const [libName, enabled] of Object.entries(useExtendedLib)) {
+      if (enabled !== true) continue;
+      const node = this.addExtendedLibNode(libName);
+      node.properties = { ...node.properties, declared: true, structuralParentId: parentId };
+      const location = appJsonLocations.get(`/useExtendedLib/${toJsonPointerSegment(libName)}`);
+      this.addLink(
+        parentId,
+        node.id,
+        'Structure',
+        undefined,
+        location && { sourceFile: this.appJsonPath!, ...location },
+      );
+    }
+  }
+
+  // Links a page or component to the useExtendedLib library providing one of its components
+  private linkExtendedLibUsage(
+    sourceId: string,
+    rawPath: string,
+    usedAt?: LinkSourceLocation,
+  ): void {
+    const libName = getExtendedLibName(rawPath);
+    if (!libName) return;
+    const libNode = this.addExtendedLibNode(libName);
+    this.addLink(sourceId, libNode.id, 'ExtendedLib', undefined, usedAt);
+  }
+
+  // Drops plugin and extended library nodes created for undeclared usages once nothing uses them
+  private removeUnusedUndeclaredPlugins(): void {
+    for (const node of Array.from(this.nodes.values())) {
+      if (
+        (node.type === 'Plugin' || node.type === 'ExtendedLib') &&
+        !node.properties?.declared &&
+        !this.links.some((link) => link.target === node.id)
+      ) {
+        this.nodes.delete(node.id);
+      }
+    }
+  }
+
+  /**
+   * Groups a file inside miniprogram_npm under the NpmPackage node of its package,
+   * creating the package node on first use.
+   */
+  private attachToNpmPackage(moduleNode: GraphNode): void {
+    const npmPackage = findNpmPackageOf(moduleNode.properties!.absolutePath as string);
+    if (!npmPackage) return;
+
+    const packageId = `npm:${path.relative(this.miniappRoot, npmPackage.root).split(path.sep).join('/')}`;
+    this.addNode({
+      id: packageId,
+      type: 'NpmPackage',
+      label: npmPackage.name,
+      properties: { npmPackage: npmPackage.name, root: npmPackage.root },
+    });
+    moduleNode.properties!.npmPackage = npmPackage.name;
+    moduleNode.properties!.structuralParentId ??= packageId;
+    this.addLink(packageId, moduleNode.id, 'Structure');
+  }
+
+  private toStructure(): ProjectStructure {
+    return {
       nodes: Array.from(this.nodes.values()),
-      links: this.links,
+      links: [...this.links],
       rootNodeId: this.rootNodeId,
       miniappRoot: this.miniappRoot,
     };
+  }
 
-    logger.info(
-      `项目结构分析完成。发现 ${structure.nodes.length} 个节点和 ${structure.links.length} 条链接。`,
+  /**
+   * Links a newly created file to the page or component it is a definition file of, or to the
+   * Worker node when it is a script under the workers directory.
+   */
+  private attachToOwner(node: GraphNode): void {
+    const filePath = node.properties!.absolutePath as string;
+    const ext = path.extname(filePath);
+    const withoutExt = filePath.slice(0, -ext.length);
+    const candidateBasePaths = [withoutExt];
+    if (path.basename(withoutExt) === 'index') {
+      candidateBasePaths.push(path.dirname(withoutExt));
+    }
+
+    const owner = Array.from(this.nodes.values()).find(
+      (candidate) =>
+        (candidate.type === 'Page' || candidate.type === 'Component') &&
+        candidateBasePaths.includes(candidate.properties?.basePath ?? ''),
     );
-    return structure;
+    if (owner) {
+      node.properties!.structuralParentId = owner.id;
+      this.addLink(owner.id, node.id, 'Structure');
+      return;
+    }
+
+    const worker = Array.from(this.nodes.values()).find(
+      (candidate) =>
+        candidate.type === 'Worker' &&
+        this.isWorkerScript(filePath, candidate.properties!.root as string),
+    );
+    if (worker) {
+      node.properties!.structuralParentId = worker.id;
+      this.addLink(worker.id, node.id, 'Structure');
+    }
+  }
+
+  private removeFileNode(filePath: string): void {
+    if (!this.nodes.has(filePath)) return;
+    this.removeLinks((link) => link.source === filePath || link.target === filePath);
+    for (const node of this.nodes.values()) {
+      const referredBy = node.properties?.referredBy;
+      if (referredBy?.includes(filePath)) {
+        node.properties!.referredBy = referredBy.filter((id: string) => id !== filePath);
+      }
+    }
+    this.nodes.delete(filePath);
+    this.parsedModules.delete(filePath);
+    this.processedJsonFiles.delete(filePath);
+    this.unresolvedDependencies.delete(filePath);
+    this.pageRoutes.delete(filePath);
+    this.cloudFunctionCalls.delete(filePath);
+  }
+
+  // Removes the links created by parseModuleDependencies for a file, keeping structural links
+  private removeDependencyLinks(filePath: string): void {
+    const removed = this.removeLinks(
+      (link) => link.source === filePath && link.type !== 'Structure',
+    );
+    for (const link of removed) {
+      const target = this.nodes.get(link.target);
+      if (target?.properties?.referredBy) {
+        target.properties.referredBy = target.properties.referredBy.filter(
+          (id: string) => id !== filePath,
+        );
+      }
+    }
+  }
+
+  private removeLinks(predicate: (link: GraphLink) => boolean): GraphLink[] {
+    const removed: GraphLink[] = [];
+    this.links = this.links.filter((link) => {
+      if (!predicate(link)) return true;
+      removed.push(link);
+      this.linkKeys.delete(linkKeyOf(link.source, link.target, link.type, link.dependencyType));
+      return false;
+    });
+    return removed;
   }
 
   private async processAppJsonContent(content: MiniProgramAppJson): Promise<void> {
+    const appJsonLocations = this.readJsonPointerLocations(this.appJsonPath);
+    this.processPlugins(this.rootNodeId!, content.plugins, '/plugins', appJsonLocations);
+    this.processExtendedLibs(this.rootNodeId!, content.useExtendedLib, appJsonLocations);
+
     // Process Pages
     if (content.pages && Array.isArray(content.pages)) {
       for (const pagePath of content.pages) {
@@ -147,9 +562,10 @@ export class ProjectStructureBuilder {
     }
 
     // Process Subpackages
-    const subpackages = content.subpackages || content.subPackages || [];
+    const subpackagesKey = content.subpackages ? 'subpackages' : 'subPackages';
+    const subpackages: MiniProgramSubPackage[] = content[subpackagesKey] || [];
     if (Array.isArray(subpackages)) {
-      for (const pkg of subpackages) {
+      for (const [index, pkg] of subpackages.entries()) {
         if (pkg.root && pkg.pages && Array.isArray(pkg.pages)) {
           const packageRoot = path.resolve(this.miniappRoot, pkg.root);
           const packageId = `pkg:${pkg.root}`;
@@ -157,9 +573,15 @@ export class ProjectStructureBuilder {
             id: packageId,
             type: 'Package',
             label: pkg.root,
-            properties: { root: packageRoot },
+            properties: { root: packageRoot, independent: pkg.independent === true },
           });
           this.addLink(this.rootNodeId!, packageId, 'Structure');
+          this.processPlugins(
+            packageId,
+            pkg.plugins,
+            `/${subpackagesKey}/${index}/plugins`,
+            appJsonLocations,
+          );
 
           for (const pagePath of pkg.pages) {
             const fullPagePath = path.join(pkg.root, pagePath);
@@ -170,11 +592,23 @@ export class ProjectStructureBuilder {
       }
     }
 
+    // The page opened on launch: entryPagePath, which may name a subpackage page, or the first page
+    const entryPagePath = content.entryPagePath ?? content.pages?.[0];
+    const entryPageNode = entryPagePath && this.nodes.get(`page:${entryPagePath}`);
+    if (entryPageNode) {
+      entryPageNode.properties!.entry = true;
+    }
+
     // Process Global usingComponents
     if (content.usingComponents && typeof content.usingComponents === 'object') {
-      for (const [_name, compPath] of Object.entries(content.usingComponents)) {
-        if (typeof compPath === 'string' && !compPath.startsWith('plugin://')) {
-          await this.processComponent(this.rootNodeId!, compPath as string, this.miniappRoot);
+      for (const [name, compPath] of Object.entries(content.usingComponents)) {
+        if (typeof compPath !== 'string') continue;
+        const location = appJsonLocations.get(`/usingComponents/${toJsonPointerSegment(name)}`);
+        const declaredAt = location && { sourceFile: this.appJsonPath!, ...location };
+        if (getPluginName(compPath)) {
+          this.linkPluginUsage(this.rootNodeId!, compPath, declaredAt);
+        } else if (!compPath.startsWith(PLUGIN_URL_PREFIX)) {
+          await this.processComponent(this.rootNodeId!, compPath, this.miniappRoot, declaredAt);
         }
       }
     }
@@ -208,7 +642,15 @@ export class ProjectStructureBuilder {
     parentId: string,
     componentBasePath: string, // Path from usingComponents (e.g., '/components/comp', '../../comp')
     currentRoot: string, // Directory of the JSON file that declared the component
+    declaredAt?: LinkSourceLocation, // The usingComponents entry that declared the component
+    linkType: 'Structure' | 'AsyncComponent' = 'Structure', // Async with a componentPlaceholder
   ): Promise<GraphNode | null> {
+    // Components of an enabled useExtendedLib library are injected by the platform
+    if (this.pathResolver.getEnabledExtendedLib(componentBasePath)) {
+      this.linkExtendedLibUsage(parentId, componentBasePath, declaredAt);
+      return null;
+    }
+
     const absoluteBasePath = this.resolveDefinitionBasePath(componentBasePath, currentRoot, [
       'json',
     ]);
@@ -221,6 +663,19 @@ export class ProjectStructureBuilder {
     // The canonical form for IDs and basePaths will be WITHOUT '/index'.
     const canonicalBasePath = this.canonicalizeDefinitionBasePath(absoluteBasePath);
 
+    if (
+      !COMPONENT_DEFINITION_FILE_TYPES.some((ext) =>
+        this.findDefinitionFile(canonicalBasePath, ext),
+      )
+    ) {
+      // Not installed to miniprogram_npm either: the library has to be enabled in app.json
+      if (getExtendedLibName(componentBasePath)) {
+        this.linkExtendedLibUsage(parentId, componentBasePath, declaredAt);
+        return null;
+      }
+      this.recordMissingComponent(componentBasePath, declaredAt);
+    }
+
     // Create a canonical ID relative to the miniapp root
     const canonicalRelativePath = path.relative(this.miniappRoot, canonicalBasePath);
     // Ensure canonical path doesn't start with '../' if resolution somehow failed
@@ -238,7 +693,7 @@ export class ProjectStructureBuilder {
     // Check if the canonical node already exists
     if (this.nodes.has(canonicalComponentId)) {
       // Node exists, just add the link from the current parent
-      this.addLink(parentId, canonicalComponentId, 'Structure');
+      this.addLink(parentId, canonicalComponentId, linkType, undefined, declaredAt);
       logger.trace(
         `[processComponent] Linking existing component ${canonicalComponentId} to parent ${parentId}`,
       );
@@ -255,7 +710,7 @@ export class ProjectStructureBuilder {
       label: componentLabel,
       properties: { basePath: canonicalBasePath }, // Store canonical absolute path for reference
     });
-    this.addLink(parentId, canonicalComponentId, 'Structure');
+    this.addLink(parentId, canonicalComponentId, linkType, undefined, declaredAt);
 
     // Process related files using the canonical absolute base path to avoid re-resolving aliases
     await this.processRelatedFiles(canonicalComponentId, canonicalBasePath, currentRoot);
@@ -263,6 +718,40 @@ export class ProjectStructureBuilder {
     return node;
   }
 
+  // Records a usingComponents entry whose target has no definition file
+  private recordMissingComponent(componentPath: string, declaredAt?: LinkSourceLocation): void {
+    const sourceFile = declaredAt?.sourceFile ?? this.appJsonPath;
+    const classification = this.pathResolver.classifyUnresolvedImport(componentPath);
+    if (!sourceFile || classification === 'skipped') {
+      return;
+    }
+
+    const dependency: UnresolvedDependency = {
+      sourceFile,
+      rawPath: componentPath,
+      kind: 'component',
+      reason: classification === 'npm' ? 'npm' : 'component',
+    };
+    if (declaredAt) {
+      dependency.location = { line: declaredAt.line, column: declaredAt.column };
+    }
+    const recorded = this.unresolvedDependencies.get(sourceFile) ?? [];
+    if (!recorded.some((existing) => existing.rawPath === componentPath)) {
+      this.unresolvedDependencies.set(sourceFile, [...recorded, dependency]);
+    }
+  }
+
+  private readJsonPointerLocations(jsonPath: string | undefined): Map<string, SourceLocation> {
+    if (!jsonPath || !fs.existsSync(jsonPath)) {
+      return new Map();
+    }
+    try {
+      return findJsonPointerLocations(fs.readFileSync(jsonPath, 'utf-8'));
+    } catch {
+      return new Map();
+    }
+  }
+
   // Processes the standard set of files (.json, .js, .ts, .wxml, .wxss) for a page or component
   private async processRelatedFiles(
     ownerId: string, // Canonical ID of the Page or Component
@@ -311,6 +800,7 @@ export class ProjectStructureBuilder {
       return; // Avoid redundant processing
     }
     this.processedJsonFiles.add(jsonPath);
+    this.unresolvedDependencies.delete(jsonPath);
 
     try {
       const content = fs.readFileSync(jsonPath, 'utf-8');
@@ -318,8 +808,20 @@ export class ProjectStructureBuilder {
 
       logger.verbose(`Parsing components for: ${ownerId} from ${jsonPath}`);
       const componentDir = path.dirname(jsonPath);
-      for (const compPath of extractJsonComponentReferences(jsonContent)) {
-        await this.processComponent(ownerId, compPath, componentDir);
+      const locations = findJsonPointerLocations(content);
+      for (const { rawPath, pointer, async } of collectJsonComponentReferences(jsonContent)) {
+        const location = locations.get(pointer);
+        await this.processComponent(
+          ownerId,
+          rawPath,
+          componentDir,
+          location && { sourceFile: jsonPath, ...location },
+          async ? 'AsyncComponent' : 'Structure',
+        );
+      }
+      for (const { rawPath, pointer } of collectJsonPluginReferences(jsonContent)) {
+        const location = locations.get(pointer);
+        this.linkPluginUsage(ownerId, rawPath, location && { sourceFile: jsonPath, ...location });
       }
     } catch (error) {
       logger.warn(`Failed to read or parse component JSON: ${jsonPath}`, error);
@@ -337,32 +839,76 @@ export class ProjectStructureBuilder {
     const relativePath = path.relative(this.projectRoot, filePath);
     logger.debug(`Parsing dependencies for: ${relativePath}`);
     try {
-      // Assuming parseFile gives a list of absolute paths of dependencies
-      const dependencies = await this.fileParser.parseFile(filePath);
-
-      for (const dependency of dependencies) {
-        const depAbsolutePath = dependency.targetFile;
-        const targetNode = this.addNodeForFile(depAbsolutePath, 'Module');
-        if (targetNode) {
-          this.addLink(moduleNode.id, targetNode.id, dependency.linkType, dependency.kind);
-
-          // --- Populate referredBy ---
-          if (!targetNode.properties) targetNode.properties = {};
-          if (!targetNode.properties.referredBy) targetNode.properties.referredBy = [];
-          // Ensure referredBy stores strings and check for existence
-          if (!targetNode.properties.referredBy.includes(moduleNode.id)) {
-            targetNode.properties.referredBy.push(moduleNode.id);
-          }
-          // --- End Populate referredBy ---
-
-          // Recursively parse the dependency if it hasn't been parsed yet
-          const depExt = path.extname(depAbsolutePath).toLowerCase();
-          if (
-            depExt !== '.json' && // Avoid parsing JSON again here
-            !this.parsedModules.has(depAbsolutePath)
-          ) {
-            await this.parseModuleDependencies(targetNode);
-          }
+      // Reuse the cached result when the file content has not changed since the last run
+      const fileDependencies = this.dependencyCache
+        ? await this.dependencyCache.getOrParse(filePath, (file) =>
+            this.fileParser.parseFileDependencies(file),
+          )
+        : await this.fileParser.parseFileDependencies(filePath);
+      const { resolved, unresolved, dynamicImports, plugins, routes } = fileDependencies;
+
+      // Reset first: in watch mode the file may no longer define or mix in behaviors
+      const properties = moduleNode.properties!;
+      delete properties.definesBehavior;
+      delete properties.builtinBehaviors;
+      if (fileDependencies.definesBehavior) {
+        properties.definesBehavior = true;
+      }
+      if (fileDependencies.builtinBehaviors.length > 0) {
+        properties.builtinBehaviors = fileDependencies.builtinBehaviors;
+      }
+
+      // Third-party code in miniprogram_npm is not the project's to fix
+      if (unresolved.length > 0 && !moduleNode.properties?.npmPackage) {
+        this.unresolvedDependencies.set(filePath, unresolved);
+      } else {
+        this.unresolvedDependencies.delete(filePath);
+      }
+
+      if (routes.length > 0) {
+        this.pageRoutes.set(filePath, routes);
+      } else {
+        this.pageRoutes.delete(filePath);
+      }
+
+      if (fileDependencies.cloudFunctions.length > 0) {
+        this.cloudFunctionCalls.set(filePath, fileDependencies.cloudFunctions);
+      } else {
+        this.cloudFunctionCalls.delete(filePath);
+      }
+
+      for (const dependency of plugins) {
+        this.linkPluginUsage(
+          moduleNode.id,
+          dependency.rawPath,
+          dependency.location && { sourceFile: filePath, ...dependency.location },
+        );
+      }
+
+      for (const dependency of resolved) {
+        await this.linkModuleDependency(
+          moduleNode,
+          dependency.targetFile,
+          dependency.linkType,
+          dependency.kind,
+          dependency.location && { sourceFile: filePath, ...dependency.location },
+        );
+      }
+
+      // Computed paths are inferred: every scanned file the pattern matches may be loaded
+      for (const dependency of dynamicImports) {
+        for (const targetFile of this.matchDynamicImport(dependency.rawPath, filePath)) {
+          await this.linkModuleDependency(
+            moduleNode,
+            targetFile,
+            'Import',
+            'dynamic',
+            dependency.location && {
+              sourceFile: filePath,
+              ...dependency.location,
+              pattern: dependency.rawPath,
+            },
+          );
         }
       }
     } catch (error: unknown) {
@@ -371,6 +917,60 @@ export class ProjectStructureBuilder {
     }
   }
 
+  private async linkModuleDependency(
+    moduleNode: GraphNode,
+    depAbsolutePath: string,
+    linkType: LinkType,
+    dependencyType: string,
+    location?: LinkSourceLocation & { pattern?: string },
+  ): Promise<void> {
+    const targetNode = this.addNodeForFile(depAbsolutePath, 'Module');
+    if (!targetNode) return;
+    this.addLink(moduleNode.id, targetNode.id, linkType, dependencyType, location);
+
+    // --- Populate referredBy ---
+    if (!targetNode.properties) targetNode.properties = {};
+    if (!targetNode.properties.referredBy) targetNode.properties.referredBy = [];
+    // Ensure referredBy stores strings and check for existence
+    if (!targetNode.properties.referredBy.includes(moduleNode.id)) {
+      targetNode.properties.referredBy.push(moduleNode.id);
+    }
+    // --- End Populate referredBy ---
+
+    // Recursively parse the dependency if it hasn't been parsed yet
+    const depExt = path.extname(depAbsolutePath).toLowerCase();
+    if (
+      depExt !== '.json' && // Avoid parsing JSON again here
+      !this.parsedModules.has(depAbsolutePath)
+    ) {
+      await this.parseModuleDependencies(targetNode);
+    }
+  }
+
+  /**
+   * Returns the scanned scripts a dynamic import pattern can load. The pattern is resolved like
+   * a path written in the source file, and `*` may span directories.
+   */
+  private matchDynamicImport(pattern: string, sourceFile: string): string[] {
+    const absolutePattern = pattern.startsWith('/')
+      ? path.join(this.miniappRoot, pattern)
+      : path.resolve(path.dirname(sourceFile), pattern);
+    const matcher = new RegExp(
+      `^${absolutePattern
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')}$`,
+    );
+    const extensions =
+      path.extname(sourceFile).toLowerCase() === '.wxs' ? ['.wxs'] : DYNAMIC_IMPORT_EXTENSIONS;
+    return this.allFiles.filter(
+      (filePath) =>
+        filePath !== sourceFile &&
+        extensions.includes(path.extname(filePath).toLowerCase()) &&
+        matcher.test(filePath),
+    );
+  }
+
   // Helper to add a node, ensuring uniqueness by ID
   private addNode(node: GraphNode, log = true): GraphNode {
     if (!this.nodes.has(node.id)) {
@@ -400,6 +1000,10 @@ export class ProjectStructureBuilder {
       return existingNode;
     }
 
+    const cloudFunction = this.cloudFunctions.find((fn) =>
+      absolutePath.startsWith(fn.root + path.sep),
+    );
+
     // 获取文件信息统计
     const fileExt = path.extname(absolutePath).toLowerCase().substring(1) || 'unknown';
     let fileSize = 0;
@@ -411,7 +1015,7 @@ export class ProjectStructureBuilder {
       logger.warn(`Failed to get file size for ${absolutePath}:`, error);
     }
 
-    return this.addNode(
+    const node = this.addNode(
       {
         id: nodeId,
         type: type,
@@ -420,25 +1024,30 @@ export class ProjectStructureBuilder {
           absolutePath: absolutePath,
           fileSize,
           fileExt,
+          ...(this.isPackIgnored(absolutePath) && { packIgnored: true }),
+          ...(cloudFunction && { cloudFunction: cloudFunction.name }),
         },
       },
       log,
     );
+    this.attachToNpmPackage(node);
+    return node;
   }
 
-  // Helper to add a link, preventing duplicates
+  // Helper to add a link, preventing duplicates. For duplicates the first link's properties win.
   private addLink(
     sourceId: string,
     targetId: string,
     type: LinkType,
     dependencyType?: string,
+    properties?: LinkSourceLocation & { pattern?: string },
   ): void {
     // Avoid self-loops
     if (sourceId === targetId) {
       return;
     }
 
-    const linkKey = `${sourceId}\0${targetId}\0${type}\0${dependencyType ?? ''}`;
+    const linkKey = linkKeyOf(sourceId, targetId, type, dependencyType);
     if (this.linkKeys.has(linkKey)) {
       return;
     }
@@ -448,6 +1057,9 @@ export class ProjectStructureBuilder {
     if (dependencyType) {
       link.dependencyType = dependencyType;
     }
+    if (properties) {
+      link.properties = { ...properties };
+    }
 
     this.links.push(link);
   }
@@ -528,6 +1140,7 @@ export class ProjectStructureBuilder {
           // This might re-process pages already found via 'pages' or 'subpackages',
           // but processPage/processRelatedFiles handles duplicates.
           await this.processPage(this.rootNodeId!, item.pagePath as string, this.miniappRoot);
+          this.nodes.get(`page:${item.pagePath}`)!.properties!.tabBar = true;
         }
         // Icons are single file dependencies
         if (item.iconPath) {
@@ -542,6 +1155,22 @@ export class ProjectStructureBuilder {
         }
       }
     }
+
+    // With tabBar.custom the runtime renders custom-tab-bar/index of the miniapp root instead
+    if (content.tabBar?.custom === true) {
+      this.nodes.get(this.rootNodeId!)!.properties!.customTabBar = true;
+      const basePath = path.join(this.miniappRoot, CUSTOM_TAB_BAR_DIR, 'index');
+      // A missing component is reported by the custom-tab-bar lint rule, not as unresolved
+      if (COMPONENT_DEFINITION_FILE_TYPES.some((ext) => this.findDefinitionFile(basePath, ext))) {
+        const location = this.readJsonPointerLocations(this.appJsonPath).get('/tabBar/custom');
+        await this.processComponent(
+          this.rootNodeId!,
+          `/${CUSTOM_TAB_BAR_DIR}/index`,
+          this.miniappRoot,
+          location && { sourceFile: this.appJsonPath!, ...location },
+        );
+      }
+    }
   }
 
   private async processTheme(content: MiniProgramAppJson): Promise<void> {
@@ -562,20 +1191,100 @@ export class ProjectStructureBuilder {
     }
   }
 
+  /**
+   * Worker code runs in its own thread and is loaded through `wx.createWorker`, so the workers
+   * directory is a separate entry tree: every script under it is parsed, not just one entry file.
+   */
   private async processWorkers(content: MiniProgramAppJson): Promise<void> {
-    // Workers field defines entry points for worker threads
-    if (content.workers && typeof content.workers === 'string') {
-      logger.debug(`Processing workers entry: ${content.workers}`);
-      // Treat the worker root directory/file itself as a structural link from App
-      // We might need more sophisticated handling if it's a directory
-      // For now, add link to the file/dir specified
-      await this.addSingleFileLink(this.rootNodeId!, content.workers, 'WorkerEntry');
-      // TODO: Potentially need to parse files within the worker directory?
-      // This depends on how workers load dependencies.
-      // For now, just ensure the entry point is marked as used.
+    const workers = content.workers;
+    const workersPath = typeof workers === 'string' ? workers : workers?.path;
+    if (typeof workersPath !== 'string') return;
+
+    const absolutePath = path.resolve(this.miniappRoot, workersPath);
+    if (!fs.existsSync(absolutePath)) {
+      logger.warn(
+        `app.json 中 workers 指向的路径不存在: ${workersPath} (解析路径: ${absolutePath})`,
+      );
+      return;
+    }
+    logger.debug(`Processing workers entry: ${workersPath}`);
+
+    // A file path is accepted as well: then that file is the only entry
+    const isDirectory = fs.statSync(absolutePath).isDirectory();
+    const workerRoot = isDirectory ? absolutePath : path.dirname(absolutePath);
+    const workerId = `worker:${path.relative(this.miniappRoot, absolutePath).split(path.sep).join('/')}`;
+    this.addNode({
+      id: workerId,
+      type: 'Worker',
+      label: workersPath,
+      properties: {
+        root: workerRoot,
+        isSubpackage: typeof workers === 'object' && workers.isSubpackage === true,
+      },
+    });
+    this.addLink(this.rootNodeId!, workerId, 'WorkerEntry');
+
+    const entryFiles = isDirectory
+      ? this.allFiles.filter((filePath) => this.isWorkerScript(filePath, workerRoot))
+      : [absolutePath];
+    for (const filePath of entryFiles) {
+      const node = this.addNodeForFile(filePath, 'Module');
+      if (node) {
+        await this.attachToWorker(workerId, node);
+      }
     }
   }
 
+  /**
+   * Cloud functions run on the server and are deployed folder by folder, so each one is an entry
+   * tree of its own, not linked from the App node: its entry script, package.json and config.json.
+   * `callFunction` calls link to them once all files are parsed.
+   */
+  private async processCloudFunctions(): Promise<void> {
+    for (const { name, root } of this.cloudFunctions) {
+      const functionId = `cloudfn:${name}`;
+      this.addNode({
+        id: functionId,
+        type: 'CloudFunction',
+        label: name,
+        properties: { cloudFunction: name, root },
+      });
+
+      for (const configFile of ['package.json', 'config.json']) {
+        const configPath = path.join(root, configFile);
+        const configNode = fs.existsSync(configPath)
+          ? this.addNodeForFile(configPath, 'Module')
+          : null;
+        if (configNode) {
+          this.addLink(functionId, configNode.id, 'Config');
+        }
+      }
+
+      const entryPath = findCloudFunctionEntry(root);
+      const entryNode = fs.existsSync(entryPath) ? this.addNodeForFile(entryPath, 'Module') : null;
+      if (!entryNode) {
+        logger.warn(`云函数 ${name} 的入口文件不存在: ${entryPath}`);
+        continue;
+      }
+      entryNode.properties!.structuralParentId = functionId;
+      this.addLink(functionId, entryNode.id, 'Structure');
+      await this.parseModuleDependencies(entryNode);
+    }
+  }
+
+  private isWorkerScript(filePath: string, workerRoot: string): boolean {
+    return (
+      filePath.startsWith(workerRoot + path.sep) &&
+      WORKER_SCRIPT_EXTENSIONS.has(path.extname(filePath).toLowerCase())
+    );
+  }
+
+  private async attachToWorker(workerId: string, node: GraphNode): Promise<void> {
+    node.properties!.structuralParentId = workerId;
+    this.addLink(workerId, node.id, 'Structure');
+    await this.parseModuleDependencies(node);
+  }
+
   // Helper to add a link for a single file path relative to miniappRoot
   private async addSingleFileLink(
     sourceId: string,
@@ -587,12 +1296,6 @@ export class ProjectStructureBuilder {
       const node = this.addNodeForFile(absolutePath, 'Module');
       if (node) {
         this.addLink(sourceId, node.id, linkType);
-        // Parse dependencies of this file too?
-        // For simple configs/resources, maybe not needed initially.
-        // For workers entry .js, it would be needed.
-        if (linkType === 'WorkerEntry') {
-          await this.parseModuleDependencies(node);
-        }
       }
     } else {
       logger.warn(`app.json 中引用的文件未找到: ${relativePath} (解析路径: ${absolutePath})`);
@@ -1,4 +1,14 @@
-export type NodeType = 'App' | 'Package' | 'Page' | 'Component' | 'Module';
+export type NodeType =
+  | 'App'
+  | 'Package'
+  | 'Page'
+  | 'Component'
+  | 'Module'
+  | 'NpmPackage'
+  | 'Plugin'
+  | 'ExtendedLib'
+  | 'Worker'
+  | 'CloudFunction';
 export type LinkType =
   | 'Structure' // Hierarchical relationship between components (App->Pages->Components) defined in configuration
   | 'Import'
@@ -6,7 +16,14 @@ export type LinkType =
   | 'Template'
   | 'Config' // Config for page/component -> json, App -> app.json
   | 'Resource' // Link to assets like images (e.g., from tabBar)
-  | 'WorkerEntry'; // Link from App to worker entry point
+  | 'WorkerEntry' // Link from App to the Worker node of the workers directory
+  | 'Plugin' // Use of a plugin component or page (plugin://name/...) by a page, component or script
+  | 'ExtendedLib' // Use of a component of a useExtendedLib library (weui-miniprogram/...)
+  | 'Navigation' // navigateTo/redirectTo/reLaunch/switchTab or <navigator> from a file to a page
+  | 'Behavior' // A `behaviors` entry of Component()/Page()/Behavior() to the module defining it
+  | 'AsyncImport' // require.async() from a script to a module, which may live in another package
+  | 'AsyncComponent' // usingComponents entry with a componentPlaceholder, loaded asynchronously
+  | 'CloudFunction'; // wx.cloud.callFunction({ name }) from a script to the cloud function it calls
 
 export interface GraphNode {
   id: string; // File path or logical identifier (e.g., 'app', 'pkg:subPackageRoot')
@@ -17,11 +34,24 @@ export interface GraphNode {
     // Common properties
     absolutePath?: string; // For Module nodes
     basePath?: string; // For Page/Component nodes
-    root?: string; // For Package nodes
+    tabBar?: boolean; // For Page nodes listed in tabBar.list
+    entry?: boolean; // For the Page node opened on launch (entryPagePath, or the first of pages)
+    root?: string; // For Package, Worker and CloudFunction nodes
+    independent?: boolean; // For Package nodes declared with `independent: true`
+    isSubpackage?: boolean; // For Worker nodes configured with `isSubpackage: true`
+    npmPackage?: string; // For NpmPackage nodes and the Module nodes of files inside miniprogram_npm
+    pluginName?: string; // For Plugin nodes
+    declared?: boolean; // For Plugin/ExtendedLib nodes: whether app.json declares or enables it
+    extendedLib?: string; // For ExtendedLib nodes: the useExtendedLib key, e.g. 'weui'
     path?: string; // For App node (path to app.json)
+    customTabBar?: boolean; // For App node: whether app.json sets tabBar.custom
     // File properties (for Module)
     fileSize?: number;
     fileExt?: string;
+    packIgnored?: boolean; // For Module nodes left out of the uploaded package by packOptions.ignore
+    cloudFunction?: string; // For CloudFunction nodes and the Module nodes of files inside one
+    definesBehavior?: boolean; // For Module nodes of scripts calling Behavior()
+    builtinBehaviors?: string[]; // For Module nodes of scripts mixing in `wx://` behaviors
     // Statistics properties (calculated in UI, not populated by backend)
     fileCount?: number;
     totalSize?: number;
@@ -40,11 +70,22 @@ export interface GraphLink {
   source: string; // ID of the source node
   target: string; // ID of the target node
   type: LinkType; // Type of the relationship
-  dependencyType?: string; // Specific type of dependency (e.g., 'static', 'dynamic')
-  // Optional metadata
+  dependencyType?: string; // Specific type of dependency (e.g., 'static', 'dynamic'; the API for Navigation links)
+  // Optional metadata; links created from a parsed reference carry a LinkSourceLocation,
+  // 'dynamic' Import links also carry the `pattern` of the computed path they were inferred from
   properties?: Record<string, any>;
 }
 
+/**
+ * Where the reference behind a link is written (import statement, usingComponents entry, ...).
+ * Line and column are 1-based.
+ */
+export interface LinkSourceLocation {
+  sourceFile: string;
+  line: number;
+  column: number;
+}
+
 export interface ProjectStructure {
   nodes: GraphNode[];
   links: GraphLink[];
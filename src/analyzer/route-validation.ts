@@ -0,0 +1,73 @@
+import { RouteDependency } from '../parser/dependency-types';
+import { toPageRoute } from '../parser/route-references';
+import { GraphNode, ProjectStructure } from './project-structure';
+
+export type InvalidRouteReason =
+  | 'unknown-page' // 打开的页面未在 app.json 的 pages 或分包中注册
+  | 'tab-bar-page' // navigateTo/redirectTo 打开了 tabBar 页面
+  | 'not-tab-bar-page' // switchTab 打开了不在 tabBar 中的页面
+  | 'relative-url'; // URL 缺少开头的 /，运行时相对当前页面解析
+
+export interface InvalidRoute {
+  route: RouteDependency;
+  /** The page route the URL resolves to, relative to the miniapp root */
+  page: string;
+  reason: InvalidRouteReason;
+}
+
+/**
+ * Resolves the page a URL opens. A relative URL that names a registered page once a leading / is
+ * added is taken to mean that page; other relative URLs are resolved against the directory of the
+ * file they are written in.
+ */
+function resolveRoutePage(
+  route: RouteDependency,
+  pages: Map<string, GraphNode>,
+  miniappRoot: string,
+): string {
+  if (!route.rawPath.startsWith('/')) {
+    const rootPage = toPageRoute(`/${route.rawPath}`, route.sourceFile, miniappRoot);
+    if (pages.has(`page:${rootPage}`)) {
+      return rootPage;
+    }
+  }
+  return toPageRoute(route.rawPath, route.sourceFile, miniappRoot);
+}
+
+/**
+ * Checks page URLs against the pages registered in app.json. Each URL is reported once, for the
+ * first problem found: an unknown page, an API that cannot open the page, or a relative URL.
+ */
+export function findInvalidRoutes(
+  routes: RouteDependency[],
+  structure: ProjectStructure,
+): InvalidRoute[] {
+  const pages = new Map(
+    structure.nodes.filter((node) => node.type === 'Page').map((node) => [node.id, node]),
+  );
+
+  const invalidRoutes: InvalidRoute[] = [];
+  for (const route of routes) {
+    const page = resolveRoutePage(route, pages, structure.miniappRoot);
+    const pageNode = pages.get(`page:${page}`);
+
+    let reason: InvalidRouteReason | null = null;
+    if (!pageNode) {
+      reason = 'unknown-page';
+    } else if (
+      pageNode.properties?.tabBar &&
+      (route.method === 'navigateTo' || route.method === 'redirectTo')
+    ) {
+      reason = 'tab-bar-page';
+    } else if (!pageNode.properties?.tabBar && route.method === 'switchTab') {
+      reason = 'not-tab-bar-page';
+    } else if (!route.rawPath.startsWith('/')) {
+      reason = 'relative-url';
+    }
+
+    if (reason) {
+      invalidRoutes.push({ route, page, reason });
+    }
+  }
+  return invalidRoutes;
+}
@@ -0,0 +1,59 @@
+import * as path from 'path';
+import { GraphNode, LinkSourceLocation, ProjectStructure } from './project-structure';
+
+export interface WorkerOutsideReference {
+  source: string; // Source node ID
+  target: string; // Target node ID
+  /** ID of the Worker node whose root the source file lives in */
+  workerId: string;
+  /** Where the import is written, when the parser recorded it */
+  location?: LinkSourceLocation;
+}
+
+function isInside(filePath: string, root: string): boolean {
+  return filePath.startsWith(root + path.sep);
+}
+
+/**
+ * Finds imports from worker scripts to files outside the worker root.
+ *
+ * Worker threads only have the files under the `workers` directory available, so such imports
+ * fail at runtime. npm packages in a miniprogram_npm outside the worker root count as outside too.
+ */
+export function findWorkerOutsideReferences(structure: ProjectStructure): WorkerOutsideReference[] {
+  const workers = structure.nodes.filter(
+    (node) => node.type === 'Worker' && typeof node.properties?.root === 'string',
+  );
+  if (workers.length === 0) {
+    return [];
+  }
+
+  const nodeMap = new Map(structure.nodes.map((node) => [node.id, node]));
+  const workerOf = (node: GraphNode): GraphNode | undefined => {
+    const filePath = node.properties?.absolutePath;
+    return typeof filePath === 'string'
+      ? workers.find((worker) => isInside(filePath, worker.properties!.root as string))
+      : undefined;
+  };
+
+  const references: WorkerOutsideReference[] = [];
+  for (const link of structure.links) {
+    if (link.type !== 'Import') continue;
+    const sourceNode = nodeMap.get(link.source);
+    const targetNode = nodeMap.get(link.target);
+    const targetPath = targetNode?.properties?.absolutePath;
+    if (!sourceNode || typeof targetPath !== 'string') continue;
+
+    const worker = workerOf(sourceNode);
+    if (worker && !isInside(targetPath, worker.properties!.root as string)) {
+      references.push({
+        source: link.source,
+        target: link.target,
+        workerId: worker.id,
+        ...(link.properties?.sourceFile && { location: link.properties as LinkSourceLocation }),
+      });
+    }
+  }
+
+  return references;
+}
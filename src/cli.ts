@@ -1,11 +1,16 @@
 #!/usr/bin/env node
 import chalk from 'chalk';
 import { Command } from 'commander';
+import { budget } from './commands/budget';
 import { clean } from './commands/clean';
+import { cloud } from './commands/cloud';
 import { cpd } from './commands/cpd';
+import { cycles } from './commands/cycles';
+import { deps } from './commands/deps';
 import { diffBundle } from './commands/diffBundle';
 import { graph } from './commands/graph';
 import { lint } from './commands/lint';
+import { optimizePackages } from './commands/optimize-packages';
 import { purgewxss } from './commands/purgewxss';
 import { inferIssueType, shutdownTelemetry, telemetry } from './telemetry';
 import { GlobalCliOptions } from './types/command-options';
@@ -26,11 +31,12 @@ program.hook('postAction', async () => {
   updateNoticeHandled = true;
   try {
     const notice = await updateNoticePromise;
+    // stderr keeps the notice out of reports piped from stdout (--format json)
     if (notice) {
-      console.log(notice);
+      console.error(notice);
     }
   } catch (error) {
-    console.debug('版本提示输出失败：', error);
+    logger.debug(`版本提示输出失败：${(error as Error).message}`);
   }
 });
 
@@ -91,6 +97,7 @@ program
   )
   .option('--essential-files <files>', '指定视为必要的文件，用逗号分隔 (覆盖配置文件)')
   .option('--include-assets', '在分析和清理中包含图片等资源文件 (默认不包含)', false)
+  .option('--no-cache', '不读取也不写入 node_modules/.cache/mp-lens 中的依赖解析缓存')
   .option('--telemetry <boolean>', '是否启用遥测 (默认 true)', true);
 
 function withTelemetryAction<T>(
@@ -147,6 +154,10 @@ program
   .description('生成依赖关系图的可视化文件')
   .option('-f, --format <format>', '输出格式 (html|json)', 'html')
   .option('-o, --output <file>', '保存图文件的路径')
+  .option('-w, --watch', '启动本地服务展示依赖图，文件变更时增量分析并自动刷新页面')
+  .option('--port <number>', '--watch 模式下本地服务的端口 (默认随机)', (val: string) =>
+    parseInt(val, 10),
+  )
   .action(withTelemetryAction('graph', graph));
 
 // clean command
@@ -161,8 +172,37 @@ program
   .command('lint [path]')
   .description('分析小程序项目中组件声明与使用的一致性')
   .option('--fix', '自动修复JSON文件中"声明但未使用"的问题')
+  .option('-w, --watch', '文件变更时增量分析并重新检查整个项目')
+  .option('-f, --format <format>', '输出格式 (text|json|sarif|checkstyle|junit)', 'text')
+  .option('-o, --output <file>', '非 text 格式结果的输出文件 (默认输出到控制台)')
   .action(withTelemetryAction('lint', lint));
 
+program
+  .command('cycles')
+  .description('检测 JS 模块、WXML 模板 import/include 以及 usingComponents 之间的循环依赖')
+  .option('-f, --format <format>', '输出格式 (text|json)', 'text')
+  .option('-o, --output <file>', 'json 结果的输出文件 (默认输出到控制台)')
+  .action(withTelemetryAction('cycles', cycles));
+
+program
+  .command('deps')
+  .description(
+    '对比代码中使用的 npm 包与 package.json 的 dependencies，找出未使用、未声明以及仅被不可达文件使用的包',
+  )
+  .option('-f, --format <format>', '输出格式 (text|json)', 'text')
+  .option('-o, --output <file>', 'json 结果的输出文件 (默认输出到控制台)')
+  .option('--package-json <file>', '要对比的 package.json (默认依次查找 miniappRoot 与项目根目录)')
+  .action(withTelemetryAction('deps', deps));
+
+program
+  .command('cloud')
+  .description(
+    '分析 cloudfunctionRoot 下的云函数，找出未被调用的云函数、调用了不存在云函数的代码以及云函数中未使用的文件',
+  )
+  .option('-f, --format <format>', '输出格式 (text|json)', 'text')
+  .option('-o, --output <file>', 'json 结果的输出文件 (默认输出到控制台)')
+  .action(withTelemetryAction('cloud', cloud));
+
 program
   .command('purgewxss [wxss-file-path]')
   .description(
@@ -183,8 +223,25 @@ program
   .command('diff')
   .description('比较两个 Git 分支或提交之间的包大小差异')
   .option('--base <string>', '基准分支或提交 (默认为 master)')
-  .option('--target <string>', '目标分支或提交 (默认为 HEAD)')
+  .option('--target <string>', '目标分支或提交 (默认为当前工作区，包含未提交的更改)')
+  .option('-f, --format <format>', '输出格式 (text|json|markdown)', 'text')
+  .option('-o, --output <file>', 'json/markdown 结果的输出文件 (默认输出到控制台)')
+  .option(
+    '--fail-on-increase <size>',
+    '主包或任一分包的增长超过该值时以非零状态码退出，支持大小 (如 10KB) 或百分比 (如 5%)',
+  )
   .action(withTelemetryAction('diff', diffBundle));
 
+program
+  .command('budget')
+  .description('检查主包与各分包大小是否超出限制（可在配置文件中通过 packageSizeLimits 自定义）')
+  .action(withTelemetryAction('budget', budget));
+
+program
+  .command('optimize-packages')
+  .description('找出仅被单个分包使用的主包文件，并估算移入该分包后主包可减少的体积')
+  .option('--write', '实际移动文件并更新引用路径', false)
+  .action(withTelemetryAction('optimize-packages', optimizePackages));
+
 // Parse arguments
 program.parse(process.argv);
@@ -0,0 +1,111 @@
+import chalk from 'chalk';
+import { analyzeProject } from '../analyzer/analyzer';
+import {
+  PackageSizeUsage,
+  PLATFORM_PACKAGE_SIZE_LIMITS,
+  sumReachableSizesByPackage,
+} from '../analyzer/package-attribution';
+import { GlobalCliOptions, PackageSizeLimits } from '../types/command-options';
+import { formatBytes, parseByteSize } from '../utils/byte-size';
+import { initializeCommandContext } from '../utils/command-init';
+import { logger } from '../utils/debug-logger';
+
+interface PackageBudgetResult {
+  label: string;
+  size: number;
+  fileCount: number;
+  limit: number;
+  exceeded: boolean;
+}
+
+/**
+ * Compares per-package sizes against the configured limits.
+ * Per-package overrides are keyed by subpackage root, or by 'main' for the main package.
+ */
+function evaluatePackageBudgets(
+  usages: PackageSizeUsage[],
+  limits: PackageSizeLimits = {},
+): { packages: PackageBudgetResult[]; total: PackageBudgetResult } {
+  const overrides = limits.packages ?? {};
+  const mainLimit = parseByteSize(limits.main ?? PLATFORM_PACKAGE_SIZE_LIMITS.main);
+  const subPackageLimit = parseByteSize(
+    limits.subPackage ?? PLATFORM_PACKAGE_SIZE_LIMITS.subPackage,
+  );
+
+  const packages = usages.map(({ pkg, totalSize, fileCount }) => {
+    const overrideKey = pkg.isMain ? 'main' : pkg.label;
+    const limit =
+      overrides[overrideKey] !== undefined
+        ? parseByteSize(overrides[overrideKey])
+        : pkg.isMain
+          ? mainLimit
+          : subPackageLimit;
+    return { label: pkg.label, size: totalSize, fileCount, limit, exceeded: totalSize > limit };
+  });
+
+  const totalSize = packages.reduce((sum, pkg) => sum + pkg.size, 0);
+  const totalLimit = parseByteSize(limits.total ?? PLATFORM_PACKAGE_SIZE_LIMITS.total);
+  const total = {
+    label: '总计',
+    size: totalSize,
+    fileCount: packages.reduce((sum, pkg) => sum + pkg.fileCount, 0),
+    limit: totalLimit,
+    exceeded: totalSize > totalLimit,
+  };
+
+  return { packages, total };
+}
+
+function printBudgetTable(packages: PackageBudgetResult[], total: PackageBudgetResult): void {
+  const rows = [...packages, total].map((result) => [
+    result.label,
+    String(result.fileCount),
+    formatBytes(result.size),
+    formatBytes(result.limit),
+    result.limit > 0 ? `${((result.size / result.limit) * 100).toFixed(1)}%` : '-',
+    result.exceeded ? '超出' : '正常',
+  ]);
+  const header = ['包', '文件数', '大小', '限制', '占比', '状态'];
+  const widths = header.map((title, i) =>
+    Math.max(title.length, ...rows.map((row) => row[i].length)),
+  );
+  const formatRow = (cells: string[]) =>
+    cells
+      .map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])))
+      .join('  ');
+
+  console.log(chalk.bold('\n📦 包大小预算检查结果:\n'));
+  console.log(formatRow(header));
+  console.log('─'.repeat(widths.reduce((sum, width) => sum + width + 2, -2)));
+  rows.forEach((row, i) => {
+    const exceeded = i < packages.length ? packages[i].exceeded : total.exceeded;
+    const line = formatRow(row);
+    console.log(exceeded ? chalk.red(line) : line);
+  });
+  console.log('');
+}
+
+/**
+ * 检查主包与各分包的大小是否超出预算
+ */
+export async function budget(cliOptions: GlobalCliOptions): Promise<void> {
+  const context = await initializeCommandContext(cliOptions);
+  const { projectRoot } = context;
+
+  logger.info('正在分析项目以统计各包大小...');
+  const { projectStructure, reachableNodeIds } = await analyzeProject(projectRoot, context);
+  const usages = sumReachableSizesByPackage(projectStructure, reachableNodeIds);
+  const { packages, total } = evaluatePackageBudgets(usages, context.packageSizeLimits);
+
+  printBudgetTable(packages, total);
+
+  const exceeded = [...packages, total].filter((result) => result.exceeded);
+  if (exceeded.length > 0) {
+    logger.error(
+      `❌ ${exceeded.length} 项超出大小预算: ${exceeded.map((result) => result.label).join(', ')}`,
+    );
+    process.exitCode = 1;
+  } else {
+    logger.info(chalk.green('✅ 所有包均在大小预算之内。'));
+  }
+}
@@ -24,7 +24,22 @@ export async function clean(
 
   try {
     logger.info('正在分析项目以查找未使用文件...');
-    const { unusedFiles } = await analyzeProject(projectRoot, context);
+    const { unusedFiles, projectStructure } = await analyzeProject(projectRoot, context);
+
+    // Files kept by a computed require()/import() are only matched by a pattern: worth a look
+    const dynamicLinks = projectStructure.links.filter((link) => link.dependencyType === 'dynamic');
+    if (dynamicLinks.length > 0) {
+      logger.info(
+        `以下 ${dynamicLinks.length} 条引用由动态 require/import 的路径模式推断，对应文件不会被清理:`,
+      );
+      for (const link of dynamicLinks) {
+        const { line, pattern } = link.properties ?? {};
+        logger.info(
+          `  ${path.relative(projectRoot, link.source)}:${line} (${pattern}) -> ${path.relative(projectRoot, link.target)}`,
+        );
+      }
+      console.log();
+    }
 
     if (unusedFiles.length === 0) {
       logger.info('✨ 未找到未使用文件。');
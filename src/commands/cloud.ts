@@ -0,0 +1,155 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeProject } from '../analyzer/analyzer';
+import { analyzeCloudFunctions, CloudFunctionReport } from '../analyzer/cloud-functions';
+import { ParsedDependency } from '../parser/dependency-types';
+import { CmdCloudOptions, GlobalCliOptions } from '../types/command-options';
+import { initializeCommandContext } from '../utils/command-init';
+import { logger } from '../utils/debug-logger';
+import { HandledError } from '../utils/errors';
+import { prepareReportOutput, writeReport } from '../utils/report-output';
+
+interface CloudReportCall {
+  /** File the call is written in, relative to the project root */
+  file: string;
+  name: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Everything the cloud command reports; serialized as-is by `--format json`.
+ */
+interface CloudReport {
+  cloudfunctionRoot: string;
+  summary: { functions: number; uncalled: number; missing: number; unusedFiles: number };
+  functions: Array<{
+    name: string;
+    calls: CloudReportCall[];
+    hasTriggers: boolean;
+    unusedFiles: string[];
+  }>;
+  uncalled: string[];
+  missing: CloudReportCall[];
+}
+
+function toReportPath(filePath: string, projectRoot: string): string {
+  return path.relative(projectRoot, filePath).replace(/\\/g, '/');
+}
+
+function buildReport(
+  result: CloudFunctionReport,
+  cloudfunctionRoot: string,
+  projectRoot: string,
+): CloudReport {
+  const toReportCall = (call: ParsedDependency): CloudReportCall => ({
+    file: toReportPath(call.sourceFile, projectRoot),
+    name: call.rawPath,
+    line: call.location?.line,
+    column: call.location?.column,
+  });
+
+  return {
+    cloudfunctionRoot: toReportPath(cloudfunctionRoot, projectRoot),
+    summary: {
+      functions: result.functions.length,
+      uncalled: result.uncalled.length,
+      missing: result.missing.length,
+      unusedFiles: result.functions.reduce((sum, fn) => sum + fn.unusedFiles.length, 0),
+    },
+    functions: result.functions.map((fn) => ({
+      name: fn.name,
+      calls: fn.calls.map(toReportCall),
+      hasTriggers: fn.hasTriggers,
+      unusedFiles: fn.unusedFiles.map((filePath) => toReportPath(filePath, projectRoot)),
+    })),
+    uncalled: result.uncalled.map((fn) => fn.name),
+    missing: result.missing.map(toReportCall),
+  };
+}
+
+function formatCall(call: CloudReportCall): string {
+  const position = call.line !== undefined ? `:${call.line}:${call.column}` : '';
+  return `${call.file}${position}`;
+}
+
+function printTextReport(report: CloudReport): void {
+  const { summary } = report;
+  console.log(`\n云函数 (${summary.functions}):`);
+  for (const fn of report.functions) {
+    const usage = fn.hasTriggers ? '定时触发' : `${fn.calls.length} 处调用`;
+    console.log(`  - ${fn.name} ${chalk.gray(`(${usage})`)}`);
+  }
+
+  if (summary.uncalled + summary.missing + summary.unusedFiles === 0) {
+    logger.info(chalk.green('✅ 所有云函数均被调用，没有调用不存在的云函数，也没有未使用的文件。'));
+    return;
+  }
+
+  if (report.missing.length > 0) {
+    console.log(chalk.red(`\n❌ 调用了不存在的云函数 (${summary.missing}):`));
+    for (const call of report.missing) {
+      console.log(`  - ${call.name}`);
+      console.log(chalk.gray(`      ${formatCall(call)}`));
+    }
+  }
+
+  if (report.uncalled.length > 0) {
+    console.log(
+      chalk.yellow(`\n⚠️ 没有被调用、也没有配置定时触发器的云函数 (${summary.uncalled}):`),
+    );
+    for (const name of report.uncalled) {
+      console.log(`  - ${name}`);
+    }
+  }
+
+  if (summary.unusedFiles > 0) {
+    console.log(chalk.yellow(`\n⚠️ 云函数中未被入口文件引用的文件 (${summary.unusedFiles}):`));
+    for (const fn of report.functions.filter((candidate) => candidate.unusedFiles.length > 0)) {
+      console.log(`  - ${fn.name}`);
+      for (const filePath of fn.unusedFiles) {
+        console.log(chalk.gray(`      ${filePath}`));
+      }
+    }
+  }
+  console.log('');
+}
+
+/**
+ * 分析 project.config.json 中 cloudfunctionRoot 下的云函数与小程序中的 callFunction 调用
+ */
+export async function cloud(
+  cliOptions: GlobalCliOptions,
+  cmdOptions: CmdCloudOptions,
+): Promise<void> {
+  const format = cmdOptions.format ?? 'text';
+  if (!['text', 'json'].includes(format)) {
+    throw new HandledError(`不支持的输出格式: ${format}。可选值: text、json`);
+  }
+  prepareReportOutput(format, cmdOptions.output);
+
+  const context = await initializeCommandContext(cliOptions);
+  const { projectRoot, cloudfunctionRoot } = context;
+  if (!cloudfunctionRoot) {
+    throw new HandledError('project.config.json 中没有配置 cloudfunctionRoot，无法分析云函数。');
+  }
+  if (!fs.existsSync(cloudfunctionRoot)) {
+    throw new HandledError(`cloudfunctionRoot 指向的目录不存在: ${cloudfunctionRoot}`);
+  }
+
+  logger.info('正在分析云函数...');
+  const analysis = await analyzeProject(projectRoot, context);
+  const report = buildReport(analyzeCloudFunctions(analysis), cloudfunctionRoot, projectRoot);
+
+  if (format === 'json') {
+    writeReport(JSON.stringify(report, null, 2), cmdOptions.output, '云函数报告');
+  } else {
+    printTextReport(report);
+  }
+
+  // Calling a function that does not exist fails at runtime
+  if (report.missing.length > 0) {
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,145 @@
+import chalk from 'chalk';
+import * as path from 'path';
+import { analyzeProject } from '../analyzer/analyzer';
+import { CycleKind, DependencyCycle, findDependencyCycles } from '../analyzer/cycles';
+import { GraphLink, GraphNode, ProjectStructure } from '../analyzer/project-structure';
+import { CmdCyclesOptions, GlobalCliOptions } from '../types/command-options';
+import { initializeCommandContext } from '../utils/command-init';
+import { logger } from '../utils/debug-logger';
+import { HandledError } from '../utils/errors';
+import { prepareReportOutput, writeReport } from '../utils/report-output';
+
+const CYCLE_KIND_TITLES: Record<CycleKind, string> = {
+  import: 'JS 模块循环引用',
+  template: 'WXML 模板循环引用',
+  component: '组件循环引用',
+};
+
+interface CycleReportLink {
+  source: string;
+  target: string;
+  /** Where the reference is written, relative to the project root */
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Everything the cycles command reports; serialized as-is by `--format json`.
+ * Files are relative to the project root, components are identified by their path.
+ */
+interface CyclesReport {
+  summary: { total: number } & Record<CycleKind, number>;
+  cycles: Array<{
+    kind: CycleKind;
+    nodes: string[];
+    path: string[];
+    links: CycleReportLink[];
+  }>;
+}
+
+function toReportPath(filePath: string, projectRoot: string): string {
+  return path.relative(projectRoot, filePath).replace(/\\/g, '/');
+}
+
+function displayNameOf(node: GraphNode | undefined, id: string, projectRoot: string): string {
+  const filePath = node?.properties?.absolutePath;
+  return typeof filePath === 'string' ? toReportPath(filePath, projectRoot) : (node?.label ?? id);
+}
+
+function buildReport(
+  structure: ProjectStructure,
+  cycles: DependencyCycle[],
+  projectRoot: string,
+): CyclesReport {
+  const nodeMap = new Map(structure.nodes.map((node) => [node.id, node]));
+  const nameOf = (id: string) => displayNameOf(nodeMap.get(id), id, projectRoot);
+  const toReportLink = (link: GraphLink): CycleReportLink => ({
+    source: nameOf(link.source),
+    target: nameOf(link.target),
+    ...(link.properties?.sourceFile && {
+      file: toReportPath(link.properties.sourceFile, projectRoot),
+      line: link.properties.line,
+      column: link.properties.column,
+    }),
+  });
+
+  const countOf = (kind: CycleKind) => cycles.filter((cycle) => cycle.kind === kind).length;
+  return {
+    summary: {
+      total: cycles.length,
+      import: countOf('import'),
+      template: countOf('template'),
+      component: countOf('component'),
+    },
+    cycles: cycles.map((cycle) => ({
+      kind: cycle.kind,
+      nodes: cycle.nodeIds.map(nameOf),
+      path: cycle.path.map(nameOf),
+      links: cycle.links.map(toReportLink),
+    })),
+  };
+}
+
+function printTextReport(report: CyclesReport, cycles: DependencyCycle[]): void {
+  if (report.cycles.length === 0) {
+    logger.info(chalk.green('✅ 未发现循环依赖。'));
+    return;
+  }
+
+  console.log(chalk.bold(`\n🔁 发现 ${report.summary.total} 处循环依赖:\n`));
+  report.cycles.forEach((cycle, index) => {
+    console.log(chalk.cyan(`[${CYCLE_KIND_TITLES[cycle.kind]}] 涉及 ${cycle.nodes.length} 个节点`));
+    // Print the cycle path, each step with the position of the reference leading to the next one
+    const pathIds = cycles[index].path;
+    cycle.path.forEach((name, step) => {
+      const nextId = pathIds[(step + 1) % pathIds.length];
+      const linkIndex = cycles[index].links.findIndex(
+        (link) => link.source === pathIds[step] && link.target === nextId,
+      );
+      const reference = cycle.links[linkIndex];
+      const position =
+        reference?.file && reference.line !== undefined
+          ? chalk.gray(` (${reference.file}:${reference.line}:${reference.column})`)
+          : '';
+      console.log(`  ${step === 0 ? ' ' : '→'} ${name}${position}`);
+    });
+    console.log(`  → ${cycle.path[0]}`);
+    if (cycle.nodes.length > cycle.path.length) {
+      console.log(
+        chalk.gray(
+          `  (同一循环中还包括: ${cycle.nodes.filter((name) => !cycle.path.includes(name)).join(', ')})`,
+        ),
+      );
+    }
+    console.log('');
+  });
+}
+
+/**
+ * 检测 JS 模块、WXML 模板以及组件之间的循环依赖
+ */
+export async function cycles(
+  cliOptions: GlobalCliOptions,
+  cmdOptions: CmdCyclesOptions,
+): Promise<void> {
+  const format = cmdOptions.format ?? 'text';
+  if (!['text', 'json'].includes(format)) {
+    throw new HandledError(`不支持的输出格式: ${format}。可选值: text、json`);
+  }
+  prepareReportOutput(format, cmdOptions.output);
+
+  const context = await initializeCommandContext(cliOptions);
+  const { projectRoot } = context;
+
+  logger.info('正在分析项目依赖以检测循环引用...');
+  const { projectStructure } = await analyzeProject(projectRoot, context);
+  const dependencyCycles = findDependencyCycles(projectStructure);
+  const report = buildReport(projectStructure, dependencyCycles, projectRoot);
+
+  if (format === 'json') {
+    writeReport(JSON.stringify(report, null, 2), cmdOptions.output, '循环依赖报告');
+  } else {
+    printTextReport(report, dependencyCycles);
+  }
+}
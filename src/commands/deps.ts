@@ -0,0 +1,195 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeProject } from '../analyzer/analyzer';
+import {
+  collectNpmPackageUsages,
+  compareNpmDependencies,
+  NpmDependencyReport,
+  NpmPackageUsage,
+  PackageJsonDependencies,
+  readPackageJsonDependencies,
+} from '../analyzer/npm-dependencies';
+import { CmdDepsOptions, GlobalCliOptions } from '../types/command-options';
+import { initializeCommandContext } from '../utils/command-init';
+import { logger } from '../utils/debug-logger';
+import { HandledError } from '../utils/errors';
+import { PathResolver } from '../utils/path-resolver';
+import { prepareReportOutput, writeReport } from '../utils/report-output';
+
+interface DepsReportUsage {
+  /** File the package is used in, relative to the project root */
+  file: string;
+  specifier: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Everything the deps command reports; serialized as-is by `--format json`.
+ */
+interface DepsReport {
+  packageJson: string;
+  summary: { unused: number; undeclared: number; onlyUnreachable: number };
+  unused: string[];
+  undeclared: Array<{ name: string; devDependency: boolean; usages: DepsReportUsage[] }>;
+  onlyUnreachable: Array<{ name: string; usages: DepsReportUsage[] }>;
+}
+
+function toReportPath(filePath: string, projectRoot: string): string {
+  return path.relative(projectRoot, filePath).replace(/\\/g, '/');
+}
+
+/**
+ * The package.json whose dependencies the devtools build into miniprogram_npm:
+ * the one given on the command line, otherwise the one in the miniapp root or the project root.
+ */
+function findPackageJson(
+  projectRoot: string,
+  miniappRoot: string,
+  packageJsonOption?: string,
+): string {
+  if (packageJsonOption) {
+    const packageJsonPath = path.resolve(process.cwd(), packageJsonOption);
+    if (!fs.existsSync(packageJsonPath)) {
+      throw new HandledError(`找不到指定的 package.json: ${packageJsonPath}`);
+    }
+    return packageJsonPath;
+  }
+
+  const candidates = Array.from(
+    new Set([path.join(miniappRoot, 'package.json'), path.join(projectRoot, 'package.json')]),
+  );
+  const packageJsonPath = candidates.find((candidate) => fs.existsSync(candidate));
+  if (!packageJsonPath) {
+    throw new HandledError(
+      `在 ${candidates.join(' 或 ')} 中均未找到 package.json，请通过 --package-json 指定。`,
+    );
+  }
+  return packageJsonPath;
+}
+
+function buildReport(
+  result: NpmDependencyReport,
+  packageJsonPath: string,
+  projectRoot: string,
+): DepsReport {
+  const toReportUsage = (usage: NpmPackageUsage): DepsReportUsage => ({
+    file: toReportPath(usage.sourceFile, projectRoot),
+    specifier: usage.rawPath,
+    line: usage.location?.line,
+    column: usage.location?.column,
+  });
+
+  return {
+    packageJson: toReportPath(packageJsonPath, projectRoot),
+    summary: {
+      unused: result.unused.length,
+      undeclared: result.undeclared.length,
+      onlyUnreachable: result.onlyUnreachable.length,
+    },
+    unused: result.unused,
+    undeclared: result.undeclared.map((entry) => ({
+      name: entry.packageName,
+      devDependency: entry.devDependency,
+      usages: entry.usages.map(toReportUsage),
+    })),
+    onlyUnreachable: result.onlyUnreachable.map((entry) => ({
+      name: entry.packageName,
+      usages: entry.usages.map(toReportUsage),
+    })),
+  };
+}
+
+function formatUsage(usage: DepsReportUsage): string {
+  const position = usage.line !== undefined ? `:${usage.line}:${usage.column}` : '';
+  return `${usage.file}${position}`;
+}
+
+function printTextReport(report: DepsReport): void {
+  const { summary } = report;
+  if (summary.unused + summary.undeclared + summary.onlyUnreachable === 0) {
+    logger.info(chalk.green(`✅ ${report.packageJson} 中的依赖与代码中的使用情况一致。`));
+    return;
+  }
+
+  if (report.undeclared.length > 0) {
+    console.log(chalk.red(`\n❌ 已使用但未在 dependencies 中声明的包 (${summary.undeclared}):`));
+    for (const entry of report.undeclared) {
+      const hint = entry.devDependency
+        ? chalk.yellow(' (仅在 devDependencies 中声明，构建 npm 时不会被打包)')
+        : '';
+      console.log(`  - ${entry.name}${hint}`);
+      for (const usage of entry.usages) {
+        console.log(chalk.gray(`      ${formatUsage(usage)}`));
+      }
+    }
+  }
+
+  if (report.unused.length > 0) {
+    console.log(chalk.yellow(`\n⚠️ 已声明但未被任何文件使用的包 (${summary.unused}):`));
+    for (const name of report.unused) {
+      console.log(`  - ${name}`);
+    }
+  }
+
+  if (report.onlyUnreachable.length > 0) {
+    console.log(
+      chalk.yellow(
+        `\n⚠️ 仅被不可达文件使用的包 (${summary.onlyUnreachable})，清理这些文件后即可移除:`,
+      ),
+    );
+    for (const entry of report.onlyUnreachable) {
+      console.log(`  - ${entry.name}`);
+      for (const usage of entry.usages) {
+        console.log(chalk.gray(`      ${formatUsage(usage)}`));
+      }
+    }
+  }
+  console.log('');
+}
+
+/**
+ * 对比代码中实际使用的 npm 包与 package.json 中声明的 dependencies
+ */
+export async function deps(
+  cliOptions: GlobalCliOptions,
+  cmdOptions: CmdDepsOptions,
+): Promise<void> {
+  const format = cmdOptions.format ?? 'text';
+  if (!['text', 'json'].includes(format)) {
+    throw new HandledError(`不支持的输出格式: ${format}。可选值: text、json`);
+  }
+  prepareReportOutput(format, cmdOptions.output);
+
+  const context = await initializeCommandContext(cliOptions);
+  const { projectRoot, miniappRoot } = context;
+  const packageJsonPath = findPackageJson(projectRoot, miniappRoot, cmdOptions.packageJson);
+
+  let declared: PackageJsonDependencies;
+  try {
+    declared = readPackageJsonDependencies(packageJsonPath);
+  } catch (error) {
+    throw new HandledError(`无法解析 ${packageJsonPath}: ${(error as Error).message}`);
+  }
+
+  logger.info('正在分析项目中使用的 npm 包...');
+  const analysis = await analyzeProject(projectRoot, context);
+  const usages = await collectNpmPackageUsages(analysis, new PathResolver(projectRoot, context));
+  const report = buildReport(
+    compareNpmDependencies(usages, declared),
+    packageJsonPath,
+    projectRoot,
+  );
+
+  if (format === 'json') {
+    writeReport(JSON.stringify(report, null, 2), cmdOptions.output, 'npm 依赖报告');
+  } else {
+    printTextReport(report);
+  }
+
+  // Packages missing from dependencies are not built into miniprogram_npm and fail at runtime
+  if (report.undeclared.length > 0) {
+    process.exitCode = 1;
+  }
+}
@@ -3,56 +3,56 @@ import * as fs from 'fs';
 import { sync as globSync } from 'glob';
 import * as path from 'path';
 import { analyzeProject } from '../analyzer/analyzer';
+import {
+  collectPackages,
+  findOwningPackage,
+  PLATFORM_PACKAGE_SIZE_LIMITS,
+} from '../analyzer/package-attribution';
 import { GraphNode } from '../analyzer/project-structure';
 import { CmdDiffOptions, GlobalCliOptions } from '../types/command-options';
+import { formatBytes, parseByteSize } from '../utils/byte-size';
 import { initializeCommandContext } from '../utils/command-init';
 import { logger } from '../utils/debug-logger';
 import { HandledError } from '../utils/errors';
 import { IMAGE_FILE_TYPES } from '../utils/filetypes';
 import {
-  branchOrCommitExists,
+  createWorktree,
   getDefaultBranch,
-  GitSwitchManager,
+  getRepositoryRoot,
   isGitRepository,
-  isWorkingDirectoryClean,
+  listIgnoredDirectories,
+  removeWorktree,
 } from '../utils/git-helper';
+import { MINIPROGRAM_NPM_DIR } from '../utils/miniprogram-npm';
+import { prepareReportOutput, writeReport } from '../utils/report-output';
 
-interface PackageAnalysisResult {
+// Images and other static assets packed into the main package, which every package may reference
+const SHARED_ASSETS_LABEL = '共享资源';
+
+interface PackageGroupSize {
+  /** 'shared' is a subset of the main package and is already counted in it */
+  kind: 'main' | 'subpackage' | 'shared';
   totalSize: number;
-  totalFiles: number;
-  files: Map<string, number>; // Map of relative file path to size
+  fileCount: number;
 }
 
-function formatBytes(bytes: number, includeSign = false): string {
-  const k = 1024;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
-
-  if (Math.abs(bytes) < 1e-9) {
-    // Treat as zero
-    return includeSign ? '+0 Bytes' : '0 Bytes';
-  }
-
-  const i = Math.floor(Math.log(Math.abs(bytes)) / Math.log(k));
-  const value = parseFloat((bytes / Math.pow(k, i)).toFixed(2));
-
-  let prefix = '';
-  if (includeSign) {
-    if (value > 0) {
-      prefix = '+';
-    }
-    // Negative sign is part of 'value' if bytes is negative
-  }
-  return `${prefix}${value} ${sizes[i]}`;
+interface PackageAnalysisResult {
+  totalSize: number;
+  totalFiles: number;
+  files: Map<string, number>; // Map of file path relative to the project root to size
+  packages: Map<string, PackageGroupSize>; // Map of package label to the files packed into it
 }
 
 async function getProjectPackageSizes(
   cliOptions: GlobalCliOptions,
   projectRoot: string, // Pass projectRoot explicitly for clarity with git operations
+  cacheRoot: string = projectRoot, // Holds the dependency cache; the user's checkout for worktrees
 ): Promise<PackageAnalysisResult> {
   const analysisSpecificCliOptions = { ...cliOptions, project: projectRoot };
   const context = await initializeCommandContext(analysisSpecificCliOptions);
 
   const files = new Map<string, number>();
+  const assetPaths = new Set<string>();
   let totalSize = 0;
 
   // 1. Analyze assets (images) using glob
@@ -72,7 +72,8 @@ async function getProjectPackageSizes(
         try {
           const stats = fs.statSync(absoluteAssetPath);
           if (stats.isFile()) {
-            files.set(relativeAssetPath, stats.size);
+            files.set(path.relative(projectRoot, absoluteAssetPath), stats.size);
+            assetPaths.add(path.relative(projectRoot, absoluteAssetPath));
           }
         } catch (err) {
           logger.warn(
@@ -90,15 +91,21 @@ async function getProjectPackageSizes(
   }
 
   // 2. Analyze project structure (non-assets and non-globbed assets)
-  const { projectStructure, reachableNodeIds } = await analyzeProject(projectRoot, context);
+  const { projectStructure, reachableNodeIds } = await analyzeProject(projectRoot, {
+    ...context,
+    cacheRoot,
+  });
 
   projectStructure.nodes.forEach((node: GraphNode) => {
     if (
       reachableNodeIds.has(node.id) &&
       node.properties?.absolutePath && // Ensure it's a file node
-      node.properties?.fileSize !== undefined
+      node.properties?.fileSize !== undefined &&
+      !node.properties.packIgnored && // Never uploaded, see packOptions in project.config.json
+      !node.properties.cloudFunction // Deployed separately from the mini-program
     ) {
-      const nodePath = node.id; // node.id is relative path for file nodes
+      // Key by project-relative path so both sides of the diff match, whichever directory they live in
+      const nodePath = path.relative(projectRoot, node.properties.absolutePath);
       // If this path is NOT already in our 'files' map (i.e., it wasn't added by the asset glob scan),
       // then add it from analyzeProject. This prioritizes glob-scanned assets.
       if (!files.has(nodePath)) {
@@ -107,84 +114,152 @@ async function getProjectPackageSizes(
     }
   });
 
-  // 3. Calculate total size and file count from the 'files' map
-  for (const size of files.values()) {
+  // 3. Calculate total size and group the files by the package they are packed into
+  const packageList = collectPackages(projectStructure);
+  const packages = new Map<string, PackageGroupSize>();
+  for (const pkg of packageList) {
+    packages.set(pkg.label, {
+      kind: pkg.isMain ? 'main' : 'subpackage',
+      totalSize: 0,
+      fileCount: 0,
+    });
+    if (pkg.isMain) {
+      packages.set(SHARED_ASSETS_LABEL, { kind: 'shared', totalSize: 0, fileCount: 0 });
+    }
+  }
+  const addToGroup = (label: string, size: number) => {
+    const group = packages.get(label)!;
+    group.totalSize += size;
+    group.fileCount++;
+  };
+
+  for (const [file, size] of files) {
     totalSize += size;
+    const owner = findOwningPackage(path.join(projectRoot, file), packageList);
+    addToGroup(owner.label, size);
+    if (owner.isMain && assetPaths.has(file)) {
+      addToGroup(SHARED_ASSETS_LABEL, size);
+    }
   }
 
   return {
     totalSize,
     totalFiles: files.size,
     files,
+    packages,
   };
 }
 
-export async function diffBundle(
-  cliOptions: GlobalCliOptions,
-  cmdOptions: CmdDiffOptions,
-): Promise<void> {
-  logger.info('开始分析包大小变化...');
-  const projectRoot = cliOptions.project;
+/**
+ * Copies the miniprogram_npm directories git ignores from the working copy into a worktree. npm
+ * is usually built by the devtools rather than committed; without the copy the ref would lack the
+ * npm files the working copy has, and every one of them would show up as added.
+ */
+function copyIgnoredNpmOutput(repoRoot: string, worktreePath: string): void {
+  for (const dir of listIgnoredDirectories(repoRoot)) {
+    const destination = path.join(worktreePath, dir);
+    if (path.posix.basename(dir) !== MINIPROGRAM_NPM_DIR || fs.existsSync(destination)) {
+      continue;
+    }
+    logger.debug(`复制被忽略的 npm 构建产物到临时工作树: ${dir}`);
+    fs.cpSync(path.join(repoRoot, dir), destination, { recursive: true });
+  }
+}
 
-  if (!isGitRepository(projectRoot)) {
-    throw new HandledError('当前目录不是一个 Git 仓库。请在 Git 仓库内运行此命令。');
+/**
+ * Analyzes the project as of a git ref in a temporary worktree, leaving the user's checkout alone.
+ * `null` analyzes the working copy itself, including uncommitted changes.
+ */
+async function analyzeRef(
+  cliOptions: GlobalCliOptions,
+  projectRoot: string,
+  ref: string | null,
+): Promise<PackageAnalysisResult> {
+  if (ref === null) {
+    return getProjectPackageSizes(cliOptions, projectRoot);
   }
 
-  const baseRef = cmdOptions.base || getDefaultBranch(projectRoot);
-  const targetRef = cmdOptions.target || 'HEAD';
+  const repoRoot = getRepositoryRoot(projectRoot);
+  const worktreePath = createWorktree(repoRoot, ref);
+  try {
+    copyIgnoredNpmOutput(repoRoot, worktreePath);
+    // The project may live in a subdirectory of the repository (e.g. a monorepo package)
+    const projectInWorktree = path.join(
+      worktreePath,
+      path.relative(repoRoot, fs.realpathSync(projectRoot)),
+    );
+    return await getProjectPackageSizes(cliOptions, projectInWorktree, projectRoot);
+  } finally {
+    removeWorktree(repoRoot, worktreePath);
+  }
+}
 
-  logger.info(`对比基准 (Base): ${baseRef}`);
-  logger.info(`对比目标 (Target): ${targetRef}`);
+interface FileChange {
+  type: 'added' | 'deleted' | 'modified';
+  file: string;
+  size?: number; // For added/deleted
+  oldSize?: number; // For modified
+  newSize?: number; // For modified
+  impact: number; // Actual difference, newSize - oldSize
+}
 
-  let baseSizes: PackageAnalysisResult;
-  let targetSizes: PackageAnalysisResult;
+interface PackageSizeChange {
+  package: string;
+  kind: PackageGroupSize['kind'];
+  oldSize: number;
+  newSize: number;
+  delta: number;
+  oldFiles: number;
+  newFiles: number;
+  /** Platform size limit of the package; shared assets count towards the main package instead */
+  limit?: number;
+  /** Within the limit in the base, over it in the target */
+  crossedLimit: boolean;
+}
 
-  const gitManager = new GitSwitchManager(projectRoot);
+/**
+ * Everything the diff command reports; serialized as-is by `--format json`.
+ */
+interface BundleDiffReport {
+  base: string;
+  target: string;
+  changes: FileChange[];
+  packages: PackageSizeChange[];
+  total: {
+    oldSize: number;
+    newSize: number;
+    delta: number;
+    oldFiles: number;
+    newFiles: number;
+  };
+  /** Packages whose growth exceeds `--fail-on-increase`; empty when no threshold is set */
+  exceededPackages: string[];
+}
 
-  try {
-    // --- Analyze Target ---
-    if (targetRef !== 'HEAD' && targetRef !== gitManager.getOriginalBranch()) {
-      if (!isWorkingDirectoryClean(projectRoot)) {
-        throw new HandledError('工作区不干净，请提交或暂存更改后再切换到其他提交进行对比。');
-      }
-      if (!branchOrCommitExists(projectRoot, targetRef)) {
-        throw new HandledError(`目标提交或分支 '${targetRef}' 不存在。`);
-      }
-      logger.info(`准备分析目标: ${targetRef}`);
-      gitManager.switchTo(targetRef);
-    } else {
-      logger.info(`直接分析当前状态作为目标 (${targetRef})`);
-    }
-    targetSizes = await getProjectPackageSizes(cliOptions, projectRoot);
+/**
+ * The allowed growth of a single package: either an absolute size or a percentage of its base size.
+ */
+type IncreaseThreshold = { bytes: number } | { percent: number };
 
-    // --- Analyze Base ---
-    if (baseRef !== gitManager.getCurrentBranch()) {
-      if (!isWorkingDirectoryClean(projectRoot)) {
-        logger.warn('切换到基准前检测到工作区不干净，这可能导致分析不准确。');
-      }
-      if (!branchOrCommitExists(projectRoot, baseRef)) {
-        throw new HandledError(`基准提交或分支 '${baseRef}' 不存在。`);
-      }
-      logger.info(`准备分析基准: ${baseRef}`);
-      gitManager.switchTo(baseRef);
-    }
-    baseSizes = await getProjectPackageSizes(cliOptions, projectRoot);
-  } finally {
-    gitManager.restore();
+function parseIncreaseThreshold(value: string): IncreaseThreshold {
+  const percentMatch = /^\s*(\d+(?:\.\d+)?)\s*%\s*$/.exec(value);
+  if (percentMatch) {
+    return { percent: parseFloat(percentMatch[1]) };
   }
+  return { bytes: parseByteSize(value) };
+}
 
-  // --- Display file-level details first ---
-  console.log(chalk.bold('\n📄 文件级别变化明细:'));
-
-  interface FileChange {
-    type: 'added' | 'deleted' | 'modified';
-    file: string;
-    size?: number; // For added/deleted
-    oldSize?: number; // For modified
-    newSize?: number; // For modified
-    impact: number; // Actual difference, oldSize - newSize
-  }
+function exceedsThreshold(change: PackageSizeChange, threshold: IncreaseThreshold): boolean {
+  if (change.kind === 'shared' || change.delta <= 0) return false;
+  if ('bytes' in threshold) return change.delta > threshold.bytes;
+  // A package that did not exist in the base grows by an infinite percentage
+  return change.oldSize === 0 || (change.delta / change.oldSize) * 100 > threshold.percent;
+}
 
+function compareFiles(
+  baseSizes: PackageAnalysisResult,
+  targetSizes: PackageAnalysisResult,
+): FileChange[] {
   const changes: FileChange[] = [];
 
   // Find added and modified files
@@ -213,12 +288,49 @@ export async function diffBundle(
   }
 
   // Sort changes by impact, descending (largest positive first, largest negative last)
-  changes.sort((a, b) => b.impact - a.impact);
+  return changes.sort((a, b) => b.impact - a.impact);
+}
 
-  if (changes.length === 0) {
+function comparePackages(
+  baseSizes: PackageAnalysisResult,
+  targetSizes: PackageAnalysisResult,
+): PackageSizeChange[] {
+  // Keep the main package first, followed by subpackages in declaration order
+  const labels = new Set([...baseSizes.packages.keys(), ...targetSizes.packages.keys()]);
+  return Array.from(labels, (label) => {
+    const before = baseSizes.packages.get(label);
+    const after = targetSizes.packages.get(label);
+    const kind = (after ?? before)!.kind;
+    const oldSize = before?.totalSize ?? 0;
+    const newSize = after?.totalSize ?? 0;
+    const limit =
+      kind === 'main'
+        ? PLATFORM_PACKAGE_SIZE_LIMITS.main
+        : kind === 'subpackage'
+          ? PLATFORM_PACKAGE_SIZE_LIMITS.subPackage
+          : undefined;
+    return {
+      package: label,
+      kind,
+      oldSize,
+      newSize,
+      delta: newSize - oldSize,
+      oldFiles: before?.fileCount ?? 0,
+      newFiles: after?.fileCount ?? 0,
+      limit,
+      crossedLimit: limit !== undefined && oldSize <= limit && newSize > limit,
+    };
+  });
+}
+
+function printTextReport(report: BundleDiffReport): void {
+  // --- Display file-level details first ---
+  console.log(chalk.bold('\n📄 文件级别变化明细:'));
+
+  if (report.changes.length === 0) {
     console.log('  所有文件大小均未发生变化。');
   } else {
-    changes.forEach((change) => {
+    report.changes.forEach((change) => {
       switch (change.type) {
         case 'added': {
           console.log(chalk.green(`  + ${change.file} (${formatBytes(change.size!)})`));
@@ -244,19 +356,169 @@ export async function diffBundle(
   }
 
   // --- Finally, print the summary at the end ---
-  const sizeDiff = targetSizes.totalSize - baseSizes.totalSize;
-  const filesDiff = targetSizes.totalFiles - baseSizes.totalFiles;
+  const { total } = report;
+  const filesDiff = total.newFiles - total.oldFiles;
 
   console.log(chalk.bold('\n📊 包大小差异对比结果:'));
-  console.log(chalk.dim(`  基准 (Base): ${baseRef}`));
-  console.log(chalk.dim(`  目标 (Target): ${targetRef}\n`));
+  console.log(chalk.dim(`  基准 (Base): ${report.base}`));
+  console.log(chalk.dim(`  目标 (Target): ${report.target}\n`));
 
   console.log(
-    `  总包大小: ${formatBytes(baseSizes.totalSize)} -> ${formatBytes(
-      targetSizes.totalSize,
-    )} (${formatBytes(sizeDiff, true)})`,
+    `  总包大小: ${formatBytes(total.oldSize)} -> ${formatBytes(
+      total.newSize,
+    )} (${formatBytes(total.delta, true)})`,
   );
   console.log(
-    `  总文件数: ${baseSizes.totalFiles} -> ${targetSizes.totalFiles} (${filesDiff > 0 ? '+' : ''}${filesDiff})`,
+    `  总文件数: ${total.oldFiles} -> ${total.newFiles} (${filesDiff > 0 ? '+' : ''}${filesDiff})`,
   );
+
+  console.log(chalk.bold('\n📦 各包大小变化:'));
+  for (const change of report.packages) {
+    const line = `  ${packageLabelOf(change)}: ${formatBytes(change.oldSize)} -> ${formatBytes(
+      change.newSize,
+    )} (${formatBytes(change.delta, true)}), 文件数 ${change.oldFiles} -> ${change.newFiles}`;
+    if (change.crossedLimit) {
+      console.log(chalk.red(`${line}  ⛔ 新超出 ${formatBytes(change.limit!)} 限制`));
+    } else if (change.delta > 0) {
+      console.log(chalk.yellow(line));
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+function packageLabelOf(change: PackageSizeChange): string {
+  return change.kind === 'shared' ? `└ ${change.package} (已计入主包)` : change.package;
+}
+
+const CHANGE_SYMBOLS: Record<FileChange['type'], string> = {
+  added: '🟢 新增',
+  deleted: '🔴 删除',
+  modified: '🟡 修改',
+};
+
+/**
+ * Renders the report as GitHub-flavoured Markdown, ready to paste into a PR comment.
+ */
+function formatMarkdownReport(report: BundleDiffReport): string {
+  const { total } = report;
+  const lines = [
+    '### 📦 包大小变化',
+    '',
+    `基准: \`${report.base}\` → 目标: \`${report.target}\``,
+    '',
+    '| 包 | 基准 | 目标 | 变化 | 文件数 |',
+    '| --- | ---: | ---: | ---: | ---: |',
+    ...report.packages.map((change) => {
+      const flags =
+        (report.exceededPackages.includes(change.package) ? ' ⚠️' : '') +
+        (change.crossedLimit ? ' ⛔' : '');
+      return `| ${packageLabelOf(change)}${flags} | ${formatBytes(change.oldSize)} | ${formatBytes(change.newSize)} | ${formatBytes(change.delta, true)} | ${change.oldFiles} → ${change.newFiles} |`;
+    }),
+    `| **总计** | **${formatBytes(total.oldSize)}** | **${formatBytes(total.newSize)}** | **${formatBytes(total.delta, true)}** | **${total.oldFiles} → ${total.newFiles}** |`,
+    '',
+  ];
+
+  const crossed = report.packages.filter((change) => change.crossedLimit);
+  if (crossed.length > 0) {
+    lines.push(
+      `> ⛔ 以下包新超出平台大小限制: ${crossed
+        .map((change) => `${change.package} (${formatBytes(change.limit!)})`)
+        .join(', ')}`,
+      '',
+    );
+  }
+  if (report.exceededPackages.length > 0) {
+    lines.push(`> ⚠️ 以下包的增长超出阈值: ${report.exceededPackages.join(', ')}`, '');
+  }
+
+  if (report.changes.length === 0) {
+    lines.push('所有文件大小均未发生变化。');
+  } else {
+    lines.push(
+      '<details>',
+      `<summary>文件变化明细 (${report.changes.length} 个文件)</summary>`,
+      '',
+      '| 变化 | 文件 | 基准 | 目标 | 差值 |',
+      '| --- | --- | ---: | ---: | ---: |',
+      ...report.changes.map((change) => {
+        const oldSize = change.type === 'added' ? '-' : formatBytes(change.oldSize ?? change.size!);
+        const newSize =
+          change.type === 'deleted' ? '-' : formatBytes(change.newSize ?? change.size!);
+        const file = change.file.replace(/\\/g, '/');
+        return `| ${CHANGE_SYMBOLS[change.type]} | \`${file}\` | ${oldSize} | ${newSize} | ${formatBytes(change.impact, true)} |`;
+      }),
+      '',
+      '</details>',
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export async function diffBundle(
+  cliOptions: GlobalCliOptions,
+  cmdOptions: CmdDiffOptions,
+): Promise<void> {
+  const projectRoot = path.resolve(cliOptions.project);
+  const format = cmdOptions.format ?? 'text';
+
+  if (!['text', 'json', 'markdown'].includes(format)) {
+    throw new HandledError(`不支持的输出格式: ${format}。可选值: text、json、markdown`);
+  }
+  prepareReportOutput(format, cmdOptions.output);
+  logger.info('开始分析包大小变化...');
+  if (!isGitRepository(projectRoot)) {
+    throw new HandledError('当前目录不是一个 Git 仓库。请在 Git 仓库内运行此命令。');
+  }
+  const threshold = cmdOptions.failOnIncrease
+    ? parseIncreaseThreshold(cmdOptions.failOnIncrease)
+    : null;
+
+  const baseRef = cmdOptions.base || getDefaultBranch(projectRoot);
+  // Without --target the working copy is compared, uncommitted changes included; an explicit
+  // ref, HEAD too, is always analyzed as the committed tree
+  const targetRef = cmdOptions.target ?? null;
+  const targetLabel = targetRef ?? '工作区 (含未提交的更改)';
+
+  logger.info(`对比基准 (Base): ${baseRef}`);
+  logger.info(`对比目标 (Target): ${targetLabel}`);
+
+  const [baseSizes, targetSizes] = await Promise.all([
+    analyzeRef(cliOptions, projectRoot, baseRef),
+    analyzeRef(cliOptions, projectRoot, targetRef),
+  ]);
+
+  const packages = comparePackages(baseSizes, targetSizes);
+  const report: BundleDiffReport = {
+    base: baseRef,
+    target: targetLabel,
+    changes: compareFiles(baseSizes, targetSizes),
+    packages,
+    total: {
+      oldSize: baseSizes.totalSize,
+      newSize: targetSizes.totalSize,
+      delta: targetSizes.totalSize - baseSizes.totalSize,
+      oldFiles: baseSizes.totalFiles,
+      newFiles: targetSizes.totalFiles,
+    },
+    exceededPackages: threshold
+      ? packages.filter((change) => exceedsThreshold(change, threshold)).map((c) => c.package)
+      : [],
+  };
+
+  if (format === 'json') {
+    writeReport(JSON.stringify(report, null, 2), cmdOptions.output, '对比结果');
+  } else if (format === 'markdown') {
+    writeReport(formatMarkdownReport(report), cmdOptions.output, '对比结果');
+  } else {
+    printTextReport(report);
+  }
+
+  if (report.exceededPackages.length > 0) {
+    logger.error(
+      `❌ ${report.exceededPackages.length} 个包的增长超出阈值 (${cmdOptions.failOnIncrease}): ${report.exceededPackages.join(', ')}`,
+    );
+    process.exitCode = 1;
+  }
 }
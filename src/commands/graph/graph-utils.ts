@@ -1,9 +1,32 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { markCycleLinks } from '../../analyzer/cycles';
 import { ProjectStructure } from '../../analyzer/project-structure';
 import { logger } from '../../utils/debug-logger';
 import { HtmlGeneratorPreact } from './html-renderer';
 
+/**
+ * Renders the HTML graph page without writing it anywhere
+ */
+export async function renderHtmlGraph(
+  projectStructure: ProjectStructure,
+  reachableNodeIds: Set<string>,
+  unusedFiles: string[],
+  projectRoot: string,
+  liveEventsUrl?: string,
+): Promise<string> {
+  // Links taking part in a circular dependency are highlighted in the graph
+  const htmlGenerator = new HtmlGeneratorPreact(
+    markCycleLinks(projectStructure),
+    reachableNodeIds,
+    unusedFiles,
+  );
+  return htmlGenerator.generate({
+    title: path.basename(projectRoot) + ' 依赖可视化',
+    liveEventsUrl,
+  });
+}
+
 /**
  * Generates HTML format graph
  */
@@ -14,10 +37,12 @@ export async function generateHtmlGraph(
   projectRoot: string,
   outputPath?: string,
 ): Promise<void> {
-  const htmlGenerator = new HtmlGeneratorPreact(projectStructure, reachableNodeIds, unusedFiles);
-  const htmlContent = await htmlGenerator.generate({
-    title: path.basename(projectRoot) + ' 依赖可视化',
-  });
+  const htmlContent = await renderHtmlGraph(
+    projectStructure,
+    reachableNodeIds,
+    unusedFiles,
+    projectRoot,
+  );
 
   const filePath = outputPath || path.resolve(process.cwd(), 'mp-lens-graph.html');
   writeOutputToFile(htmlContent, filePath);
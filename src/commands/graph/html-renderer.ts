@@ -6,6 +6,8 @@ import { AssetResolver } from '../../utils/asset-resolver';
  */
 export interface HtmlGeneratorOptions {
   title: string;
+  /** Server-Sent Events 地址；设置后页面会订阅该地址并在收到新数据时刷新（--watch 模式） */
+  liveEventsUrl?: string;
 }
 
 /**
@@ -60,7 +62,13 @@ export class HtmlGeneratorPreact {
     // Embed unused files list
     window.__MP_LENS_UNUSED_FILES__ = ${unusedFilesJson};
     // Set title for UI components
-    window.__MP_LENS_TITLE__ = "${options.title || '依赖可视化'}";
+    window.__MP_LENS_TITLE__ = "${options.title || '依赖可视化'}";${
+      options.liveEventsUrl
+        ? `
+    // Subscribe to live updates (--watch)
+    window.__MP_LENS_LIVE_EVENTS_URL__ = ${JSON.stringify(options.liveEventsUrl)};`
+        : ''
+    }
   </script>
   <script type="module">
     ${jsContent}
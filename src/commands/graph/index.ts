@@ -1,10 +1,48 @@
 import * as path from 'path';
-import { analyzeProject } from '../../analyzer/analyzer';
-import { CmdGraphOptions, GlobalCliOptions } from '../../types/command-options';
+import { AnalysisResult, analyzeProject, createAnalysisSession } from '../../analyzer/analyzer';
+import { markCycleLinks } from '../../analyzer/cycles';
+import { AnalyzerOptions, CmdGraphOptions, GlobalCliOptions } from '../../types/command-options';
 import { initializeCommandContext } from '../../utils/command-init';
 import { logger } from '../../utils/debug-logger';
 import { HandledError } from '../../utils/errors';
-import { generateHtmlGraph, generateJsonGraph } from './graph-utils';
+import { waitForInterrupt, watchFiles } from '../../utils/file-watcher';
+import { generateHtmlGraph, generateJsonGraph, renderHtmlGraph } from './graph-utils';
+import { LIVE_EVENTS_PATH, LiveGraphServer } from './live-server';
+
+/**
+ * Serves the HTML graph from a local server and pushes incremental updates to the open page
+ * whenever project files change.
+ */
+async function watchGraph(projectRoot: string, context: AnalyzerOptions, port = 0): Promise<void> {
+  const session = await createAnalysisSession(projectRoot, context);
+  const render = (result: AnalysisResult) =>
+    renderHtmlGraph(
+      result.projectStructure,
+      result.reachableNodeIds,
+      result.unusedFiles,
+      projectRoot,
+      LIVE_EVENTS_PATH,
+    );
+
+  const server = new LiveGraphServer(await render(session.result));
+  const url = await server.listen(port);
+  logger.info(`✅ 依赖图已在 ${url} 上提供，文件变更后页面会自动刷新。按 Ctrl+C 退出。`);
+
+  let lastResult = session.result;
+  const watcher = watchFiles(projectRoot, async (changedFiles) => {
+    const result = await session.update(changedFiles);
+    if (result === lastResult) return; // Nothing the analysis cares about changed
+    lastResult = result;
+    server.publish(await render(result), {
+      graph: markCycleLinks(result.projectStructure),
+      unusedFiles: result.unusedFiles,
+    });
+  });
+
+  await waitForInterrupt();
+  watcher.close();
+  await server.close();
+}
 
 /**
  * 生成项目依赖图
@@ -32,6 +70,14 @@ export async function graph(
   // Note: Common path logging is done in initializeCommandContext
   if (outputPathAbsolute) logger.info(`输出文件: ${outputPathAbsolute}`);
 
+  if (cmdOptions.watch) {
+    if (format !== 'html') {
+      throw new HandledError('--watch 仅支持 html 格式。');
+    }
+    await watchGraph(projectRoot, context, cmdOptions.port);
+    return;
+  }
+
   try {
     logger.info('正在分析项目依赖...');
     // Call analyzeProject with options from context
@@ -0,0 +1,85 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ProjectStructure } from '../../analyzer/project-structure';
+import { logger } from '../../utils/debug-logger';
+
+/** Path of the Server-Sent Events stream the page subscribes to */
+export const LIVE_EVENTS_PATH = '/events';
+
+/**
+ * Payload pushed to the page on every update. Mirrors the data embedded into the HTML.
+ */
+export interface LiveGraphUpdate {
+  graph: ProjectStructure;
+  unusedFiles: string[];
+}
+
+/**
+ * Serves the generated graph page over HTTP and pushes updates to open pages through
+ * Server-Sent Events, so the UI refreshes without reloading.
+ */
+export class LiveGraphServer {
+  private server: http.Server;
+  private clients: Set<http.ServerResponse> = new Set();
+  private html: string;
+
+  constructor(initialHtml: string) {
+    this.html = initialHtml;
+    this.server = http.createServer((req, res) => this.handleRequest(req, res));
+  }
+
+  /**
+   * Starts listening on localhost and returns the URL of the page.
+   */
+  async listen(port: number): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, '127.0.0.1', () => resolve());
+    });
+    const { port: actualPort } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${actualPort}/`;
+  }
+
+  /**
+   * Replaces the page served to new visitors and pushes the data to every open page.
+   */
+  publish(html: string, update: LiveGraphUpdate): void {
+    this.html = html;
+    const message = `data: ${JSON.stringify(update)}\n\n`;
+    for (const client of this.clients) {
+      client.write(message);
+    }
+    logger.debug(`Pushed graph update to ${this.clients.size} open page(s)`);
+  }
+
+  async close(): Promise<void> {
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.url === LIVE_EVENTS_PATH) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.write(': connected\n\n');
+      this.clients.add(res);
+      req.on('close', () => this.clients.delete(res));
+      return;
+    }
+
+    if (req.url === '/' || req.url === '/index.html') {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(this.html);
+      return;
+    }
+
+    res.writeHead(404);
+    res.end();
+  }
+}
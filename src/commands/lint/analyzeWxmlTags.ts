@@ -5,28 +5,29 @@ import * as fs from 'fs';
 import { logger } from '../../utils/debug-logger';
 import { PathResolver } from '../../utils/path-resolver';
 import { normalizeWxmlImportPath } from '../../utils/wxml-path';
+import { WxmlTagLocation } from './types';
 
 /**
  * Analyzes a WXML file and all its imported/included templates recursively
- * to extract a map of tag name -> set of WXML files where it is used.
+ * to extract a map of tag name -> every place where it is used.
  *
  * @param wxmlFilePath Path to the WXML file to analyze
  * @param pathResolver Instance of PathResolver to resolve import/include paths
  * @param visited Set of already visited files (to prevent infinite loops)
- * @returns Map<tag, Set<wxmlFile>>
+ * @returns Map<tag, locations>, in document order
  */
 export async function analyzeWxmlTags(
   wxmlFilePath: string,
   pathResolver: PathResolver,
   visited: Set<string> = new Set(),
-): Promise<Map<string, Set<string>>> {
+): Promise<Map<string, WxmlTagLocation[]>> {
   // Check for circular imports
   if (visited.has(wxmlFilePath)) {
     return new Map();
   }
   visited.add(wxmlFilePath);
 
-  const tagToFiles = new Map<string, Set<string>>();
+  const tagToLocations = new Map<string, WxmlTagLocation[]>();
 
   try {
     // Read WXML file content
@@ -34,49 +35,64 @@ export async function analyzeWxmlTags(
     // Parse WXML content to AST
     const ast = parse(content);
     // Collect tags in this file
-    collectTagsWithSource(ast, wxmlFilePath, tagToFiles);
+    collectTagsWithSource(ast, wxmlFilePath, tagToLocations);
     // Process imports and includes
     const importPaths = extractImportPaths(ast);
     for (const importPath of importPaths) {
       try {
         const resolvedPath = pathResolver.resolveAnyPath(importPath, wxmlFilePath, ['wxml']);
         if (resolvedPath) {
-          const importedTagToFiles = await analyzeWxmlTags(resolvedPath, pathResolver, visited);
-          // Merge importedTagToFiles into tagToFiles
-          for (const [tag, files] of importedTagToFiles.entries()) {
-            if (!tagToFiles.has(tag)) tagToFiles.set(tag, new Set());
-            for (const f of files) tagToFiles.get(tag)!.add(f);
+          const importedTagToLocations = await analyzeWxmlTags(resolvedPath, pathResolver, visited);
+          // Merge importedTagToLocations into tagToLocations
+          for (const [tag, locations] of importedTagToLocations.entries()) {
+            if (!tagToLocations.has(tag)) tagToLocations.set(tag, []);
+            tagToLocations.get(tag)!.push(...locations);
           }
         }
       } catch (err) {
         logger.warn(`Error processing import ${importPath} in ${wxmlFilePath}: ${err}`);
       }
     }
-    return tagToFiles;
+    return tagToLocations;
   } catch (err) {
     logger.error(`Error analyzing WXML file ${wxmlFilePath}: ${err}`);
-    return tagToFiles;
+    return tagToLocations;
   }
 }
 
 /**
- * Collects all tag names in the AST, mapping each tag to the WXML file where it is found.
+ * Records a tag usage at the start position of an AST node (1-based line and column).
+ */
+function addTagLocation(
+  tagToLocations: Map<string, WxmlTagLocation[]>,
+  tag: string,
+  wxmlFilePath: string,
+  node: { loc?: { start: { line: number; column: number } } },
+): void {
+  if (!tagToLocations.has(tag)) tagToLocations.set(tag, []);
+  tagToLocations.get(tag)!.push({
+    file: wxmlFilePath,
+    line: node.loc?.start.line ?? 1,
+    column: node.loc?.start.column ?? 1,
+  });
+}
+
+/**
+ * Collects all tag names in the AST, mapping each tag to the places where it is found.
  */
 function collectTagsWithSource(
   ast: WXNode | Program,
   wxmlFilePath: string,
-  tagToFiles: Map<string, Set<string>>,
+  tagToLocations: Map<string, WxmlTagLocation[]>,
 ): void {
   if (ast.type === 'WXElement') {
-    if (!tagToFiles.has(ast.name)) tagToFiles.set(ast.name, new Set());
-    tagToFiles.get(ast.name)!.add(wxmlFilePath);
+    addTagLocation(tagToLocations, ast.name, wxmlFilePath, ast);
     // Process attributes for generic components
     const attrs = ast.startTag?.attributes;
     if (attrs && Array.isArray(attrs)) {
       for (const attr of attrs) {
         if (attr.key && attr.key.startsWith('generic:') && attr.value) {
-          if (!tagToFiles.has(attr.value)) tagToFiles.set(attr.value, new Set());
-          tagToFiles.get(attr.value)!.add(wxmlFilePath);
+          addTagLocation(tagToLocations, attr.value, wxmlFilePath, attr);
         }
       }
     }
@@ -84,13 +100,13 @@ function collectTagsWithSource(
   // Recursively process children
   if (ast.type === 'WXElement' && Array.isArray(ast.children)) {
     for (const child of ast.children) {
-      collectTagsWithSource(child, wxmlFilePath, tagToFiles);
+      collectTagsWithSource(child, wxmlFilePath, tagToLocations);
     }
   }
   // Handle Program/body
   if (ast.type === 'Program' && Array.isArray(ast.body)) {
     for (const node of ast.body) {
-      collectTagsWithSource(node, wxmlFilePath, tagToFiles);
+      collectTagsWithSource(node, wxmlFilePath, tagToLocations);
     }
   }
 }
@@ -1,22 +1,23 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { findJsonPointerLocations, toJsonPointerSegment } from '../../parser/source-location';
 import { logger } from '../../utils/debug-logger';
 import { filterStandardWxmlTags } from './standard-wxml-tags';
-import { LintIssue } from './types';
+import { LintIssue, WxmlTagLocation } from './types';
 
 /**
  * Performs component usage linting by comparing declarations with usage
  *
  * @param wxmlFilePath Path to the WXML file
  * @param jsonFilePath Path to the corresponding JSON file
- * @param usedTagToFiles Map<tag, Set<wxmlFile>>
+ * @param usedTagToLocations Map<tag, locations>
  * @param globalComponents Object containing globally declared components from app.json
  * @returns Lint issue object containing any identified problems
  */
 export function lintComponentUsage(
   wxmlFilePath: string,
   jsonFilePath: string,
-  usedTagToFiles: Map<string, Set<string>>,
+  usedTagToLocations: Map<string, WxmlTagLocation[]>,
   globalComponents: Record<string, string>,
 ): LintIssue {
   // Initialize result object
@@ -47,16 +48,21 @@ export function lintComponentUsage(
     };
 
     // Filter out standard WXML tags from used tags
-    const usedCustomTags = Array.from(usedTagToFiles.keys()).filter(
+    const usedCustomTags = Array.from(usedTagToLocations.keys()).filter(
       (tag) => filterStandardWxmlTags(new Set([tag])).size > 0,
     );
 
-    // Find components declared but not used
+    // Find components declared but not used. Components declared in app.json have no position here
+    const keyLocations = findJsonPointerLocations(jsonContent);
+    const declarationLocation = (tag: string) =>
+      keyLocations.get(`/componentGenerics/${toJsonPointerSegment(tag)}`) ??
+      keyLocations.get(`/usingComponents/${toJsonPointerSegment(tag)}`);
     for (const [componentTag, componentPath] of Object.entries(declaredComponents)) {
       if (!usedCustomTags.includes(componentTag)) {
         result.declaredNotUsed.push({
           componentTag,
           path: componentPath,
+          ...declarationLocation(componentTag),
         });
       }
     }
@@ -64,10 +70,12 @@ export function lintComponentUsage(
     // Find tags used but not declared
     for (const tag of usedCustomTags) {
       if (!declaredComponents[tag]) {
-        const usedIn = Array.from(usedTagToFiles.get(tag) || []);
+        const locations = usedTagToLocations.get(tag) || [];
+        const usedIn = Array.from(new Set(locations.map((location) => location.file)));
         result.usedNotDeclared.push({
           componentTag: tag,
           usedIn,
+          locations,
           suggestion: `Consider adding '${tag}' to the usingComponents section in ${path.basename(jsonFilePath)}`,
         });
       }
@@ -0,0 +1,205 @@
+import * as path from 'path';
+import { version } from '../../version';
+import { getRuleTitle } from './project-rules';
+import { LintResult, LintSeverity } from './types';
+
+export type LintOutputFormat = 'text' | 'json' | 'sarif' | 'checkstyle' | 'junit';
+
+export const LINT_OUTPUT_FORMATS: LintOutputFormat[] = [
+  'text',
+  'json',
+  'sarif',
+  'checkstyle',
+  'junit',
+];
+
+/**
+ * A single lint finding, flattened from LintIssue and LintRuleIssue for machine-readable output.
+ */
+interface LintReportEntry {
+  rule: string;
+  severity: LintSeverity;
+  /** Path relative to the project root, always with forward slashes */
+  file: string;
+  line?: number;
+  column?: number;
+  message: string;
+  componentTag?: string;
+}
+
+function toReportPath(filePath: string, projectRoot: string): string {
+  return path.relative(projectRoot, filePath).replace(/\\/g, '/');
+}
+
+/**
+ * Flattens the lint result into one entry per finding: component issues are reported at every
+ * place the tag is declared or used, followed by project-level rule issues.
+ */
+function collectEntries(result: LintResult, projectRoot: string): LintReportEntry[] {
+  const entries: LintReportEntry[] = [];
+
+  for (const issue of result.issues) {
+    for (const component of issue.declaredNotUsed) {
+      entries.push({
+        rule: 'declared-not-used',
+        severity: 'warning',
+        file: toReportPath(issue.jsonFile, projectRoot),
+        line: component.line,
+        column: component.column,
+        message: `组件 ${component.componentTag} 已在 JSON 中声明但在 WXML 中未使用`,
+        componentTag: component.componentTag,
+      });
+    }
+    for (const component of issue.usedNotDeclared) {
+      for (const location of component.locations) {
+        entries.push({
+          rule: 'used-not-declared',
+          severity: 'warning',
+          file: toReportPath(location.file, projectRoot),
+          line: location.line,
+          column: location.column,
+          message: `组件 ${component.componentTag} 已在 WXML 中使用但在 ${path.basename(issue.jsonFile)} 中未声明`,
+          componentTag: component.componentTag,
+        });
+      }
+    }
+  }
+
+  for (const issue of result.ruleIssues) {
+    entries.push({
+      rule: issue.rule,
+      severity: issue.severity,
+      file: toReportPath(issue.file, projectRoot),
+      line: issue.line,
+      column: issue.column,
+      message: issue.message,
+    });
+  }
+
+  return entries;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function groupByFile(entries: LintReportEntry[]): Map<string, LintReportEntry[]> {
+  const byFile = new Map<string, LintReportEntry[]>();
+  for (const entry of entries) {
+    if (!byFile.has(entry.file)) byFile.set(entry.file, []);
+    byFile.get(entry.file)!.push(entry);
+  }
+  return byFile;
+}
+
+function formatJson(result: LintResult, entries: LintReportEntry[]): string {
+  return JSON.stringify({ summary: result.summary, issues: entries }, null, 2);
+}
+
+/**
+ * SARIF 2.1.0, understood by GitHub code scanning and most code review tools.
+ */
+function formatSarif(entries: LintReportEntry[]): string {
+  const ruleIds = Array.from(new Set(entries.map((entry) => entry.rule)));
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'mp-lens',
+            version,
+            informationUri: 'https://github.com/chess99/mp-lens',
+            rules: ruleIds.map((id) => ({ id, shortDescription: { text: getRuleTitle(id) } })),
+          },
+        },
+        results: entries.map((entry) => ({
+          ruleId: entry.rule,
+          level: entry.severity,
+          message: { text: entry.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: entry.file },
+                ...(entry.line !== undefined && {
+                  region: { startLine: entry.line, startColumn: entry.column },
+                }),
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2);
+}
+
+function formatCheckstyle(entries: LintReportEntry[]): string {
+  const lines = ['<?xml version="1.0" encoding="utf-8"?>', '<checkstyle version="4.3">'];
+  for (const [file, fileEntries] of groupByFile(entries)) {
+    lines.push(`  <file name="${escapeXml(file)}">`);
+    for (const entry of fileEntries) {
+      lines.push(
+        `    <error line="${entry.line ?? 0}" column="${entry.column ?? 0}" severity="${entry.severity}" message="${escapeXml(entry.message)}" source="mp-lens.${entry.rule}" />`,
+      );
+    }
+    lines.push('  </file>');
+  }
+  lines.push('</checkstyle>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * JUnit XML: one test suite per file and one failing test case per finding.
+ */
+function formatJunit(entries: LintReportEntry[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<testsuites name="mp-lens lint" tests="${entries.length}" failures="${entries.length}">`,
+  ];
+  for (const [file, fileEntries] of groupByFile(entries)) {
+    lines.push(
+      `  <testsuite name="${escapeXml(file)}" tests="${fileEntries.length}" failures="${fileEntries.length}" errors="0">`,
+    );
+    for (const entry of fileEntries) {
+      const position = entry.line !== undefined ? `:${entry.line}:${entry.column ?? 0}` : '';
+      lines.push(
+        `    <testcase name="${escapeXml(`${entry.rule}${position}`)}" classname="${escapeXml(file)}">`,
+        `      <failure type="${entry.severity}" message="${escapeXml(entry.message)}">${escapeXml(
+          `${file}${position} ${entry.message}`,
+        )}</failure>`,
+        '    </testcase>',
+      );
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serializes the lint result in a machine-readable format. File paths are relative to the project root.
+ */
+export function formatLintResult(
+  result: LintResult,
+  format: Exclude<LintOutputFormat, 'text'>,
+  projectRoot: string,
+): string {
+  const entries = collectEntries(result, projectRoot);
+  switch (format) {
+    case 'json':
+      return formatJson(result, entries);
+    case 'sarif':
+      return formatSarif(entries);
+    case 'checkstyle':
+      return formatCheckstyle(entries);
+    case 'junit':
+      return formatJunit(entries);
+  }
+}
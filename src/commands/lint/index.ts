@@ -1,16 +1,20 @@
 import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
-import { analyzeProject } from '../../analyzer/analyzer';
-import { CmdLintOptions, GlobalCliOptions } from '../../types/command-options';
+import { AnalysisResult, createAnalysisSession } from '../../analyzer/analyzer';
+import { AnalyzerOptions, CmdLintOptions, GlobalCliOptions } from '../../types/command-options';
 import { initializeCommandContext } from '../../utils/command-init';
 import { logger } from '../../utils/debug-logger';
 import { HandledError } from '../../utils/errors';
+import { waitForInterrupt, watchFiles } from '../../utils/file-watcher';
 import { generateNodeIdAndLabel } from '../../utils/id-helper';
 import { PathResolver } from '../../utils/path-resolver';
+import { prepareReportOutput, writeReport } from '../../utils/report-output';
 import { analyzeWxmlTags } from './analyzeWxmlTags';
 import { lintComponentUsage } from './component-linter';
-import { LintResult } from './types';
+import { formatLintResult, LINT_OUTPUT_FORMATS, LintOutputFormat } from './formatters';
+import { getRuleTitle, runProjectRules } from './project-rules';
+import { LintResult, LintRuleIssue } from './types';
 
 /**
  * Reads global components from app.json
@@ -66,9 +70,9 @@ async function processFilePair(ctx: FilePairContext): Promise<void> {
     logger.debug(`Processing file pair: ${wxmlPath} and ${jsonPath}`);
     result.summary.filesScanned++;
     // Analyze WXML tags
-    const usedTagToFiles = await analyzeWxmlTags(wxmlPath, pathResolver);
+    const usedTagToLocations = await analyzeWxmlTags(wxmlPath, pathResolver);
     // Lint component usage
-    const lintIssue = lintComponentUsage(wxmlPath, jsonPath, usedTagToFiles, globalComponents);
+    const lintIssue = lintComponentUsage(wxmlPath, jsonPath, usedTagToLocations, globalComponents);
 
     // Read and parse JSON file to determine type and generate canonical ID
     const jsonContent = fs.readFileSync(jsonPath, 'utf-8');
@@ -243,14 +247,14 @@ async function processTargetPath(
  * Processes the entire miniapp project
  *
  * @param projectRoot Project root directory
- * @param options Analyzer options
+ * @param projectAnalysis Analysis of the whole project
  * @param pathResolver PathResolver instance
  * @param globalComponents Global component definitions
  * @param result Result object to populate
  */
 async function processWholeProject(
   projectRoot: string,
-  options: any,
+  projectAnalysis: AnalysisResult,
   pathResolver: PathResolver,
   globalComponents: Record<string, string>,
   result: LintResult,
@@ -258,10 +262,11 @@ async function processWholeProject(
 ): Promise<void> {
   try {
     logger.info('正在处理整个项目...');
-    const projectAnalysis = await analyzeProject(projectRoot, options);
     const nodes = projectAnalysis.projectStructure.nodes.filter(
       (node) => node.type === 'Page' || node.type === 'Component',
     );
+    result.ruleIssues.push(...runProjectRules(projectAnalysis));
+    result.summary.ruleIssueCount = result.ruleIssues.length;
     logger.info(`发现 ${nodes.length} 个页面/组件需要分析`);
     for (const node of nodes) {
       const basePath = node.properties?.basePath;
@@ -314,7 +319,7 @@ function generateReport(result: LintResult, miniappRoot?: string, projectRoot?:
   console.log('\n组件使用情况分析结果:');
   console.log('================================\n');
 
-  if (result.issues.length === 0) {
+  if (result.issues.length === 0 && result.ruleIssues.length === 0) {
     console.log(chalk.green('✓ 未发现问题。所有组件声明均与使用情况匹配。'));
   } else {
     for (const issue of result.issues) {
@@ -359,27 +364,69 @@ function generateReport(result: LintResult, miniappRoot?: string, projectRoot?:
         }
       }
     }
+
+    printRuleIssues(result.ruleIssues, projectRoot);
+
     // Summary
     console.log(chalk.blue('总结:'));
     console.log(chalk.blue(`  - 已扫描文件数: ${result.summary.filesScanned}`));
     console.log(chalk.blue(`  - 存在问题的文件数: ${result.summary.filesWithIssues}`));
     console.log(chalk.blue(`  - "已声明但未使用"总数: ${result.summary.declaredNotUsedCount}处`));
     console.log(chalk.blue(`  - "已使用但未声明"总数: ${result.summary.usedNotDeclaredCount}处`));
-    // Tips
-    console.log(chalk.cyan('\n解决建议:'));
-    console.log(
-      chalk.cyan(
-        '  - 对于"已声明但未使用"的情况: 请从 .json 文件的 \'usingComponents\' 部分移除相应的组件条目。',
-      ),
-    );
-    console.log(chalk.cyan('  - 对于"已使用但未声明"的情况:'));
-    console.log(chalk.cyan('    1. 请检查 .wxml 中的标签是否拼写错误。'));
-    console.log(
-      chalk.cyan(
-        "    2. 如果是有效的自定义组件, 请将其以正确的路径添加到 .json 文件的 'usingComponents' 中。",
-      ),
-    );
-    console.log(chalk.cyan('    3. 如果您正在手动检查, 请确保您有一份全面的原生 WXML 标签列表。'));
+    if (result.summary.ruleIssueCount > 0) {
+      console.log(chalk.blue(`  - 项目规则问题总数: ${result.summary.ruleIssueCount}处`));
+    }
+    if (result.issues.length > 0) {
+      // Tips
+      console.log(chalk.cyan('\n解决建议:'));
+      console.log(
+        chalk.cyan(
+          '  - 对于"已声明但未使用"的情况: 请从 .json 文件的 \'usingComponents\' 部分移除相应的组件条目。',
+        ),
+      );
+      console.log(chalk.cyan('  - 对于"已使用但未声明"的情况:'));
+      console.log(chalk.cyan('    1. 请检查 .wxml 中的标签是否拼写错误。'));
+      console.log(
+        chalk.cyan(
+          "    2. 如果是有效的自定义组件, 请将其以正确的路径添加到 .json 文件的 'usingComponents' 中。",
+        ),
+      );
+      console.log(
+        chalk.cyan('    3. 如果您正在手动检查, 请确保您有一份全面的原生 WXML 标签列表。'),
+      );
+    }
+  }
+}
+
+/**
+ * Prints project-level rule issues grouped by rule
+ *
+ * @param ruleIssues Issues reported by project-level rules
+ * @param projectRoot Project root used to print relative paths
+ */
+function printRuleIssues(ruleIssues: LintRuleIssue[], projectRoot?: string): void {
+  const sep = '─'.repeat(60);
+  const issuesByRule = new Map<string, LintRuleIssue[]>();
+  for (const issue of ruleIssues) {
+    if (!issuesByRule.has(issue.rule)) {
+      issuesByRule.set(issue.rule, []);
+    }
+    issuesByRule.get(issue.rule)!.push(issue);
+  }
+
+  for (const [rule, issues] of issuesByRule.entries()) {
+    console.log(sep);
+    console.log(`${getRuleTitle(rule)} (${rule})`);
+    console.log(sep + '\n');
+    for (const issue of issues) {
+      const filePath = projectRoot ? path.relative(projectRoot, issue.file) : issue.file;
+      const color = issue.severity === 'error' ? chalk.red : chalk.yellow;
+      console.log(
+        issue.line !== undefined ? `${filePath}:${issue.line}:${issue.column}` : filePath,
+      );
+      console.log(color(`  - ${issue.message}`));
+    }
+    console.log('');
   }
 }
 
@@ -477,6 +524,60 @@ async function applyLintFixes(result: LintResult, projectRoot: string): Promise<
   logger.info('建议重新运行 lint 命令以验证更改并检查其他潜在问题。');
 }
 
+function createEmptyResult(): LintResult {
+  return {
+    summary: {
+      filesScanned: 0,
+      filesWithIssues: 0,
+      declaredNotUsedCount: 0,
+      usedNotDeclaredCount: 0,
+      ruleIssueCount: 0,
+    },
+    issues: [],
+    ruleIssues: [],
+  };
+}
+
+/**
+ * Lints the whole project, then keeps the analysis in memory and re-lints whenever files change.
+ * Only the changed files are re-parsed; the report is printed again after every change.
+ */
+async function watchWholeProject(
+  projectRoot: string,
+  context: AnalyzerOptions,
+  pathResolver: PathResolver,
+  miniappRoot: string,
+): Promise<void> {
+  const session = await createAnalysisSession(projectRoot, context);
+
+  const report = async (projectAnalysis: AnalysisResult): Promise<void> => {
+    const result = createEmptyResult();
+    const globalComponents = await readGlobalComponents(pathResolver, miniappRoot);
+    await processWholeProject(
+      projectRoot,
+      projectAnalysis,
+      pathResolver,
+      globalComponents,
+      result,
+      miniappRoot,
+    );
+    generateReport(result, miniappRoot, projectRoot);
+    logger.info(chalk.gray('\n正在监听文件变更... 按 Ctrl+C 退出。'));
+  };
+
+  await report(session.result);
+  let lastAnalysis = session.result;
+  const watcher = watchFiles(projectRoot, async (changedFiles) => {
+    const projectAnalysis = await session.update(changedFiles);
+    if (projectAnalysis === lastAnalysis) return; // Nothing the analysis cares about changed
+    lastAnalysis = projectAnalysis;
+    await report(projectAnalysis);
+  });
+
+  await waitForInterrupt();
+  watcher.close();
+}
+
 /**
  * Main lint command implementation (now uses initializeCommandContext)
  */
@@ -485,25 +586,37 @@ export async function lint(
   targetPath?: string, // 位置参数
   cmdOptions?: CmdLintOptions,
 ): Promise<void> {
+  const format: LintOutputFormat = cmdOptions?.format ?? 'text';
+
+  if (!LINT_OUTPUT_FORMATS.includes(format)) {
+    throw new HandledError(
+      `不支持的输出格式: ${format}。可选值: ${LINT_OUTPUT_FORMATS.join('、')}`,
+    );
+  }
+  prepareReportOutput(format, cmdOptions?.output);
+
   logger.info('开始组件使用情况检查流程...');
   const context = await initializeCommandContext(cliOptions);
   const { projectRoot, miniappRoot } = context;
   const pathResolver = new PathResolver(projectRoot, context);
   const globalComponents = await readGlobalComponents(pathResolver, miniappRoot || '');
-  const result: LintResult = {
-    summary: {
-      filesScanned: 0,
-      filesWithIssues: 0,
-      declaredNotUsedCount: 0,
-      usedNotDeclaredCount: 0,
-    },
-    issues: [],
-  };
+  const result = createEmptyResult();
 
   // 使用位置参数，如果没有则使用 cmdOptions.path，最后默认为空字符串
   const finalTargetPath = targetPath || cmdOptions?.path || '';
   const miniappRootAbs = miniappRoot ? path.resolve(projectRoot, miniappRoot) : projectRoot;
 
+  if (cmdOptions?.watch) {
+    if (finalTargetPath || cmdOptions.fix) {
+      throw new HandledError('--watch 只能用于检查整个项目，且不能与 --fix 同时使用。');
+    }
+    if (format !== 'text') {
+      throw new HandledError('--watch 仅支持 text 格式。');
+    }
+    await watchWholeProject(projectRoot, context, pathResolver, miniappRootAbs);
+    return;
+  }
+
   if (finalTargetPath) {
     await processTargetPath(
       finalTargetPath,
@@ -514,16 +627,26 @@ export async function lint(
       projectRoot,
     );
   } else {
+    const { result: projectAnalysis } = await createAnalysisSession(projectRoot, context);
     await processWholeProject(
       projectRoot,
-      context,
+      projectAnalysis,
       pathResolver,
       globalComponents,
       result,
       miniappRootAbs,
     );
   }
-  generateReport(result, miniappRootAbs, projectRoot);
+  if (format === 'text') {
+    generateReport(result, miniappRootAbs, projectRoot);
+  } else {
+    writeReport(formatLintResult(result, format, projectRoot), cmdOptions?.output, '检查结果');
+  }
+
+  // Project-level rule errors (e.g. cross-package references) break at runtime, fail the run
+  if (result.ruleIssues.some((issue) => issue.severity === 'error')) {
+    process.exitCode = 1;
+  }
 
   // Apply fixes if --fix is enabled
   if (cmdOptions?.fix) {
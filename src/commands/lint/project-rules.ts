@@ -0,0 +1,438 @@
+import * as path from 'path';
+import { AnalysisResult } from '../../analyzer/analyzer';
+import {
+  findCrossPackageReferences,
+  needsComponentPlaceholder,
+} from '../../analyzer/cross-package-references';
+import { MAIN_PACKAGE_LABEL } from '../../analyzer/package-attribution';
+import { GraphNode } from '../../analyzer/project-structure';
+import { CUSTOM_TAB_BAR_DIR } from '../../analyzer/project-structure-builder';
+import { findInvalidRoutes } from '../../analyzer/route-validation';
+import { findWorkerOutsideReferences } from '../../analyzer/worker-references';
+import { LintRuleIssue } from './types';
+
+/**
+ * A project-level lint rule inspects the analyzed dependency graph and reports issues.
+ */
+type ProjectRule = (analysis: AnalysisResult) => LintRuleIssue[];
+
+/** 规则 ID 到展示标题的映射 */
+const RULE_TITLES: Record<string, string> = {
+  'cross-package-reference': '跨分包引用',
+  'missing-component-placeholder': '缺少 componentPlaceholder 的跨分包组件',
+  'declared-not-used': '已声明但未使用的组件',
+  'used-not-declared': '已使用但未声明的组件',
+  'unresolved-import': '无法解析的引用',
+  'unused-plugin': '已声明但未使用的插件',
+  'undeclared-plugin': '未声明的插件',
+  'unused-extended-lib': '已启用但未使用的扩展库',
+  'extended-lib-not-enabled': '未启用的扩展库',
+  'worker-import-outside-root': 'Worker 引用了 workers 目录以外的文件',
+  'orphan-page': '没有跳转入口的页面',
+  'invalid-route': '无效的页面跳转',
+  'unused-behavior': '未被使用的 Behavior',
+  'custom-tab-bar': '自定义 tabBar 配置与目录不一致',
+};
+
+function nodeFilePath(node: GraphNode | undefined, fallback: string): string {
+  return node?.properties?.absolutePath ?? node?.properties?.basePath ?? fallback;
+}
+
+/**
+ * 检查运行时会失败的跨包引用：分包引用其他分包、主包引用分包、独立分包引用自身以外的文件
+ */
+const crossPackageReferenceRule: ProjectRule = ({ projectStructure }) => {
+  const nodeMap = new Map(projectStructure.nodes.map((node) => [node.id, node]));
+
+  const references = findCrossPackageReferences(projectStructure).filter(
+    (reference) => !needsComponentPlaceholder(reference),
+  );
+  return references.map((reference) => {
+    const sourceNode = nodeMap.get(reference.source);
+    const targetNode = nodeMap.get(reference.target);
+    const targetLabel = targetNode?.label ?? reference.target;
+    const targetPackageName = reference.targetPackage.isMain
+      ? MAIN_PACKAGE_LABEL
+      : `分包 ${reference.targetPackage.label} `;
+
+    let message: string;
+    switch (reference.reason) {
+      case 'independent-to-outside':
+        message = `独立分包 ${reference.sourcePackage.label} 引用了${targetPackageName}中的 ${targetLabel}，独立分包只能引用自身的文件`;
+        break;
+      case 'main-to-subpackage':
+        message = `主包引用了${targetPackageName}中的 ${targetLabel}，运行时无法加载`;
+        break;
+      case 'subpackage-to-subpackage':
+      default:
+        message = `分包 ${reference.sourcePackage.label} 引用了${targetPackageName}中的 ${targetLabel}，运行时无法加载`;
+    }
+
+    return {
+      rule: 'cross-package-reference',
+      severity: 'error',
+      file: reference.location?.sourceFile ?? nodeFilePath(sourceNode, reference.source),
+      line: reference.location?.line,
+      column: reference.location?.column,
+      message,
+      target: nodeFilePath(targetNode, reference.target),
+    };
+  });
+};
+
+/**
+ * 检查使用了其他分包组件、却没有在 componentPlaceholder 中声明占位组件的 usingComponents。
+ * 声明占位组件后组件会被异步加载，跨分包引用才是合法的
+ */
+const missingComponentPlaceholderRule: ProjectRule = ({ projectStructure }) => {
+  const nodeMap = new Map(projectStructure.nodes.map((node) => [node.id, node]));
+
+  return findCrossPackageReferences(projectStructure)
+    .filter(needsComponentPlaceholder)
+    .map((reference) => {
+      const { sourcePackage, targetPackage } = reference;
+      const sourceNode = nodeMap.get(reference.source);
+      const targetNode = nodeMap.get(reference.target);
+      const sourcePackageName = sourcePackage.isMain
+        ? MAIN_PACKAGE_LABEL
+        : `${sourcePackage.independent ? '独立分包' : '分包'} ${sourcePackage.label}`;
+      return {
+        rule: 'missing-component-placeholder',
+        severity: 'error',
+        file: reference.location?.sourceFile ?? nodeFilePath(sourceNode, reference.source),
+        line: reference.location?.line,
+        column: reference.location?.column,
+        message: `${sourcePackageName} 使用了分包 ${targetPackage.label} 中的组件 ${targetNode?.label ?? reference.target}，但没有在 componentPlaceholder 中为它声明占位组件，运行时无法加载`,
+        target: nodeFilePath(targetNode, reference.target),
+      };
+    });
+};
+
+/**
+ * 检查指向不存在文件的引用：相对/绝对路径拼写错误、别名配置错误、缺失的 usingComponents 组件、
+ * 缺失的 WXML import/include 模板。这些引用在分析时会被忽略，运行时却会失败。
+ * miniprogram_npm 中找不到的 npm 包不在此报告：未构建 npm 的检出中它们都会缺失
+ */
+const unresolvedImportRule: ProjectRule = ({ unresolvedDependencies }) =>
+  unresolvedDependencies
+    .filter((dependency) => dependency.reason !== 'npm')
+    .map((dependency) => {
+      let message: string;
+      switch (dependency.reason) {
+        case 'component':
+          message = `usingComponents 中声明的组件 ${dependency.rawPath} 不存在`;
+          break;
+        case 'template':
+          message = `WXML import/include 的模板 ${dependency.rawPath} 不存在`;
+          break;
+        case 'alias':
+          message = `别名路径 ${dependency.rawPath} 指向的文件不存在，请检查别名配置`;
+          break;
+        case 'path':
+        default:
+          message = `引用的文件 ${dependency.rawPath} 不存在，请检查路径是否拼写正确`;
+      }
+
+      return {
+        rule: 'unresolved-import',
+        severity: 'error',
+        file: dependency.sourceFile,
+        line: dependency.location?.line,
+        column: dependency.location?.column,
+        message,
+        target: dependency.rawPath,
+      };
+    });
+
+/**
+ * 检查 app.json 或分包 plugins 中声明、却没有任何 usingComponents 或页面跳转使用的插件
+ */
+const unusedPluginRule: ProjectRule = ({ projectStructure }) => {
+  const usedPluginIds = new Set(
+    projectStructure.links.filter((link) => link.type === 'Plugin').map((link) => link.target),
+  );
+
+  return projectStructure.nodes
+    .filter(
+      (node) => node.type === 'Plugin' && node.properties?.declared && !usedPluginIds.has(node.id),
+    )
+    .map((node) => {
+      const parentId = node.properties?.structuralParentId;
+      const declaration = projectStructure.links.find(
+        (link) => link.type === 'Structure' && link.source === parentId && link.target === node.id,
+      );
+      const appNode = projectStructure.nodes.find((candidate) => candidate.type === 'App');
+      const declaredIn = parentId?.startsWith('pkg:') ? `分包 ${parentId.slice(4)}` : 'app.json';
+      return {
+        rule: 'unused-plugin',
+        severity: 'warning',
+        file: declaration?.properties?.sourceFile ?? appNode?.properties?.path ?? 'app.json',
+        line: declaration?.properties?.line,
+        column: declaration?.properties?.column,
+        message: `插件 ${node.label} 已在 ${declaredIn} 中声明，但没有任何组件或页面跳转使用它`,
+        target: node.label,
+      };
+    });
+};
+
+/**
+ * 检查使用了未在 app.json 或分包 plugins 中声明的插件的组件与页面跳转，运行时会加载失败
+ */
+const undeclaredPluginRule: ProjectRule = ({ projectStructure }) => {
+  const nodeMap = new Map(projectStructure.nodes.map((node) => [node.id, node]));
+
+  return projectStructure.links
+    .filter(
+      (link) => link.type === 'Plugin' && nodeMap.get(link.target)?.properties?.declared === false,
+    )
+    .map((link) => {
+      const pluginName = nodeMap.get(link.target)!.label;
+      return {
+        rule: 'undeclared-plugin',
+        severity: 'error',
+        file: link.properties?.sourceFile ?? nodeFilePath(nodeMap.get(link.source), link.source),
+        line: link.properties?.line,
+        column: link.properties?.column,
+        message: `使用了插件 ${pluginName}，但它未在 app.json 或分包的 plugins 中声明`,
+        target: pluginName,
+      };
+    });
+};
+
+/**
+ * 检查 app.json 的 useExtendedLib 中启用、却没有任何组件使用的扩展库，它们仍会计入代码包体积
+ */
+const unusedExtendedLibRule: ProjectRule = ({ projectStructure }) => {
+  const usedLibIds = new Set(
+    projectStructure.links.filter((link) => link.type === 'ExtendedLib').map((link) => link.target),
+  );
+
+  return projectStructure.nodes
+    .filter(
+      (node) =>
+        node.type === 'ExtendedLib' && node.properties?.declared && !usedLibIds.has(node.id),
+    )
+    .map((node) => {
+      const declaration = projectStructure.links.find(
+        (link) =>
+          link.type === 'Structure' &&
+          link.source === node.properties?.structuralParentId &&
+          link.target === node.id,
+      );
+      const appNode = projectStructure.nodes.find((candidate) => candidate.type === 'App');
+      return {
+        rule: 'unused-extended-lib',
+        severity: 'warning',
+        file: declaration?.properties?.sourceFile ?? appNode?.properties?.path ?? 'app.json',
+        line: declaration?.properties?.line,
+        column: declaration?.properties?.column,
+        message: `扩展库 ${node.label} 已在 app.json 的 useExtendedLib 中启用，但没有任何组件使用它`,
+        target: node.label,
+      };
+    });
+};
+
+/**
+ * 检查使用了扩展库组件、却没有在 app.json 的 useExtendedLib 中启用该扩展库的页面与组件
+ */
+const extendedLibNotEnabledRule: ProjectRule = ({ projectStructure }) => {
+  const nodeMap = new Map(projectStructure.nodes.map((node) => [node.id, node]));
+
+  return projectStructure.links
+    .filter(
+      (link) =>
+        link.type === 'ExtendedLib' && nodeMap.get(link.target)?.properties?.declared === false,
+    )
+    .map((link) => {
+      const libName = nodeMap.get(link.target)!.label;
+      return {
+        rule: 'extended-lib-not-enabled',
+        severity: 'error',
+        file: link.properties?.sourceFile ?? nodeFilePath(nodeMap.get(link.source), link.source),
+        line: link.properties?.line,
+        column: link.properties?.column,
+        message: `使用了扩展库 ${libName} 的组件，但未在 app.json 的 useExtendedLib 中启用它`,
+        target: libName,
+      };
+    });
+};
+
+/**
+ * 检查 Worker 脚本对 workers 目录以外文件的引用，Worker 线程中只能加载 workers 目录下的文件
+ */
+const workerImportOutsideRootRule: ProjectRule = ({ projectStructure }) => {
+  const nodeMap = new Map(projectStructure.nodes.map((node) => [node.id, node]));
+
+  return findWorkerOutsideReferences(projectStructure).map((reference) => {
+    const sourceNode = nodeMap.get(reference.source);
+    const targetNode = nodeMap.get(reference.target);
+    const workerLabel = nodeMap.get(reference.workerId)?.label ?? reference.workerId;
+    return {
+      rule: 'worker-import-outside-root',
+      severity: 'error',
+      file: reference.location?.sourceFile ?? nodeFilePath(sourceNode, reference.source),
+      line: reference.location?.line,
+      column: reference.location?.column,
+      message: `Worker 脚本引用了 workers 目录 ${workerLabel} 以外的 ${targetNode?.label ?? reference.target}，运行时无法加载`,
+      target: nodeFilePath(targetNode, reference.target),
+    };
+  });
+};
+
+/**
+ * 检查已注册、却没有任何 navigateTo/redirectTo/reLaunch/switchTab 或 navigator 指向的页面。
+ * tabBar 页面与启动页本身就有入口，不在检查范围内；页面跳转到自身不算入口
+ */
+const orphanPageRule: ProjectRule = ({ projectStructure }) => {
+  const nodeMap = new Map(projectStructure.nodes.map((node) => [node.id, node]));
+  const navigatedPageIds = new Set(
+    projectStructure.links
+      .filter(
+        (link) =>
+          link.type === 'Navigation' &&
+          nodeMap.get(link.source)?.properties?.structuralParentId !== link.target,
+      )
+      .map((link) => link.target),
+  );
+  const appNode = projectStructure.nodes.find((node) => node.type === 'App');
+
+  return projectStructure.nodes
+    .filter(
+      (node) =>
+        node.type === 'Page' &&
+        !node.properties?.tabBar &&
+        !node.properties?.entry &&
+        !navigatedPageIds.has(node.id),
+    )
+    .map((node) => ({
+      rule: 'orphan-page',
+      severity: 'warning',
+      file: appNode?.properties?.path ?? 'app.json',
+      message: `页面 ${node.label} 已在 app.json 中注册，但没有任何页面跳转或 navigator 指向它`,
+      target: node.label,
+    }));
+};
+
+/**
+ * 检查 navigateTo/redirectTo/reLaunch/switchTab 与 navigator 中的页面地址：未注册的页面、
+ * 用 navigateTo/redirectTo 打开 tabBar 页面、用 switchTab 打开非 tabBar 页面，以及缺少开头 / 的地址
+ */
+const invalidRouteRule: ProjectRule = ({ projectStructure, pageRoutes }) =>
+  findInvalidRoutes(pageRoutes, projectStructure).map(({ route, page, reason }) => {
+    let message: string;
+    switch (reason) {
+      case 'tab-bar-page':
+        message = `${route.method} 不能打开 tabBar 页面 ${page}，请改用 switchTab 或 reLaunch`;
+        break;
+      case 'not-tab-bar-page':
+        message = `switchTab 只能打开 tabBar 页面，${page} 不在 tabBar.list 中`;
+        break;
+      case 'relative-url':
+        message = `跳转地址 ${route.rawPath} 缺少开头的 /，运行时会相对当前页面解析`;
+        break;
+      case 'unknown-page':
+      default:
+        message = `跳转的页面 ${page} 未在 app.json 的 pages 或分包中注册`;
+    }
+
+    return {
+      rule: 'invalid-route',
+      severity: reason === 'relative-url' ? 'warning' : 'error',
+      file: route.sourceFile,
+      line: route.location?.line,
+      column: route.location?.column,
+      message,
+      target: route.rawPath,
+    };
+  });
+
+/**
+ * 检查调用了 Behavior() 定义 behavior、却没有任何 Component/Page/Behavior 的 behaviors 使用它的模块
+ */
+const unusedBehaviorRule: ProjectRule = ({ projectStructure }) => {
+  const usedBehaviorIds = new Set(
+    projectStructure.links.filter((link) => link.type === 'Behavior').map((link) => link.target),
+  );
+
+  return projectStructure.nodes
+    .filter(
+      (node) =>
+        node.properties?.definesBehavior &&
+        !node.properties.npmPackage &&
+        !usedBehaviorIds.has(node.id),
+    )
+    .map((node) => ({
+      rule: 'unused-behavior',
+      severity: 'warning',
+      file: nodeFilePath(node, node.id),
+      message: `${node.label} 定义了 Behavior，但没有任何组件或页面的 behaviors 使用它`,
+      target: node.label,
+    }));
+};
+
+/**
+ * 检查自定义 tabBar：开启 tabBar.custom 时小程序根目录下必须有 custom-tab-bar/index 组件；
+ * 未开启时没有被其他地方引用的 custom-tab-bar 目录不会被加载
+ */
+const customTabBarRule: ProjectRule = ({ projectStructure, unusedFiles }) => {
+  const appNode = projectStructure.nodes.find((node) => node.type === 'App');
+  const tabBarRoot = path.join(projectStructure.miniappRoot, CUSTOM_TAB_BAR_DIR);
+
+  if (appNode?.properties?.customTabBar) {
+    const componentId = `comp:${CUSTOM_TAB_BAR_DIR}`;
+    if (projectStructure.nodes.some((node) => node.id === componentId)) {
+      return [];
+    }
+    return [
+      {
+        rule: 'custom-tab-bar',
+        severity: 'error',
+        file: appNode.properties.path ?? 'app.json',
+        message: `app.json 开启了 tabBar.custom，但小程序根目录下没有 ${CUSTOM_TAB_BAR_DIR}/index 组件，tabBar 将无法显示`,
+        target: tabBarRoot,
+      },
+    ];
+  }
+
+  if (!unusedFiles.some((file) => file.startsWith(tabBarRoot + path.sep))) {
+    return [];
+  }
+  return [
+    {
+      rule: 'custom-tab-bar',
+      severity: 'warning',
+      file: tabBarRoot,
+      message: `app.json 未开启 tabBar.custom，${CUSTOM_TAB_BAR_DIR} 目录不会被加载，可以删除或在 tabBar 中设置 "custom": true`,
+      target: tabBarRoot,
+    },
+  ];
+};
+
+const PROJECT_RULES: ProjectRule[] = [
+  crossPackageReferenceRule,
+  missingComponentPlaceholderRule,
+  unresolvedImportRule,
+  unusedPluginRule,
+  undeclaredPluginRule,
+  unusedExtendedLibRule,
+  extendedLibNotEnabledRule,
+  workerImportOutsideRootRule,
+  orphanPageRule,
+  invalidRouteRule,
+  unusedBehaviorRule,
+  customTabBarRule,
+];
+
+/**
+ * Runs every project-level lint rule against the analysis result.
+ */
+export function runProjectRules(analysis: AnalysisResult): LintRuleIssue[] {
+  return PROJECT_RULES.flatMap((rule) => rule(analysis));
+}
+
+/**
+ * Returns the user-facing title of a rule, falling back to its ID.
+ */
+export function getRuleTitle(rule: string): string {
+  return RULE_TITLES[rule] ?? rule;
+}
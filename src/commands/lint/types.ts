@@ -2,6 +2,15 @@
  * Types for the linting feature
  */
 
+/**
+ * A position in a source file; line and column are 1-based
+ */
+export interface WxmlTagLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
 /**
  * Represents an issue found during linting
  */
@@ -18,6 +27,9 @@ export interface LintIssue {
     componentTag: string;
     /** Path to the component (from usingComponents) */
     path?: string;
+    /** Position of the declaration in the JSON file */
+    line?: number;
+    column?: number;
   }>;
   /** Tags used in WXML but not declared in JSON */
   usedNotDeclared: Array<{
@@ -25,11 +37,35 @@ export interface LintIssue {
     componentTag: string;
     /** WXML files where this tag was used */
     usedIn: string[];
+    /** Every place the tag was used, across the WXML file and its imports */
+    locations: WxmlTagLocation[];
     /** Suggestion for fixing the issue */
     suggestion?: string;
   }>;
 }
 
+/** Severity of a project-level rule issue; errors make the lint command exit non-zero */
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * Represents an issue reported by a project-level lint rule
+ * (rules that need the whole dependency graph, e.g. cross-package references)
+ */
+export interface LintRuleIssue {
+  /** Rule identifier, e.g. 'cross-package-reference' */
+  rule: string;
+  severity: LintSeverity;
+  /** Absolute path of the file the issue is reported on */
+  file: string;
+  /** 1-based position in `file`, when known */
+  line?: number;
+  column?: number;
+  /** User-facing description of the problem */
+  message: string;
+  /** The referenced file or node, if the issue is about a reference */
+  target?: string;
+}
+
 /**
  * Represents the overall result of linting
  */
@@ -44,7 +80,11 @@ export interface LintResult {
     declaredNotUsedCount: number;
     /** Total count of used but not declared components */
     usedNotDeclaredCount: number;
+    /** Total count of project-level rule issues */
+    ruleIssueCount: number;
   };
   /** List of issues found */
   issues: LintIssue[];
+  /** Issues reported by project-level rules (only when linting the whole project) */
+  ruleIssues: LintRuleIssue[];
 }
@@ -0,0 +1,210 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeProject } from '../analyzer/analyzer';
+import { sumReachableSizesByPackage } from '../analyzer/package-attribution';
+import { findSubpackageOnlyModules, RelocationCandidate } from '../analyzer/package-optimization';
+import { FileParser } from '../parser/file-parser';
+import { ResolvedDependency } from '../parser/dependency-types';
+import {
+  AnalyzerOptions,
+  CmdOptimizePackagesOptions,
+  GlobalCliOptions,
+} from '../types/command-options';
+import { formatBytes } from '../utils/byte-size';
+import { initializeCommandContext } from '../utils/command-init';
+import { logger } from '../utils/debug-logger';
+import { HandledError } from '../utils/errors';
+
+function printCandidates(
+  candidates: RelocationCandidate[],
+  projectRoot: string,
+  mainPackageSize: number,
+): void {
+  const byPackage = new Map<string, RelocationCandidate[]>();
+  for (const candidate of candidates) {
+    const label = candidate.targetPackage.label;
+    if (!byPackage.has(label)) byPackage.set(label, []);
+    byPackage.get(label)!.push(candidate);
+  }
+
+  console.log(chalk.bold('\n📦 仅被单个分包使用的主包文件:\n'));
+  for (const [label, files] of byPackage) {
+    const packageTotal = files.reduce((sum, file) => sum + file.size, 0);
+    console.log(chalk.cyan(`分包 ${label} (${files.length} 个文件, ${formatBytes(packageTotal)})`));
+    for (const file of files) {
+      console.log(
+        `  - ${path.relative(projectRoot, file.filePath)} (${formatBytes(file.size)}) → ${path.relative(projectRoot, file.destinationPath)}`,
+      );
+    }
+    console.log('');
+  }
+
+  const savings = candidates.reduce((sum, file) => sum + file.size, 0);
+  console.log(
+    chalk.bold(
+      `主包可减少 ${formatBytes(savings)}: ${formatBytes(mainPackageSize)} → ${formatBytes(mainPackageSize - savings)}`,
+    ),
+  );
+  console.log('');
+}
+
+/**
+ * Builds the specifier that points from `sourceFile` to `targetFile` after the move, keeping the
+ * style of the original specifier: root-absolute stays root-absolute, and an omitted extension
+ * or directory index stays omitted. Alias specifiers become relative paths.
+ */
+function rewriteSpecifier(
+  dependency: ResolvedDependency,
+  sourceFile: string,
+  targetFile: string,
+  miniappRoot: string,
+): string {
+  const rawBase = path.posix.basename(dependency.rawPath);
+  const oldBase = path.basename(dependency.targetFile);
+  let target = targetFile;
+  if (rawBase !== oldBase) {
+    const withoutExt = target.slice(0, -path.extname(target).length);
+    target = rawBase === path.basename(withoutExt) ? withoutExt : path.dirname(target);
+  }
+
+  if (dependency.rawPath.startsWith('/')) {
+    return '/' + path.relative(miniappRoot, target).replace(/\\/g, '/');
+  }
+  const relativePath = path.relative(path.dirname(sourceFile), target).replace(/\\/g, '/');
+  return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replaces a quoted (or `url(...)`-wrapped) specifier in file content.
+ * WXML import/include paths are reported with a `./` prefix even when written without one.
+ */
+function replaceSpecifier(content: string, rawPath: string, nextPath: string): string {
+  const variants = rawPath.startsWith('./') ? [rawPath, rawPath.slice(2)] : [rawPath];
+  return variants.reduce(
+    (result, variant) =>
+      result.replace(
+        new RegExp(`(['"\`(])${escapeRegExp(variant)}(['"\`)])`, 'g'),
+        (_match, open: string, close: string) => `${open}${nextPath}${close}`,
+      ),
+    content,
+  );
+}
+
+function removeEmptyParents(dir: string, stopAt: string): void {
+  let current = dir;
+  while (current.startsWith(stopAt + path.sep) && fs.readdirSync(current).length === 0) {
+    fs.rmdirSync(current);
+    current = path.dirname(current);
+  }
+}
+
+/**
+ * Moves the candidate files into their subpackages and rewrites every reference to them, as
+ * well as the relative references inside the moved files themselves.
+ */
+async function relocateFiles(
+  candidates: RelocationCandidate[],
+  filePaths: string[],
+  projectRoot: string,
+  context: AnalyzerOptions,
+): Promise<void> {
+  const conflicts = candidates.filter((candidate) => fs.existsSync(candidate.destinationPath));
+  if (conflicts.length > 0) {
+    throw new HandledError(
+      `目标位置已存在同名文件，未做任何修改:\n${conflicts
+        .map((candidate) => `  - ${path.relative(projectRoot, candidate.destinationPath)}`)
+        .join('\n')}`,
+    );
+  }
+
+  const moves = new Map(candidates.map((c) => [c.filePath, c.destinationPath]));
+  const fileParser = new FileParser(projectRoot, context);
+  const rewrittenContents = new Map<string, string>();
+
+  for (const filePath of filePaths) {
+    const newSourcePath = moves.get(filePath) ?? filePath;
+    const dependencies = await fileParser.parseFile(filePath);
+    if (dependencies.length === 0) continue;
+
+    const original = fs.readFileSync(filePath, 'utf-8');
+    let content = original;
+
+    for (const dependency of dependencies) {
+      const newTargetPath = moves.get(dependency.targetFile) ?? dependency.targetFile;
+      const targetMoved = newTargetPath !== dependency.targetFile;
+      const sourceMovedRelative = newSourcePath !== filePath && dependency.rawPath.startsWith('.');
+      if (!targetMoved && !sourceMovedRelative) continue;
+
+      const nextPath = rewriteSpecifier(
+        dependency,
+        newSourcePath,
+        newTargetPath,
+        context.miniappRoot,
+      );
+      content = replaceSpecifier(content, dependency.rawPath, nextPath);
+    }
+
+    if (content !== original) {
+      rewrittenContents.set(filePath, content);
+    }
+  }
+
+  for (const [filePath, content] of rewrittenContents) {
+    fs.writeFileSync(filePath, content);
+    logger.debug(`已更新引用: ${path.relative(projectRoot, filePath)}`);
+  }
+
+  for (const [from, to] of moves) {
+    fs.mkdirSync(path.dirname(to), { recursive: true });
+    fs.renameSync(from, to);
+    removeEmptyParents(path.dirname(from), context.miniappRoot);
+    logger.debug(`已移动: ${path.relative(projectRoot, from)} → ${path.relative(projectRoot, to)}`);
+  }
+
+  logger.info(
+    chalk.green(
+      `✅ 已移动 ${moves.size} 个文件，并更新了 ${rewrittenContents.size} 个文件中的引用路径。`,
+    ),
+  );
+}
+
+/**
+ * 找出只被某一个分包使用的主包文件，并给出移入该分包后主包可减少的体积
+ */
+export async function optimizePackages(
+  cliOptions: GlobalCliOptions,
+  cmdOptions: CmdOptimizePackagesOptions,
+): Promise<void> {
+  const context = await initializeCommandContext(cliOptions);
+  const { projectRoot } = context;
+
+  logger.info('正在分析项目以查找可移入分包的主包文件...');
+  const analysis = await analyzeProject(projectRoot, context);
+  const candidates = findSubpackageOnlyModules(analysis);
+
+  if (candidates.length === 0) {
+    logger.info('✨ 主包中没有仅被单个分包使用的文件。');
+    return;
+  }
+
+  const mainUsage = sumReachableSizesByPackage(
+    analysis.projectStructure,
+    analysis.reachableNodeIds,
+  ).find((usage) => usage.pkg.isMain)!;
+  printCandidates(candidates, projectRoot, mainUsage.totalSize);
+
+  if (!cmdOptions.write) {
+    logger.info('使用 --write 移动这些文件并更新引用路径。');
+    return;
+  }
+
+  const filePaths = analysis.projectStructure.nodes
+    .filter((node) => node.type === 'Module' && node.properties?.absolutePath)
+    .map((node) => node.properties!.absolutePath as string);
+  await relocateFiles(candidates, filePaths, projectRoot, context);
+}
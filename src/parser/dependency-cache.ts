@@ -0,0 +1,235 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnalyzerOptions } from '../types/command-options';
+import { logger } from '../utils/debug-logger';
+import { version } from '../version';
+import {
+  FileDependencies,
+  ParsedDependency,
+  ResolvedDependency,
+  RouteDependency,
+} from './dependency-types';
+
+/**
+ * Bump when the parsers or the cache format change in a way that invalidates stored results.
+ * The mp-lens version is part of the key as well, so this is only needed between releases.
+ */
+const PARSER_CACHE_VERSION = 12;
+
+// Deliberately not a .json file, so project scans without the default excludes never pick it up
+const CACHE_FILE_NAME = 'dependencies.cache';
+
+// Paths in entries are relative to the analyzed project root
+interface CacheEntry {
+  hash: string; // Content hash of the source file
+  dependencies: ResolvedDependency[];
+  dynamicImports?: ParsedDependency[]; // Omitted when the file has no computed require()/import()
+  plugins?: ParsedDependency[]; // Omitted when the file uses no plugin pages
+  routes?: RouteDependency[]; // Omitted when the file navigates to no page
+  builtinBehaviors?: string[]; // Omitted when the file mixes in no built-in behavior
+  definesBehavior?: true; // Omitted when the file does not call Behavior()
+  cloudFunctions?: ParsedDependency[]; // Omitted when the file calls no cloud function
+  missingPaths?: string[]; // Omitted when every import resolved at the first candidate path
+}
+
+interface CacheFile {
+  key: string;
+  entries: { [filePath: string]: CacheEntry };
+}
+
+function hashOf(value: string | Buffer): string {
+  return crypto.createHash('sha1').update(value).digest('hex');
+}
+
+function withPaths<T extends ParsedDependency & { targetFile?: string }>(
+  dependency: T,
+  convert: (filePath: string) => string,
+): T {
+  return {
+    ...dependency,
+    sourceFile: convert(dependency.sourceFile),
+    ...(dependency.targetFile !== undefined && { targetFile: convert(dependency.targetFile) }),
+  };
+}
+
+/**
+ * Persistent cache of parsed and resolved file dependencies, stored under
+ * `<cacheRoot>/node_modules/.cache/mp-lens`. `cacheRoot` defaults to the project root; `diff`
+ * points it at the user's checkout, so the temporary worktrees it analyzes share one cache.
+ *
+ * Entries are keyed by the path relative to the project root and validated by content hash.
+ * The whole cache is discarded when the parser version, miniappRoot or alias configuration
+ * differ from the stored key. An entry is also ignored when one of its resolved targets no longer exists, or when one of
+ * the candidate paths resolution looked for and did not find has been created since (a new
+ * `foo.js` next to `foo.ts`, a new package in miniprogram_npm): the same content may then
+ * resolve differently. Files with unresolved dependencies are not cached at all.
+ */
+export class DependencyCache {
+  private projectRoot: string;
+  private cacheFilePath: string;
+  private key: string;
+  private entries: Map<string, CacheEntry> = new Map();
+  private dirty = false;
+
+  constructor(projectRoot: string, options: AnalyzerOptions) {
+    this.projectRoot = projectRoot;
+    this.cacheFilePath = path.join(
+      options.cacheRoot ?? projectRoot,
+      'node_modules',
+      '.cache',
+      'mp-lens',
+      CACHE_FILE_NAME,
+    );
+    this.key = hashOf(
+      JSON.stringify({
+        parser: PARSER_CACHE_VERSION,
+        version,
+        miniappRoot: this.toStoredPath(options.miniappRoot),
+        aliases: Object.fromEntries(
+          Object.entries(options.aliases ?? {}).map(([alias, targets]) => [
+            alias,
+            Array.isArray(targets)
+              ? targets.map((target) => this.toStoredPath(target))
+              : this.toStoredPath(targets),
+          ]),
+        ),
+        miniprogramNpmDirs: (options.miniprogramNpmDirs ?? []).map((dir) => this.toStoredPath(dir)),
+        // Imports of enabled extended libraries are not reported as unresolved
+        useExtendedLib: options.appJsonContent?.useExtendedLib ?? {},
+      }),
+    );
+    this.load();
+  }
+
+  /**
+   * Returns the cached dependencies of a file, or parses it with `parse` and stores the result.
+   */
+  async getOrParse(
+    filePath: string,
+    parse: (filePath: string) => Promise<FileDependencies>,
+  ): Promise<FileDependencies> {
+    let hash: string;
+    try {
+      hash = hashOf(fs.readFileSync(filePath));
+    } catch {
+      return parse(filePath); // Let the parser report the read error
+    }
+
+    const storedPath = this.toStoredPath(filePath);
+    const cached = this.entries.get(storedPath);
+    const cachedResult = cached?.hash === hash ? this.toFileDependencies(cached) : null;
+    if (
+      cachedResult &&
+      cachedResult.resolved.every((dependency) => fs.existsSync(dependency.targetFile)) &&
+      !cachedResult.missingPaths.some((missingPath) => fs.existsSync(missingPath))
+    ) {
+      logger.trace(`Dependency cache hit: ${filePath}`);
+      return cachedResult;
+    }
+
+    const result = await parse(filePath);
+    if (result.unresolved.length === 0) {
+      this.entries.set(storedPath, this.toCacheEntry(hash, result));
+      this.dirty = true;
+    } else if (this.entries.delete(storedPath)) {
+      this.dirty = true;
+    }
+    return result;
+  }
+
+  /**
+   * Writes the cache back to disk if anything changed. Entries of deleted files are dropped.
+   * Entries another analysis saved since this cache was loaded (the other side of a `diff`) are
+   * kept. Failures are logged and otherwise ignored: the cache is only an optimization.
+   */
+  save(): void {
+    if (!this.dirty) return;
+
+    const entries: CacheFile['entries'] = {};
+    for (const [storedPath, entry] of Object.entries(this.readEntries() ?? {})) {
+      if (!this.entries.has(storedPath)) {
+        entries[storedPath] = entry;
+      }
+    }
+    for (const [storedPath, entry] of this.entries) {
+      if (fs.existsSync(path.resolve(this.projectRoot, storedPath))) {
+        entries[storedPath] = entry;
+      }
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.cacheFilePath), { recursive: true });
+      const tempPath = `${this.cacheFilePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify({ key: this.key, entries } as CacheFile));
+      fs.renameSync(tempPath, this.cacheFilePath);
+      this.dirty = false;
+      logger.debug(`Saved ${Object.keys(entries).length} entries to ${this.cacheFilePath}`);
+    } catch (error) {
+      logger.debug(`Failed to write dependency cache: ${(error as Error).message}`);
+    }
+  }
+
+  private load(): void {
+    const entries = this.readEntries();
+    if (entries) {
+      this.entries = new Map(Object.entries(entries));
+      logger.debug(`Loaded ${this.entries.size} entries from ${this.cacheFilePath}`);
+    }
+  }
+
+  /** Reads the entries stored on disk, or null when there are none stored with the same key */
+  private readEntries(): CacheFile['entries'] | null {
+    if (!fs.existsSync(this.cacheFilePath)) return null;
+
+    try {
+      const cacheFile = JSON.parse(fs.readFileSync(this.cacheFilePath, 'utf-8')) as CacheFile;
+      if (cacheFile.key !== this.key) {
+        logger.debug('Dependency cache was created with different settings, ignoring it.');
+        return null;
+      }
+      return cacheFile.entries ?? {};
+    } catch (error) {
+      logger.debug(`Failed to read dependency cache: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  private toStoredPath(filePath: string): string {
+    return path.relative(this.projectRoot, filePath);
+  }
+
+  private toCacheEntry(hash: string, result: FileDependencies): CacheEntry {
+    const store = (filePath: string) => this.toStoredPath(filePath);
+    const storeAll = <T extends ParsedDependency>(dependencies: T[]) =>
+      dependencies.map((dependency) => withPaths(dependency, store));
+    return {
+      hash,
+      dependencies: storeAll(result.resolved),
+      ...(result.dynamicImports.length > 0 && { dynamicImports: storeAll(result.dynamicImports) }),
+      ...(result.plugins.length > 0 && { plugins: storeAll(result.plugins) }),
+      ...(result.routes.length > 0 && { routes: storeAll(result.routes) }),
+      ...(result.builtinBehaviors.length > 0 && { builtinBehaviors: result.builtinBehaviors }),
+      ...(result.definesBehavior && { definesBehavior: true as const }),
+      ...(result.cloudFunctions.length > 0 && { cloudFunctions: storeAll(result.cloudFunctions) }),
+      ...(result.missingPaths.length > 0 && { missingPaths: result.missingPaths.map(store) }),
+    };
+  }
+
+  private toFileDependencies(entry: CacheEntry): FileDependencies {
+    const resolve = (storedPath: string) => path.resolve(this.projectRoot, storedPath);
+    const resolveAll = <T extends ParsedDependency>(dependencies: T[] = []) =>
+      dependencies.map((dependency) => withPaths(dependency, resolve));
+    return {
+      resolved: resolveAll(entry.dependencies),
+      unresolved: [],
+      dynamicImports: resolveAll(entry.dynamicImports),
+      plugins: resolveAll(entry.plugins),
+      routes: resolveAll(entry.routes),
+      builtinBehaviors: entry.builtinBehaviors ?? [],
+      definesBehavior: entry.definesBehavior ?? false,
+      cloudFunctions: resolveAll(entry.cloudFunctions),
+      missingPaths: (entry.missingPaths ?? []).map(resolve),
+    };
+  }
+}
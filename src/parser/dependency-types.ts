@@ -7,13 +7,39 @@ export type DependencyKind =
   | 'template'
   | 'style'
   | 'resource'
-  | 'worker';
+  | 'worker'
+  | 'plugin'
+  | 'navigation'
+  | 'behavior'
+  | 'async-script'
+  | 'cloud-function';
+
+/** The API a page route is opened with; `<navigator open-type>` values map onto the same names */
+export type NavigationMethod = 'navigateTo' | 'redirectTo' | 'reLaunch' | 'switchTab';
+
+/** A position in a source file; line and column are 1-based */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+/** A dependency path as written in the source, with where it was written */
+export interface LocatedPath {
+  rawPath: string;
+  location?: SourceLocation;
+}
+
+/** A page URL a file navigates to, with the API that opens it */
+export interface LocatedRoute extends LocatedPath {
+  method: NavigationMethod;
+}
 
 export interface ParsedDependency {
   sourceFile: string;
   rawPath: string;
   kind: DependencyKind;
   declaredBy?: string;
+  location?: SourceLocation;
 }
 
 export interface ResolvedDependency extends ParsedDependency {
@@ -21,6 +47,41 @@ export interface ResolvedDependency extends ParsedDependency {
   linkType: LinkType;
 }
 
+/**
+ * Why a dependency could not be resolved: a missing `usingComponents` target, a missing WXML
+ * `import`/`include` target, an alias pointing to a missing file, any other missing path, or an
+ * npm package missing from miniprogram_npm (usually because npm has not been built).
+ */
+export type UnresolvedReason = 'component' | 'template' | 'alias' | 'path' | 'npm';
+
+export interface RouteDependency extends ParsedDependency {
+  method: NavigationMethod;
+}
+
+export interface UnresolvedDependency extends ParsedDependency {
+  reason: UnresolvedReason;
+}
+
+/** The dependencies of a single file, split by whether they resolved to an existing file */
+export interface FileDependencies {
+  resolved: ResolvedDependency[];
+  unresolved: UnresolvedDependency[];
+  /** Glob patterns of computed require()/import() paths; matched against the scanned files later */
+  dynamicImports: ParsedDependency[];
+  /** Plugin pages the file navigates to (`plugin://name/page`); they are not files */
+  plugins: ParsedDependency[];
+  /** Page URLs the file navigates to; resolved against the registered pages, not the file system */
+  routes: RouteDependency[];
+  /** Built-in behaviors (`wx://form-field`) the script mixes in; behavior modules are in `resolved` */
+  builtinBehaviors: string[];
+  /** Whether the script defines a behavior with Behavior() */
+  definesBehavior: boolean;
+  /** Cloud functions the script calls by name; matched against the cloud function folders */
+  cloudFunctions: ParsedDependency[];
+  /** Candidate paths resolution looked for and did not find; creating one may change `resolved` */
+  missingPaths: string[];
+}
+
 export function linkTypeForDependencyKind(kind: DependencyKind): LinkType {
   switch (kind) {
     case 'config':
@@ -34,6 +95,16 @@ export function linkTypeForDependencyKind(kind: DependencyKind): LinkType {
       return 'Resource';
     case 'worker':
       return 'WorkerEntry';
+    case 'plugin':
+      return 'Plugin';
+    case 'navigation':
+      return 'Navigation';
+    case 'behavior':
+      return 'Behavior';
+    case 'async-script':
+      return 'AsyncImport';
+    case 'cloud-function':
+      return 'CloudFunction';
     case 'script':
     default:
       return 'Import';
@@ -10,9 +10,14 @@ import {
 import { PathResolver } from '../utils/path-resolver';
 import {
   DependencyKind,
+  FileDependencies,
   linkTypeForDependencyKind,
+  LocatedPath,
   ParsedDependency,
+  LocatedRoute,
   ResolvedDependency,
+  RouteDependency,
+  UnresolvedDependency,
 } from './dependency-types';
 
 // Import specialized parsers with corrected paths relative to src/analyzer/
@@ -55,80 +60,214 @@ export class FileParser {
    * Returns a list of resolved dependencies with their source-specific dependency kind.
    */
   async parseFile(filePath: string): Promise<ResolvedDependency[]> {
+    return (await this.parseFileDependencies(filePath)).resolved;
+  }
+
+  /**
+   * Like `parseFile`, but also returns the dependencies that could not be resolved to an existing
+   * file. Data URIs and remote URLs are skipped and not reported as unresolved.
+   */
+  async parseFileDependencies(filePath: string): Promise<FileDependencies> {
     const ext = path.extname(filePath).toLowerCase();
+    const noDependencies: FileDependencies = {
+      resolved: [],
+      unresolved: [],
+      dynamicImports: [],
+      plugins: [],
+      routes: [],
+      builtinBehaviors: [],
+      definesBehavior: false,
+      cloudFunctions: [],
+      missingPaths: [],
+    };
 
     try {
       // Read file content once at the top level
       const content = fs.readFileSync(filePath, 'utf-8');
-      let rawDependencies: string[] = [];
+      let rawDependencies: LocatedPath[] = [];
+      let dynamicImports: LocatedPath[] = [];
+      let asyncImports: LocatedPath[] = [];
+      let pluginRoutes: LocatedPath[] = [];
+      let routes: LocatedRoute[] = [];
+      let behaviors: LocatedPath[] = [];
+      let builtinBehaviors: string[] = [];
+      let definesBehavior = false;
+      let cloudFunctionCalls: LocatedPath[] = [];
 
       // Delegate text analysis to specialized parsers
       switch (ext) {
         case '.js':
         case '.ts':
-        case '.wxs': // WXS files are JavaScript, use the same parser
-          rawDependencies = await this.javaScriptParser.parse(content, filePath);
+        case '.wxs': {
+          // WXS files are JavaScript, use the same parser
+          const references = await this.javaScriptParser.parseReferences(content, filePath);
+          rawDependencies = references.imports;
+          dynamicImports = references.dynamicImports;
+          asyncImports = references.asyncImports;
+          pluginRoutes = references.pluginRoutes;
+          routes = references.routes;
+          behaviors = references.behaviors;
+          builtinBehaviors = references.builtinBehaviors.map(({ rawPath }) => rawPath);
+          definesBehavior = references.definesBehavior;
+          cloudFunctionCalls = references.cloudFunctionCalls;
           break;
-        case '.wxml':
-          rawDependencies = await this.wxmlParser.parse(content, filePath);
+        }
+        case '.wxml': {
+          const references = await this.wxmlParser.parseReferences(content, filePath);
+          rawDependencies = references.dependencies;
+          routes = references.routes;
           break;
+        }
         case '.wxss':
         case '.less':
-          rawDependencies = await this.wxssParser.parse(content, filePath);
+          rawDependencies = await this.wxssParser.parseWithLocations(content, filePath);
           break;
         case '.json':
-          rawDependencies = await this.jsonParser.parse(content, filePath);
+          rawDependencies = await this.jsonParser.parseWithLocations(content, filePath);
           break;
         case '.png':
         case '.jpg':
         case '.jpeg':
         case '.gif':
         case '.svg':
-          return []; // Image files have no dependencies
+          return noDependencies; // Image files have no dependencies
         default:
           logger.trace(`Unsupported file type for parsing: ${filePath}`);
-          return [];
+          return noDependencies;
       }
 
-      const parsedDependencies = rawDependencies.map((rawPath) =>
-        this.toParsedDependency(rawPath, filePath, ext),
-      );
+      const parsedDependencies = [
+        ...rawDependencies.map((rawDependency) =>
+          this.toParsedDependency(rawDependency, filePath, ext),
+        ),
+        ...asyncImports.map(
+          ({ rawPath, location }): ParsedDependency => ({
+            sourceFile: filePath,
+            rawPath,
+            kind: 'async-script',
+            ...(location && { location }),
+          }),
+        ),
+        ...behaviors.map(
+          ({ rawPath, location }): ParsedDependency => ({
+            sourceFile: filePath,
+            rawPath,
+            kind: 'behavior',
+            ...(location && { location }),
+          }),
+        ),
+      ];
 
       // Resolve all raw dependency paths to absolute paths
-      const resolvedDependencies: ResolvedDependency[] = [];
-      for (const dependency of parsedDependencies) {
-        const resolvedPath = this.resolveDependencyPath(dependency);
-        if (resolvedPath) {
-          resolvedDependencies.push({
-            ...dependency,
-            targetFile: resolvedPath,
-            linkType: linkTypeForDependencyKind(dependency.kind),
-          });
+      const resolved: ResolvedDependency[] = [];
+      const unresolved: UnresolvedDependency[] = [];
+      const { missingPaths } = this.pathResolver.recordMissingPaths(() => {
+        for (const dependency of parsedDependencies) {
+          const resolvedPath = this.resolveDependencyPath(dependency);
+          if (resolvedPath) {
+            resolved.push({
+              ...dependency,
+              targetFile: resolvedPath,
+              linkType: linkTypeForDependencyKind(dependency.kind),
+            });
+            continue;
+          }
+
+          const unresolvedDependency = this.toUnresolvedDependency(dependency);
+          if (unresolvedDependency) {
+            unresolved.push(unresolvedDependency);
+          }
         }
-      }
+      });
+
+      const plugins = pluginRoutes.map(
+        ({ rawPath, location }): ParsedDependency => ({
+          sourceFile: filePath,
+          rawPath,
+          kind: 'plugin',
+          ...(location && { location }),
+        }),
+      );
+
+      const cloudFunctions = cloudFunctionCalls.map(
+        ({ rawPath, location }): ParsedDependency => ({
+          sourceFile: filePath,
+          rawPath,
+          kind: 'cloud-function',
+          ...(location && { location }),
+        }),
+      );
+
+      const routeDependencies = routes.map(
+        ({ rawPath, method, location }): RouteDependency => ({
+          sourceFile: filePath,
+          rawPath,
+          kind: 'navigation',
+          method,
+          ...(location && { location }),
+        }),
+      );
 
-      return resolvedDependencies;
+      return {
+        resolved,
+        unresolved,
+        dynamicImports: dynamicImports.map((pattern) =>
+          this.toParsedDependency(pattern, filePath, ext),
+        ),
+        plugins,
+        routes: routeDependencies,
+        builtinBehaviors,
+        definesBehavior,
+        cloudFunctions,
+        missingPaths,
+      };
     } catch (e: unknown) {
       const err = e as Error;
       // Centralized error handling for file reading or parsing issues
       logger.warn(`Error parsing file ${filePath}: ${err.message}`);
-      return []; // Return empty array on error
+      return noDependencies;
     }
   }
 
+  /**
+   * Classifies a dependency that failed to resolve, or returns null if it was skipped on purpose.
+   */
+  private toUnresolvedDependency(dependency: ParsedDependency): UnresolvedDependency | null {
+    if (dependency.kind === 'behavior') {
+      return null; // The require()/import of the behavior module is reported already
+    }
+    const classification = this.pathResolver.classifyUnresolvedImport(
+      this.pathForResolution(dependency),
+    );
+    if (classification === 'skipped') {
+      return null;
+    }
+    if (
+      classification !== 'npm' &&
+      (dependency.kind === 'component' || dependency.kind === 'template')
+    ) {
+      return { ...dependency, reason: dependency.kind };
+    }
+    return { ...dependency, reason: classification };
+  }
+
   /**
    * Resolves a raw dependency path to an absolute path based on file type context
    */
   private toParsedDependency(
-    rawPath: string,
+    { rawPath, location }: LocatedPath,
     sourceFile: string,
     sourceExt: string,
   ): ParsedDependency {
-    return {
+    const dependency: ParsedDependency = {
       sourceFile,
       rawPath,
       kind: this.inferDependencyKind(rawPath, sourceExt),
     };
+    if (location) {
+      dependency.location = location;
+    }
+    return dependency;
   }
 
   private inferDependencyKind(rawPath: string, sourceExt: string): DependencyKind {
@@ -161,6 +300,7 @@ export class FileParser {
 
     switch (dependency.kind) {
       case 'script':
+      case 'behavior':
         if (path.extname(dependency.sourceFile).toLowerCase() === '.wxs') {
           allowedExtensions = ['wxs'];
         } else {
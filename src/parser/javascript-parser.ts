@@ -1,8 +1,43 @@
 import { parse, ParserPlugin } from '@babel/parser';
-import traverse from '@babel/traverse';
+import traverse, { Scope } from '@babel/traverse';
 import * as t from '@babel/types';
 import * as path from 'path';
 import { logger } from '../utils/debug-logger';
+import { LocatedPath, LocatedRoute, NavigationMethod } from './dependency-types';
+import { PLUGIN_URL_PREFIX } from './plugin-references';
+import { NAVIGATION_METHODS } from './route-references';
+
+/** Everything JavaScriptParser extracts from a script */
+export interface JavaScriptReferences {
+  /** Modules loaded with import/export from/require */
+  imports: LocatedPath[];
+  /**
+   * Glob patterns of `require()`/`import()` calls whose path is a template literal or a string
+   * concatenation, e.g. `../locales/*.js` for require(`../locales/${lang}.js`)
+   */
+  dynamicImports: LocatedPath[];
+  /** Modules loaded with require.async(), which may live in another subpackage */
+  asyncImports: LocatedPath[];
+  /** `plugin://` page URLs passed to navigateTo/redirectTo/reLaunch */
+  pluginRoutes: LocatedPath[];
+  /** Other page URLs passed to navigateTo/redirectTo/reLaunch/switchTab */
+  routes: LocatedRoute[];
+  /** Module paths of the `behaviors` of Component()/Page()/Behavior() calls */
+  behaviors: LocatedPath[];
+  /** Built-in behaviors (`wx://form-field`) of Component()/Page()/Behavior() calls */
+  builtinBehaviors: LocatedPath[];
+  /** Whether the script defines a behavior with Behavior() */
+  definesBehavior: boolean;
+  /** Names of the cloud functions called with `wx.cloud.callFunction({ name })` */
+  cloudFunctionCalls: LocatedPath[];
+}
+
+// Constructors whose options may mix in behaviors
+const BEHAVIOR_HOSTS = new Set(['Component', 'Page', 'Behavior']);
+const BUILTIN_BEHAVIOR_PREFIX = 'wx://';
+
+// Navigation APIs that can open a plugin page; switchTab only opens tabBar pages of the app
+const PLUGIN_NAVIGATION_METHODS = new Set(['navigateTo', 'redirectTo', 'reLaunch']);
 
 export class JavaScriptParser {
   constructor() {
@@ -10,16 +45,58 @@ export class JavaScriptParser {
   }
 
   async parse(content: string, filePath: string): Promise<string[]> {
+    const dependencies = await this.parseWithLocations(content, filePath);
+    return dependencies.map((dependency) => dependency.rawPath);
+  }
+
+  /**
+   * Like `parse`, but also returns where each dependency path is written.
+   * Paths referenced several times are reported once, at their first occurrence.
+   */
+  async parseWithLocations(content: string, filePath: string): Promise<LocatedPath[]> {
+    return (await this.parseReferences(content, filePath)).imports;
+  }
+
+  /**
+   * Like `parseWithLocations`, but also returns the pages and plugin pages the script navigates to.
+   */
+  async parseReferences(content: string, filePath: string): Promise<JavaScriptReferences> {
     try {
-      const dependencies = new Set<string>();
+      const dependencies = new Map<string, LocatedPath>();
+      const dynamicImports = new Map<string, LocatedPath>();
+      const asyncImports = new Map<string, LocatedPath>();
+      const pluginRoutes = new Map<string, LocatedPath>();
+      const routes = new Map<string, LocatedRoute>();
+      const behaviors = new Map<string, LocatedPath>();
+      const builtinBehaviors = new Map<string, LocatedPath>();
+      const cloudFunctionCalls = new Map<string, LocatedPath>();
 
       // Parse the file content to AST
       const ast = this.parseToAST(content, filePath);
 
-      // Traverse AST to find import/require statements
-      this.traverseAST(ast, dependencies);
+      // Traverse AST to find import/require statements, navigation calls and behaviors
+      const { definesBehavior } = this.traverseAST(ast, {
+        dependencies,
+        dynamicImports,
+        asyncImports,
+        pluginRoutes,
+        routes,
+        behaviors,
+        builtinBehaviors,
+        cloudFunctionCalls,
+      });
 
-      return Array.from(dependencies);
+      return {
+        behaviors: Array.from(behaviors.values()),
+        builtinBehaviors: Array.from(builtinBehaviors.values()),
+        definesBehavior,
+        imports: Array.from(dependencies.values()),
+        dynamicImports: Array.from(dynamicImports.values()),
+        asyncImports: Array.from(asyncImports.values()),
+        pluginRoutes: Array.from(pluginRoutes.values()),
+        routes: Array.from(routes.values()),
+        cloudFunctionCalls: Array.from(cloudFunctionCalls.values()),
+      };
     } catch (e: unknown) {
       // Log the error but re-throw it so the central handler in FileParser catches it
       const message = e instanceof Error ? e.message : String(e);
@@ -79,14 +156,69 @@ export class JavaScriptParser {
     }
   }
 
-  private traverseAST(ast: t.File, dependencies: Set<string>): void {
+  private traverseAST(
+    ast: t.File,
+    {
+      dependencies,
+      dynamicImports,
+      asyncImports,
+      pluginRoutes,
+      routes,
+      behaviors,
+      builtinBehaviors,
+      cloudFunctionCalls,
+    }: {
+      dependencies: Map<string, LocatedPath>;
+      dynamicImports: Map<string, LocatedPath>;
+      asyncImports: Map<string, LocatedPath>;
+      pluginRoutes: Map<string, LocatedPath>;
+      routes: Map<string, LocatedRoute>;
+      behaviors: Map<string, LocatedPath>;
+      builtinBehaviors: Map<string, LocatedPath>;
+      cloudFunctionCalls: Map<string, LocatedPath>;
+    },
+  ): { definesBehavior: boolean } {
+    let definesBehavior = false;
+    // Records a path at the position of the literal it is written in (Babel columns are 0-based)
+    const addPath = (target: Map<string, LocatedPath>, rawPath: string, literal: t.Node): void => {
+      if (target.has(rawPath)) return;
+      const start = literal.loc?.start;
+      target.set(rawPath, {
+        rawPath,
+        location: start ? { line: start.line, column: start.column + 1 } : undefined,
+      });
+    };
+    const addDependency = (literal: t.StringLiteral): void =>
+      addPath(dependencies, literal.value, literal);
+    // Records the argument of require()/import() as a static path or, when computed, a pattern
+    const addModuleArgument = (argument: t.Node): void => {
+      if (t.isStringLiteral(argument)) {
+        addDependency(argument);
+        return;
+      }
+      const pattern = this.dynamicImportPattern(argument);
+      if (pattern) {
+        addPath(dynamicImports, pattern, argument);
+      }
+    };
+    // The same URL opened with different APIs is recorded once per API
+    const addRoute = (method: NavigationMethod, url: string, literal: t.Node): void => {
+      const key = `${method} ${url}`;
+      if (routes.has(key)) return;
+      const start = literal.loc?.start;
+      routes.set(key, {
+        rawPath: url,
+        method,
+        location: start ? { line: start.line, column: start.column + 1 } : undefined,
+      });
+    };
+
     traverse(ast, {
       // Handle ES6 import statements
       ImportDeclaration: (path) => {
         const source = path.node.source;
         if (t.isStringLiteral(source)) {
-          const importPath = source.value;
-          dependencies.add(importPath);
+          addDependency(source);
         }
       },
 
@@ -94,7 +226,7 @@ export class JavaScriptParser {
       ExportAllDeclaration: (path) => {
         const source = path.node.source;
         if (t.isStringLiteral(source)) {
-          dependencies.add(source.value);
+          addDependency(source);
         }
       },
 
@@ -102,7 +234,7 @@ export class JavaScriptParser {
       ExportNamedDeclaration: (path) => {
         const source = path.node.source;
         if (source && t.isStringLiteral(source)) {
-          dependencies.add(source.value);
+          addDependency(source);
         }
       },
 
@@ -114,11 +246,9 @@ export class JavaScriptParser {
         if (
           t.isIdentifier(node.callee) &&
           node.callee.name === 'require' &&
-          node.arguments.length === 1 &&
-          t.isStringLiteral(node.arguments[0])
+          node.arguments.length === 1
         ) {
-          const requirePath = node.arguments[0].value;
-          dependencies.add(requirePath);
+          addModuleArgument(node.arguments[0]);
         }
 
         // Handle require.resolve('...')
@@ -131,21 +261,79 @@ export class JavaScriptParser {
           node.arguments.length >= 1 &&
           t.isStringLiteral(node.arguments[0])
         ) {
-          const resolvedPath = node.arguments[0].value;
-          dependencies.add(resolvedPath);
+          addDependency(node.arguments[0]);
+        }
+
+        // Handle require.async('...'): subpackage async loading
+        if (
+          t.isMemberExpression(node.callee) &&
+          t.isIdentifier(node.callee.object) &&
+          node.callee.object.name === 'require' &&
+          t.isIdentifier(node.callee.property) &&
+          node.callee.property.name === 'async' &&
+          t.isStringLiteral(node.arguments[0])
+        ) {
+          addPath(asyncImports, node.arguments[0].value, node.arguments[0]);
+        }
+
+        // Handle wx.navigateTo({ url: '/pages/a/a' }) and friends, including plugin pages
+        if (
+          t.isMemberExpression(node.callee) &&
+          t.isIdentifier(node.callee.property) &&
+          NAVIGATION_METHODS.has(node.callee.property.name) &&
+          t.isObjectExpression(node.arguments[0])
+        ) {
+          const method = node.callee.property.name as NavigationMethod;
+          const url = this.findProperty(node.arguments[0], 'url');
+          const pluginUrl = url && this.staticPluginUrl(url);
+          const routeUrl = url && !pluginUrl && this.staticRouteUrl(url);
+          if (pluginUrl && PLUGIN_NAVIGATION_METHODS.has(method)) {
+            addPath(pluginRoutes, pluginUrl, url);
+          } else if (routeUrl) {
+            addRoute(method, routeUrl, url);
+          }
+        }
+
+        // Handle wx.cloud.callFunction({ name: 'login' }), and cloud.callFunction() of wx-server-sdk
+        if (
+          t.isMemberExpression(node.callee) &&
+          t.isIdentifier(node.callee.property) &&
+          node.callee.property.name === 'callFunction' &&
+          this.isCloudObject(node.callee.object) &&
+          t.isObjectExpression(node.arguments[0])
+        ) {
+          const name = this.findProperty(node.arguments[0], 'name');
+          if (t.isStringLiteral(name)) {
+            addPath(cloudFunctionCalls, name.value, name);
+          }
+        }
+
+        // Handle Component({ behaviors: [...] }), and the same in Page() and Behavior()
+        if (
+          t.isIdentifier(node.callee) &&
+          BEHAVIOR_HOSTS.has(node.callee.name) &&
+          t.isObjectExpression(node.arguments[0])
+        ) {
+          definesBehavior ||= node.callee.name === 'Behavior';
+          const behaviorList = this.findProperty(node.arguments[0], 'behaviors');
+          for (const element of t.isArrayExpression(behaviorList) ? behaviorList.elements : []) {
+            if (t.isStringLiteral(element) && element.value.startsWith(BUILTIN_BEHAVIOR_PREFIX)) {
+              addPath(builtinBehaviors, element.value, element);
+              continue;
+            }
+            const source = element && this.behaviorSource(element, path.scope);
+            if (source) {
+              addPath(behaviors, source.value, source);
+            }
+          }
         }
       },
 
       // Handle dynamic imports
       Import: (path) => {
         const parent = path.parent;
-        if (
-          t.isCallExpression(parent) &&
-          parent.arguments.length === 1 &&
-          t.isStringLiteral(parent.arguments[0])
-        ) {
-          const importPath = parent.arguments[0].value;
-          dependencies.add(importPath);
+        if (t.isCallExpression(parent) && parent.arguments.length === 1) {
+          addModuleArgument(parent.arguments[0]);
         }
       },
 
@@ -155,10 +343,141 @@ export class JavaScriptParser {
         if (t.isTSExternalModuleReference(moduleRef)) {
           const expr = moduleRef.expression;
           if (t.isStringLiteral(expr)) {
-            dependencies.add(expr.value);
+            addDependency(expr);
           }
         }
       },
     });
+
+    return { definesBehavior };
+  }
+
+  /**
+   * Turns a computed module path into a glob pattern: template literal expressions and
+   * concatenated non-literal operands become `*`. Only patterns starting with './', '../' or '/'
+   * and containing a static part besides the directory prefix are returned, anything looser
+   * would match files the call can never load.
+   */
+  private dynamicImportPattern(argument: t.Node): string | null {
+    const parts: string[] = [];
+    const collect = (part: t.Node): void => {
+      if (t.isStringLiteral(part)) {
+        parts.push(part.value);
+      } else if (t.isTemplateLiteral(part)) {
+        part.quasis.forEach((quasi, index) => {
+          parts.push(quasi.value.cooked ?? quasi.value.raw);
+          if (index < part.expressions.length) parts.push('*');
+        });
+      } else if (t.isBinaryExpression(part) && part.operator === '+') {
+        collect(part.left);
+        collect(part.right);
+      } else {
+        parts.push('*');
+      }
+    };
+    collect(argument);
+
+    const pattern = parts.join('').replace(/\*+/g, '*');
+    const isPathPattern = /^\.{0,2}\//.test(pattern) && pattern.includes('*');
+    const hasStaticPart = pattern.replace(/\.{1,2}\/|[/*]/g, '') !== '';
+    return isPathPattern && hasStaticPart ? pattern : null;
+  }
+
+  private findProperty(options: t.ObjectExpression, key: string): t.Node | undefined {
+    const property = options.properties.find(
+      (candidate): candidate is t.ObjectProperty =>
+        t.isObjectProperty(candidate) &&
+        ((t.isIdentifier(candidate.key) && candidate.key.name === key) ||
+          (t.isStringLiteral(candidate.key) && candidate.key.value === key)),
+    );
+    return property?.value;
+  }
+
+  /**
+   * Returns the module path literal a `behaviors` entry comes from: `require('./b')` written in
+   * place, or a variable bound by `const b = require('./b')` or `import b from './b'`, possibly
+   * accessed through a member (`shared.form`). Behaviors defined in the same file have no module.
+   */
+  private behaviorSource(element: t.Node, scope: Scope): t.StringLiteral | null {
+    const base = this.memberBase(element);
+    if (!t.isIdentifier(base)) {
+      return this.requiredPath(base);
+    }
+
+    const bindingPath = scope.getBinding(base.name)?.path;
+    if (bindingPath?.isVariableDeclarator() && bindingPath.node.init) {
+      return this.requiredPath(this.memberBase(bindingPath.node.init));
+    }
+    if (
+      bindingPath?.isImportDefaultSpecifier() ||
+      bindingPath?.isImportSpecifier() ||
+      bindingPath?.isImportNamespaceSpecifier()
+    ) {
+      return (bindingPath.parent as t.ImportDeclaration).source;
+    }
+    return null;
+  }
+
+  // `wx.cloud`, or the `cloud` module of wx-server-sdk in cloud functions
+  private isCloudObject(node: t.Node): boolean {
+    return (
+      (t.isIdentifier(node) && node.name === 'cloud') ||
+      (t.isMemberExpression(node) &&
+        t.isIdentifier(node.object) &&
+        node.object.name === 'wx' &&
+        t.isIdentifier(node.property) &&
+        node.property.name === 'cloud')
+    );
+  }
+
+  // `a.b.c` -> `a`
+  private memberBase(node: t.Node): t.Node {
+    return t.isMemberExpression(node) ? this.memberBase(node.object) : node;
+  }
+
+  // The path literal of `require('...')`
+  private requiredPath(node: t.Node): t.StringLiteral | null {
+    return t.isCallExpression(node) &&
+      t.isIdentifier(node.callee) &&
+      node.callee.name === 'require' &&
+      t.isStringLiteral(node.arguments[0])
+      ? node.arguments[0]
+      : null;
+  }
+
+  /**
+   * Returns the plugin URL written as a string literal, or the static part of a template literal
+   * up to the first expression when that part already contains the plugin name.
+   */
+  private staticPluginUrl(url: t.Node): string | null {
+    let staticUrl: string | undefined;
+    if (t.isStringLiteral(url)) {
+      staticUrl = url.value;
+    } else if (t.isTemplateLiteral(url)) {
+      staticUrl = url.quasis[0].value.cooked ?? url.quasis[0].value.raw;
+      // Without an expression the whole literal is static; otherwise the name must end before it
+      if (url.expressions.length > 0 && !staticUrl.slice(PLUGIN_URL_PREFIX.length).includes('/')) {
+        return null;
+      }
+    }
+    return staticUrl?.startsWith(PLUGIN_URL_PREFIX) ? staticUrl : null;
+  }
+
+  /**
+   * Returns the page URL written as a string literal, or the static part of a template literal
+   * up to the first expression when the page path already ends there (`/pages/a/a?id=${id}`).
+   */
+  private staticRouteUrl(url: t.Node): string | null {
+    let staticUrl: string | undefined;
+    if (t.isStringLiteral(url)) {
+      staticUrl = url.value;
+    } else if (t.isTemplateLiteral(url)) {
+      staticUrl = url.quasis[0].value.cooked ?? url.quasis[0].value.raw;
+      if (url.expressions.length > 0 && !staticUrl.includes('?')) {
+        return null;
+      }
+    }
+    // Plugin URLs with a dynamic name and other schemes are not pages of the mini-program
+    return staticUrl && !staticUrl.includes('://') ? staticUrl : null;
   }
 }
@@ -1,95 +1,168 @@
 import * as path from 'path';
+import { PLUGIN_URL_PREFIX } from './plugin-references';
+import { toJsonPointerSegment } from './source-location';
 
 type JsonObject = Record<string, unknown>;
 
+/** A dependency path found in a JSON file, with the JSON Pointer of the entry declaring it */
+export interface JsonDependencyEntry {
+  rawPath: string;
+  pointer: string;
+  /** A `usingComponents` entry with a `componentPlaceholder`: the component is loaded asynchronously */
+  async?: boolean;
+}
+
 export function extractJsonDependencies(jsonContent: JsonObject): string[] {
-  const dependencies: string[] = [];
+  return collectJsonDependencies(jsonContent).map((entry) => entry.rawPath);
+}
+
+export function collectJsonDependencies(jsonContent: JsonObject): JsonDependencyEntry[] {
+  const dependencies: JsonDependencyEntry[] = [];
 
   if (jsonContent.pages && Array.isArray(jsonContent.pages)) {
-    for (const pagePath of jsonContent.pages) {
+    jsonContent.pages.forEach((pagePath, index) => {
       if (typeof pagePath === 'string') {
-        dependencies.push('/' + pagePath);
+        dependencies.push({ rawPath: '/' + pagePath, pointer: `/pages/${index}` });
       }
-    }
+    });
   }
 
-  const subpackages = jsonContent.subPackages || jsonContent.subpackages;
+  const subpackagesKey = jsonContent.subPackages ? 'subPackages' : 'subpackages';
+  const subpackages = jsonContent[subpackagesKey];
   if (subpackages && Array.isArray(subpackages)) {
-    for (const subpackage of subpackages) {
+    subpackages.forEach((subpackage, subpackageIndex) => {
       if (!subpackage || typeof subpackage !== 'object') {
-        continue;
+        return;
       }
       const root = (subpackage as JsonObject).root;
       const subPages = (subpackage as JsonObject).pages;
       if (typeof root === 'string' && Array.isArray(subPages)) {
-        for (const pagePath of subPages) {
+        subPages.forEach((pagePath, pageIndex) => {
           if (typeof pagePath === 'string') {
-            dependencies.push('/' + path.posix.join(root, pagePath));
+            dependencies.push({
+              rawPath: '/' + path.posix.join(root, pagePath),
+              pointer: `/${subpackagesKey}/${subpackageIndex}/pages/${pageIndex}`,
+            });
           }
-        }
+        });
       }
-    }
+    });
   }
 
   const tabBar = jsonContent.tabBar;
   const tabBarList = tabBar && typeof tabBar === 'object' ? (tabBar as JsonObject).list : undefined;
   if (Array.isArray(tabBarList)) {
-    for (const item of tabBarList) {
+    tabBarList.forEach((item, index) => {
       if (!item || typeof item !== 'object') {
-        continue;
+        return;
       }
       const tabBarItem = item as JsonObject;
-      if (typeof tabBarItem.iconPath === 'string') {
-        dependencies.push(tabBarItem.iconPath);
-      }
-      if (typeof tabBarItem.selectedIconPath === 'string') {
-        dependencies.push(tabBarItem.selectedIconPath);
+      for (const key of ['iconPath', 'selectedIconPath']) {
+        if (typeof tabBarItem[key] === 'string') {
+          dependencies.push({
+            rawPath: tabBarItem[key] as string,
+            pointer: `/tabBar/list/${index}/${key}`,
+          });
+        }
       }
-    }
-  }
-
-  if (typeof jsonContent.sitemapLocation === 'string') {
-    dependencies.push(jsonContent.sitemapLocation);
+    });
   }
 
-  if (typeof jsonContent.themeLocation === 'string') {
-    dependencies.push(jsonContent.themeLocation);
+  for (const key of ['sitemapLocation', 'themeLocation', 'workers']) {
+    if (typeof jsonContent[key] === 'string') {
+      dependencies.push({ rawPath: jsonContent[key] as string, pointer: `/${key}` });
+    }
   }
 
-  if (typeof jsonContent.workers === 'string') {
-    dependencies.push(jsonContent.workers);
+  // Object form of workers: { path, isSubpackage }
+  const workers = jsonContent.workers;
+  if (workers && typeof workers === 'object' && typeof (workers as JsonObject).path === 'string') {
+    dependencies.push({
+      rawPath: (workers as JsonObject).path as string,
+      pointer: '/workers/path',
+    });
   }
 
-  dependencies.push(...extractJsonComponentReferences(jsonContent));
+  dependencies.push(...collectJsonComponentReferences(jsonContent));
 
   return dependencies;
 }
 
 export function extractJsonComponentReferences(jsonContent: JsonObject): string[] {
-  const componentPaths = new Set<string>();
+  return collectJsonComponentReferences(jsonContent).map((entry) => entry.rawPath);
+}
+
+/**
+ * Collects the component paths declared in `usingComponents` and `componentGenerics` defaults.
+ * Paths declared several times are reported once, at their first declaration; a path is async
+ * only when every `usingComponents` name declaring it has a `componentPlaceholder` entry.
+ * Plugin components are left out, see `collectJsonPluginReferences`.
+ */
+export function collectJsonComponentReferences(jsonContent: JsonObject): JsonDependencyEntry[] {
+  const componentPaths = new Map<string, JsonDependencyEntry>();
+  const addComponent = (rawPath: string, pointer: string, isAsync = false): void => {
+    if (rawPath.startsWith(PLUGIN_URL_PREFIX)) {
+      return;
+    }
+    const existing = componentPaths.get(rawPath);
+    if (!existing) {
+      componentPaths.set(rawPath, { rawPath, pointer, ...(isAsync && { async: true }) });
+    } else if (existing.async && !isAsync) {
+      delete existing.async;
+    }
+  };
+
+  const placeholders = jsonContent.componentPlaceholder;
+  const hasPlaceholder = (componentName: string): boolean =>
+    !!placeholders &&
+    typeof placeholders === 'object' &&
+    typeof (placeholders as JsonObject)[componentName] === 'string';
 
   if (jsonContent.usingComponents && typeof jsonContent.usingComponents === 'object') {
-    for (const [_componentName, componentPath] of Object.entries(jsonContent.usingComponents)) {
-      if (typeof componentPath === 'string' && !componentPath.startsWith('plugin://')) {
-        componentPaths.add(componentPath);
+    for (const [componentName, componentPath] of Object.entries(jsonContent.usingComponents)) {
+      if (typeof componentPath === 'string') {
+        addComponent(
+          componentPath,
+          `/usingComponents/${toJsonPointerSegment(componentName)}`,
+          hasPlaceholder(componentName),
+        );
       }
     }
   }
 
   if (jsonContent.componentGenerics && typeof jsonContent.componentGenerics === 'object') {
-    for (const genericInfo of Object.values(jsonContent.componentGenerics)) {
+    for (const [genericName, genericInfo] of Object.entries(jsonContent.componentGenerics)) {
       if (
         genericInfo &&
         typeof genericInfo === 'object' &&
         typeof (genericInfo as { default?: unknown }).default === 'string'
       ) {
-        const defaultComponentPath = (genericInfo as { default: string }).default;
-        if (!defaultComponentPath.startsWith('plugin://')) {
-          componentPaths.add(defaultComponentPath);
-        }
+        addComponent(
+          (genericInfo as { default: string }).default,
+          `/componentGenerics/${toJsonPointerSegment(genericName)}/default`,
+        );
       }
     }
   }
 
-  return Array.from(componentPaths);
+  return Array.from(componentPaths.values());
+}
+
+/**
+ * Collects the plugin components (`plugin://name/component`) declared in `usingComponents`.
+ */
+export function collectJsonPluginReferences(jsonContent: JsonObject): JsonDependencyEntry[] {
+  const usingComponents = jsonContent.usingComponents;
+  if (!usingComponents || typeof usingComponents !== 'object') {
+    return [];
+  }
+  return Object.entries(usingComponents)
+    .filter(
+      (entry): entry is [string, string] =>
+        typeof entry[1] === 'string' && entry[1].startsWith(PLUGIN_URL_PREFIX),
+    )
+    .map(([componentName, rawPath]) => ({
+      rawPath,
+      pointer: `/usingComponents/${toJsonPointerSegment(componentName)}`,
+    }));
 }
@@ -1,5 +1,7 @@
 import { logger } from '../utils/debug-logger';
-import { extractJsonDependencies } from './json-dependencies';
+import { LocatedPath } from './dependency-types';
+import { collectJsonDependencies } from './json-dependencies';
+import { findJsonPointerLocations } from './source-location';
 
 export class JSONParser {
   constructor() {
@@ -7,9 +9,22 @@ export class JSONParser {
   }
 
   async parse(content: string, filePath: string): Promise<string[]> {
+    const dependencies = await this.parseWithLocations(content, filePath);
+    return dependencies.map((dependency) => dependency.rawPath);
+  }
+
+  /**
+   * Like `parse`, but also returns where each dependency path is declared: the key for object
+   * entries such as `usingComponents`, the item for arrays such as `pages`.
+   */
+  async parseWithLocations(content: string, filePath: string): Promise<LocatedPath[]> {
     try {
       const jsonContent = JSON.parse(content);
-      return extractJsonDependencies(jsonContent);
+      const locations = findJsonPointerLocations(content);
+      return collectJsonDependencies(jsonContent).map((entry) => ({
+        rawPath: entry.rawPath,
+        location: locations.get(entry.pointer),
+      }));
     } catch (e: any) {
       if (e instanceof SyntaxError) {
         logger.error(`Error parsing JSON file ${filePath}: ${e.message}`);
@@ -0,0 +1,14 @@
+/** Prefix of plugin component paths and plugin page URLs: `plugin://<plugin name>/<path>` */
+export const PLUGIN_URL_PREFIX = 'plugin://';
+
+/**
+ * Returns the plugin name of a `plugin://name/...` path, or null for any other path
+ * or when the name is not static (e.g. a template literal starting with `plugin://${name}`).
+ */
+export function getPluginName(rawPath: string): string | null {
+  if (!rawPath.startsWith(PLUGIN_URL_PREFIX)) {
+    return null;
+  }
+  const name = rawPath.slice(PLUGIN_URL_PREFIX.length).split('/')[0];
+  return name || null;
+}
@@ -0,0 +1,35 @@
+import * as path from 'path';
+import { NavigationMethod } from './dependency-types';
+
+/**
+ * APIs that open a page of the mini-program by URL. `navigateToMiniProgram` is not one of them:
+ * its `path` is a page of the other mini-program.
+ */
+export const NAVIGATION_METHODS: ReadonlySet<string> = new Set<NavigationMethod>([
+  'navigateTo',
+  'redirectTo',
+  'reLaunch',
+  'switchTab',
+]);
+
+/** `<navigator open-type>` values that open a page, mapped to the API that does the same */
+export const NAVIGATOR_OPEN_TYPES: Readonly<Record<string, NavigationMethod>> = {
+  navigate: 'navigateTo',
+  redirect: 'redirectTo',
+  reLaunch: 'reLaunch',
+  switchTab: 'switchTab',
+};
+
+/**
+ * Returns the route of the page a URL opens, relative to the miniapp root and without the query
+ * string: '/pages/detail/detail?id=1' -> 'pages/detail/detail'. Relative URLs are resolved against
+ * the directory of the file they are written in, which is the page directory for page files.
+ */
+export function toPageRoute(url: string, sourceFile: string, miniappRoot: string): string {
+  const urlPath = url.split(/[?#]/)[0];
+  if (urlPath.startsWith('/')) {
+    return path.posix.normalize(urlPath.slice(1));
+  }
+  const sourceDir = path.relative(miniappRoot, path.dirname(sourceFile)).split(path.sep).join('/');
+  return path.posix.normalize(path.posix.join(sourceDir, urlPath));
+}
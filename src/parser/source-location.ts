@@ -0,0 +1,95 @@
+import { SourceLocation } from './dependency-types';
+
+/**
+ * Creates a function that converts character offsets in `content` to 1-based line/column positions.
+ */
+export function createLocator(content: string): (offset: number) => SourceLocation {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return (offset: number) => {
+    // Binary search for the last line starting at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
+
+/**
+ * Escapes a key for use as a JSON Pointer (RFC 6901) segment.
+ */
+export function toJsonPointerSegment(key: string | number): string {
+  return String(key).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Maps every JSON Pointer in a valid JSON document to its position: the key for object members,
+ * the value for array items. `JSON.parse` drops positions, so the text is scanned separately.
+ */
+export function findJsonPointerLocations(content: string): Map<string, SourceLocation> {
+  const locate = createLocator(content);
+  const locations = new Map<string, SourceLocation>();
+  let index = 0;
+
+  const skipWhitespace = (): void => {
+    while (index < content.length && /\s/.test(content[index])) index++;
+  };
+
+  const readString = (): string => {
+    const start = index++;
+    while (index < content.length && content[index] !== '"') {
+      index += content[index] === '\\' ? 2 : 1;
+    }
+    index++;
+    return JSON.parse(content.slice(start, index));
+  };
+
+  const scanValue = (pointer: string): void => {
+    skipWhitespace();
+    const char = content[index];
+
+    if (char === '{') {
+      index++;
+      skipWhitespace();
+      while (index < content.length && content[index] !== '}') {
+        const keyOffset = index;
+        const childPointer = `${pointer}/${toJsonPointerSegment(readString())}`;
+        locations.set(childPointer, locate(keyOffset));
+        skipWhitespace();
+        index++; // ':'
+        scanValue(childPointer);
+        skipWhitespace();
+        if (content[index] === ',') index++;
+        skipWhitespace();
+      }
+      index++;
+    } else if (char === '[') {
+      index++;
+      skipWhitespace();
+      for (let item = 0; index < content.length && content[index] !== ']'; item++) {
+        const childPointer = `${pointer}/${item}`;
+        locations.set(childPointer, locate(index));
+        scanValue(childPointer);
+        skipWhitespace();
+        if (content[index] === ',') index++;
+        skipWhitespace();
+      }
+      index++;
+    } else if (char === '"') {
+      readString();
+    } else {
+      // Numbers, booleans and null
+      while (index < content.length && !/[,\]}\s]/.test(content[index])) index++;
+    }
+  };
+
+  scanValue('');
+  return locations;
+}
@@ -1,8 +1,35 @@
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore: Could not find a declaration file for module '@wxml/parser'
-import { parse, Program, WXNode } from '@wxml/parser';
+import { parse, Program, WXAttribute, WXNode } from '@wxml/parser';
 import { logger } from '../utils/debug-logger';
 import { normalizeWxmlImportPath } from '../utils/wxml-path';
+import { LocatedPath, LocatedRoute, SourceLocation } from './dependency-types';
+import { NAVIGATOR_OPEN_TYPES } from './route-references';
+
+/** Everything WXMLParser extracts from a template */
+export interface WxmlReferences {
+  /** Templates, WXS scripts and images the template loads */
+  dependencies: LocatedPath[];
+  /** Page URLs of `<navigator>` tags */
+  routes: LocatedRoute[];
+}
+
+type SourceCallback = (path: string, location: SourceLocation | undefined) => void;
+
+// Position of the attribute (e.g. `src="..."`) the path was read from
+function attributeLocation(attr: WXAttribute): SourceLocation | undefined {
+  return attr.loc ? { line: attr.loc.start.line, column: attr.loc.start.column } : undefined;
+}
+
+function addDependency(
+  dependencies: Map<string, LocatedPath>,
+  rawPath: string,
+  location: SourceLocation | undefined,
+): void {
+  if (!dependencies.has(rawPath)) {
+    dependencies.set(rawPath, { rawPath, location });
+  }
+}
 
 /**
  * Parser for WXML files that finds dependencies to other files using AST parsing.
@@ -24,8 +51,25 @@ export class WXMLParser {
   }
 
   async parse(content: string, filePath: string): Promise<string[]> {
+    const dependencies = await this.parseWithLocations(content, filePath);
+    return dependencies.map((dependency) => dependency.rawPath);
+  }
+
+  /**
+   * Like `parse`, but also returns where each dependency path is written.
+   * Paths referenced several times are reported once, at their first occurrence.
+   */
+  async parseWithLocations(content: string, filePath: string): Promise<LocatedPath[]> {
+    return (await this.parseReferences(content, filePath)).dependencies;
+  }
+
+  /**
+   * Like `parseWithLocations`, but also returns the pages the template's `<navigator>` tags open.
+   */
+  async parseReferences(content: string, filePath: string): Promise<WxmlReferences> {
     try {
-      const dependencies = new Set<string>();
+      const dependencies = new Map<string, LocatedPath>();
+      const routes = new Map<string, LocatedRoute>();
 
       // Parse WXML content to AST
       const ast = parse(content);
@@ -33,10 +77,14 @@ export class WXMLParser {
       this.processImportIncludeTags(ast, dependencies);
       this.processWxsTags(ast, dependencies);
       this.processImageSources(ast, dependencies);
+      this.processNavigatorTags(ast, routes);
       // NOTE: processCustomComponents is intentionally omitted as component
       // dependencies are defined in JSON files.
 
-      return Array.from(dependencies);
+      return {
+        dependencies: Array.from(dependencies.values()),
+        routes: Array.from(routes.values()),
+      };
     } catch (e: any) {
       logger.warn(`Error parsing WXML file ${filePath}: ${e.message}`);
       throw e; // Re-throw
@@ -46,30 +94,30 @@ export class WXMLParser {
   /**
    * Processes import and include tags to extract template dependencies
    */
-  private processImportIncludeTags(ast: Program, dependencies: Set<string>): void {
-    this.findImportIncludeTags(ast, (path: string) => {
+  private processImportIncludeTags(ast: Program, dependencies: Map<string, LocatedPath>): void {
+    this.findImportIncludeTags(ast, (path, location) => {
       const normalizedPath = normalizeWxmlImportPath(path);
       logger.debug(`Found import/include: ${path} -> normalized: ${normalizedPath}`);
-      dependencies.add(normalizedPath);
+      addDependency(dependencies, normalizedPath, location);
     });
   }
 
   /**
    * Processes wxs tags to extract WXS script dependencies
    */
-  private processWxsTags(ast: Program, dependencies: Set<string>): void {
-    this.findWxsTags(ast, (path: string) => {
+  private processWxsTags(ast: Program, dependencies: Map<string, LocatedPath>): void {
+    this.findWxsTags(ast, (path, location) => {
       const normalizedPath = normalizeWxmlImportPath(path);
       logger.debug(`Found wxs: ${path} -> normalized: ${normalizedPath}`);
-      dependencies.add(normalizedPath);
+      addDependency(dependencies, normalizedPath, location);
     });
   }
 
   /**
    * Processes image tags to extract image dependencies
    */
-  private processImageSources(ast: Program, dependencies: Set<string>): void {
-    this.findImageTags(ast, (src: string) => {
+  private processImageSources(ast: Program, dependencies: Map<string, LocatedPath>): void {
+    this.findImageTags(ast, (src, location) => {
       // Skip data URIs, remote URLs, and template expressions
       if (src.startsWith('data:') || /^(http|https):\/\//.test(src) || /{{.*?}}/.test(src)) {
         return;
@@ -77,21 +125,56 @@ export class WXMLParser {
 
       const normalizedPath = normalizeWxmlImportPath(src);
       logger.debug(`Found image: ${src} -> normalized: ${normalizedPath}`);
-      dependencies.add(normalizedPath);
+      addDependency(dependencies, normalizedPath, location);
     });
   }
 
+  /**
+   * Processes navigator tags to extract the page URLs they open. Interpolated URLs are kept when
+   * the interpolation only starts in the query string (`/pages/a/a?id={{id}}`).
+   */
+  private processNavigatorTags(ast: WXNode | Program, routes: Map<string, LocatedRoute>): void {
+    if (ast.type === 'WXElement' && ast.name === 'navigator') {
+      const attrs: WXAttribute[] = ast.startTag?.attributes ?? [];
+      const attributeValue = (key: string) => attrs.find((attr) => attr.key === key)?.value;
+      const urlAttr = attrs.find((attr) => attr.key === 'url');
+      const method = NAVIGATOR_OPEN_TYPES[attributeValue('open-type') ?? 'navigate'];
+      const url = urlAttr?.value;
+      // target="miniProgram" opens another mini-program; navigateBack and exit take no URL
+      if (url && method && attributeValue('target') !== 'miniProgram') {
+        const interpolation = url.indexOf('{{');
+        const staticUrl = interpolation === -1 ? url : url.slice(0, interpolation);
+        const key = `${method} ${staticUrl}`;
+        if ((interpolation === -1 || staticUrl.includes('?')) && !routes.has(key)) {
+          routes.set(key, { rawPath: staticUrl, method, location: attributeLocation(urlAttr) });
+        }
+      }
+    }
+
+    if (ast.type === 'WXElement' && Array.isArray(ast.children)) {
+      for (const child of ast.children) {
+        this.processNavigatorTags(child, routes);
+      }
+    }
+
+    if (ast.type === 'Program' && Array.isArray(ast.body)) {
+      for (const node of ast.body) {
+        this.processNavigatorTags(node, routes);
+      }
+    }
+  }
+
   /**
    * Recursively finds import and include tags in the AST
    */
-  private findImportIncludeTags(ast: WXNode | Program, callback: (path: string) => void): void {
+  private findImportIncludeTags(ast: WXNode | Program, callback: SourceCallback): void {
     if (ast.type === 'WXElement' && (ast.name === 'import' || ast.name === 'include')) {
       // Find src attribute from startTag.attributes
       const attrs = ast.startTag?.attributes;
       if (attrs && Array.isArray(attrs)) {
         const srcAttr = attrs.find((attr) => attr.key === 'src');
         if (srcAttr && srcAttr.value) {
-          callback(srcAttr.value);
+          callback(srcAttr.value, attributeLocation(srcAttr));
         }
       }
     }
@@ -114,7 +197,7 @@ export class WXMLParser {
   /**
    * Recursively finds wxs tags in the AST
    */
-  private findWxsTags(ast: WXNode | Program, callback: (path: string) => void): void {
+  private findWxsTags(ast: WXNode | Program, callback: SourceCallback): void {
     // Handle WXScript (wxs tags)
     if (ast.type === 'WXScript' && ast.name === 'wxs') {
       // Find src attribute from startTag.attributes
@@ -122,7 +205,7 @@ export class WXMLParser {
       if (attrs && Array.isArray(attrs)) {
         const srcAttr = attrs.find((attr) => attr.key === 'src');
         if (srcAttr && srcAttr.value) {
-          callback(srcAttr.value);
+          callback(srcAttr.value, attributeLocation(srcAttr));
         }
       }
     }
@@ -134,7 +217,7 @@ export class WXMLParser {
       if (attrs && Array.isArray(attrs)) {
         const srcAttr = attrs.find((attr) => attr.key === 'src');
         if (srcAttr && srcAttr.value) {
-          callback(srcAttr.value);
+          callback(srcAttr.value, attributeLocation(srcAttr));
         }
       }
     }
@@ -157,14 +240,14 @@ export class WXMLParser {
   /**
    * Recursively finds image tags in the AST
    */
-  private findImageTags(ast: WXNode | Program, callback: (src: string) => void): void {
+  private findImageTags(ast: WXNode | Program, callback: SourceCallback): void {
     if (ast.type === 'WXElement' && ast.name === 'image') {
       // Find src attribute from startTag.attributes
       const attrs = ast.startTag?.attributes;
       if (attrs && Array.isArray(attrs)) {
         const srcAttr = attrs.find((attr) => attr.key === 'src');
         if (srcAttr && srcAttr.value) {
-          callback(srcAttr.value);
+          callback(srcAttr.value, attributeLocation(srcAttr));
         }
       }
     }
@@ -1,4 +1,6 @@
 import { logger } from '../utils/debug-logger';
+import { LocatedPath } from './dependency-types';
+import { createLocator } from './source-location';
 
 export class WXSSParser {
   constructor() {
@@ -6,8 +8,23 @@ export class WXSSParser {
   }
 
   async parse(content: string, filePath: string): Promise<string[]> {
+    const dependencies = await this.parseWithLocations(content, filePath);
+    return dependencies.map((dependency) => dependency.rawPath);
+  }
+
+  /**
+   * Like `parse`, but also returns where each dependency path is written (the start of the
+   * `@import` or `url(`). Paths referenced several times are reported once, at their first occurrence.
+   */
+  async parseWithLocations(content: string, filePath: string): Promise<LocatedPath[]> {
     try {
-      const dependencies = new Set<string>();
+      const dependencies = new Map<string, LocatedPath>();
+      const locate = createLocator(content);
+      const addDependency = (rawPath: string, offset: number): void => {
+        if (!dependencies.has(rawPath)) {
+          dependencies.set(rawPath, { rawPath, location: locate(offset) });
+        }
+      };
 
       // Match @import statements
       const importRegex = /@import\s+['"]([^'"]+)['"]/g;
@@ -19,8 +36,7 @@ export class WXSSParser {
       // Process @import statements
       while ((match = importRegex.exec(content)) !== null) {
         if (match[1]) {
-          const importPath = match[1];
-          dependencies.add(importPath);
+          addDependency(match[1], match.index);
         }
       }
 
@@ -35,11 +51,11 @@ export class WXSSParser {
           ) {
             continue;
           }
-          dependencies.add(urlPath);
+          addDependency(urlPath, match.index);
         }
       }
 
-      return Array.from(dependencies);
+      return Array.from(dependencies.values());
     } catch (e: any) {
       logger.warn(`Error parsing WXSS file ${filePath}: ${e.message}`);
       throw e; // Re-throw
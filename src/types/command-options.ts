@@ -1,3 +1,4 @@
+import { PackOptions } from '../utils/project-config';
 import { MiniProgramAppJson } from './miniprogram';
 
 export interface GlobalCliOptions {
@@ -13,11 +14,30 @@ export interface GlobalCliOptions {
   verbose?: boolean;
   trace?: boolean;
   telemetry?: boolean;
+  cache?: boolean; // --no-cache 时为 false，跳过依赖解析缓存
 }
 
 export interface CmdGraphOptions {
   format?: 'html' | 'json';
   output?: string;
+  watch?: boolean; // 启动本地服务并在文件变更时推送更新
+  port?: number; // --watch 时本地服务的端口，默认随机
+}
+
+export interface CmdCyclesOptions {
+  format?: 'text' | 'json'; // 输出格式，默认为 'text'
+  output?: string; // json 结果的输出文件，默认输出到控制台
+}
+
+export interface CmdDepsOptions {
+  format?: 'text' | 'json'; // 输出格式，默认为 'text'
+  output?: string; // json 结果的输出文件，默认输出到控制台
+  packageJson?: string; // 要对比的 package.json，默认依次查找 miniappRoot 与项目根目录
+}
+
+export interface CmdCloudOptions {
+  format?: 'text' | 'json'; // 输出格式，默认为 'text'
+  output?: string; // json 结果的输出文件，默认输出到控制台
 }
 
 export interface CmdCleanOptions {
@@ -27,6 +47,9 @@ export interface CmdCleanOptions {
 export interface CmdLintOptions {
   fix?: boolean;
   path?: string;
+  watch?: boolean; // 文件变更时增量更新并重新检查
+  format?: 'text' | 'json' | 'sarif' | 'checkstyle' | 'junit'; // 输出格式，默认为 'text'
+  output?: string; // 非 text 格式结果的输出文件，默认输出到控制台
 }
 
 export interface CmdPurgeWxssOptions {
@@ -40,9 +63,16 @@ export interface CmdCpdOptions {
   reporters?: string;
 }
 
+export interface CmdOptimizePackagesOptions {
+  write?: boolean; // 实际移动文件并更新引用路径
+}
+
 export interface CmdDiffOptions {
   base?: string; // 基准分支或提交，默认为 'master'
-  target?: string; // 目标分支或提交，默认为 'HEAD' 或当前工作目录
+  target?: string; // 目标分支或提交（含 'HEAD'）；未指定时使用当前工作区（含未提交的更改）
+  format?: 'text' | 'json' | 'markdown'; // 输出格式，默认为 'text'
+  output?: string; // json/markdown 结果的输出文件，默认输出到控制台
+  failOnIncrease?: string; // 任一包的增长超过该值时以非零状态码退出，如 '10KB' 或 '5%'
 }
 
 /**
@@ -67,6 +97,23 @@ export interface ConfigFileOptions {
     // 别名配置
     [key: string]: string | string[];
   };
+
+  // 包大小预算 (budget 命令)
+  packageSizeLimits?: PackageSizeLimits;
+}
+
+/**
+ * 包大小限制，数值单位为字节，也可以使用 '2MB'、'512KB' 这样的字符串。
+ * 未配置的项使用微信官方限制。
+ */
+export interface PackageSizeLimits {
+  main?: number | string; // 主包，默认 2MB
+  subPackage?: number | string; // 单个分包，默认 2MB
+  total?: number | string; // 整个小程序所有包的总和，默认 20MB
+  packages?: {
+    // 按分包 root（与 app.json 中一致）单独覆盖限制
+    [root: string]: number | string;
+  };
 }
 
 export interface AnalyzerOptions {
@@ -81,4 +128,9 @@ export interface AnalyzerOptions {
   aliases?: {
     [key: string]: string | string[];
   };
+  cache?: boolean; // 是否使用 node_modules/.cache/mp-lens 中的依赖解析缓存，默认 true
+  cacheRoot?: string; // 依赖解析缓存所在的目录，默认为项目根目录；diff 在临时工作树中分析时指向原仓库中的项目
+  miniprogramNpmDirs?: string[]; // project.config.json 中配置的 miniprogram_npm 目录（构建 npm 的输出位置）
+  packOptions?: PackOptions; // project.config.json 中的 packOptions，被忽略的文件不会上传，不计入包体积
+  cloudfunctionRoot?: string; // project.config.json 中的云函数根目录，其中每个云函数是独立的入口
 }
@@ -73,20 +73,19 @@ interface MiniProgramUsingComponents {
 }
 
 /**
- * Worker 配置
+ * Worker 配置：worker 代码所在目录，或配置为分包的对象形式
  */
-// interface MiniProgramWorkers {
-//   workers: string;
-// }
+export type MiniProgramWorkers = string | { path: string; isSubpackage?: boolean };
 
 /**
  * 分包配置
  */
-interface MiniProgramSubPackage {
+export interface MiniProgramSubPackage {
   root: string;
   name?: string;
   pages: string[];
   independent?: boolean;
+  plugins?: MiniProgramPlugins;
 }
 
 /**
@@ -118,6 +117,7 @@ export interface MiniProgramAppJson {
   subpackages?: MiniProgramSubPackage[]; // 兼容 subpackages 拼写
   window?: MiniProgramWindowConfig;
   tabBar?: MiniProgramTabBar;
+  entryPagePath?: string;
   networkTimeout?: MiniProgramNetworkTimeout;
   debug?: boolean;
   functionalPages?: boolean;
@@ -136,7 +136,7 @@ export interface MiniProgramAppJson {
   singlePage?: { navigationBarFit?: 'float' };
   supportedMaterials?: { materialType: string }[];
   serviceProviderTicket?: string;
-  workers?: string;
+  workers?: MiniProgramWorkers;
   requiredBackgroundModes?: string[];
   requiredPrivateInfos?: string[];
   visualEffectInBackground?: string;
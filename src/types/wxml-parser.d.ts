@@ -3,13 +3,16 @@ declare module '@wxml/parser' {
   export interface Position {
     start: number;
     end: number;
-    start: {
-      line: number;
-      column: number;
-    };
-    end: {
-      line: number;
-      column: number;
+    // 1-based line and column
+    loc: {
+      start: {
+        line: number;
+        column: number;
+      };
+      end: {
+        line: number;
+        column: number;
+      };
     };
     range: [number, number];
   }
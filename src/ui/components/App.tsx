@@ -1,4 +1,4 @@
-import { useMemo, useState } from 'preact/hooks';
+import { useEffect, useMemo, useState } from 'preact/hooks';
 import { ProjectStructure } from '../../analyzer/project-structure';
 import { TreeNodeData } from '../types'; // AppProps might need adjustment if `data` prop is removed
 import { buildTreeWithStats } from '../utils/dependency-tree-processor'; // UPDATED: Removed formatBytes
@@ -16,9 +16,16 @@ declare global {
     __MP_LENS_TITLE__?: string;
     __MP_LENS_GRAPH_DATA__?: ProjectStructure;
     __MP_LENS_UNUSED_FILES__?: string[];
+    __MP_LENS_LIVE_EVENTS_URL__?: string; // Set by `graph --watch`
   }
 }
 
+// Data pushed by the `graph --watch` server, see LiveGraphUpdate in live-server.ts
+interface LiveGraphUpdate {
+  graph: ProjectStructure;
+  unusedFiles: string[];
+}
+
 const emptyProjectStructure: ProjectStructure = {
   nodes: [],
   links: [],
@@ -66,7 +73,27 @@ export function App(props: AppProps) {
     console.log('[App] Props received:', props);
   }
 
-  const fullGraphData = useMemo(() => window.__MP_LENS_GRAPH_DATA__ || emptyProjectStructure, []);
+  const [fullGraphData, setFullGraphData] = useState<ProjectStructure>(
+    () => window.__MP_LENS_GRAPH_DATA__ || emptyProjectStructure,
+  );
+  const [realUnusedFiles, setRealUnusedFiles] = useState<string[]>(
+    () => window.__MP_LENS_UNUSED_FILES__ || [],
+  );
+
+  // In watch mode, replace the data whenever the server pushes a new analysis
+  useEffect(() => {
+    const liveEventsUrl = window.__MP_LENS_LIVE_EVENTS_URL__;
+    if (!liveEventsUrl) {
+      return;
+    }
+    const source = new EventSource(liveEventsUrl);
+    source.onmessage = (event) => {
+      const update = JSON.parse(event.data) as LiveGraphUpdate;
+      setFullGraphData(update.graph);
+      setRealUnusedFiles(update.unusedFiles);
+    };
+    return () => source.close();
+  }, []);
 
   // Build the tree structure AND calculate stats in one step
   const initialTreeData = useMemo(
@@ -78,6 +105,13 @@ export function App(props: AppProps) {
   const [currentMode, setCurrentMode] = useState<'tree' | 'unusedFiles'>('tree');
   const [activeTabId, setActiveTabId] = useState<string>('details'); // Default to details tab
 
+  // Keep the selection on the same node after a live update rebuilt the tree
+  useEffect(() => {
+    setSelectedNode(
+      (previous) => findTreeNodeById(initialTreeData, previous.id) || initialTreeData,
+    );
+  }, [initialTreeData]);
+
   const handleNodeSelect = (node: TreeNodeData) => {
     setSelectedNode(node);
   };
@@ -112,8 +146,6 @@ export function App(props: AppProps) {
     }
   };
 
-  const realUnusedFiles = useMemo(() => window.__MP_LENS_UNUSED_FILES__ || [], []);
-
   // Calculate root stats using the root of the built tree
   const rootStats = useMemo(() => {
     const rootNodeForStats = initialTreeData; // Use the root of the built tree
@@ -1,6 +1,6 @@
 import G6, { Graph } from '@antv/g6';
 import { useEffect, useRef, useState } from 'preact/hooks';
-import { ProjectStructure } from '../../analyzer/project-structure';
+import { GraphLink, ProjectStructure } from '../../analyzer/project-structure';
 import { TreeNodeData } from '../types';
 import { computeAggregatedStatsForNode } from '../utils/dependency-tree-processor';
 import styles from './DependencyGraph.module.css';
@@ -40,7 +40,11 @@ function getNodeColorByType(type: string, isCenter = false): string {
     Page: '#e3f2fd',
     Config: '#f3e5f5',
     Package: '#eceff1',
+    NpmPackage: '#fffde7',
+    Plugin: '#e0f7fa',
+    ExtendedLib: '#e8eaf6',
     Worker: '#fce4ec',
+    CloudFunction: '#ede7f6',
     Default: '#f5f5f5',
   };
   return isCenter ? '#e6f7ff' : colors[type] || colors.Default;
@@ -55,7 +59,11 @@ function getBorderColorByType(type: string, isCenter = false): string {
     Page: '#90caf9',
     Config: '#ce93d8',
     Package: '#b0bec5',
+    NpmPackage: '#fff176',
+    Plugin: '#4dd0e1',
+    ExtendedLib: '#9fa8da',
     Worker: '#f48fb1',
+    CloudFunction: '#b39ddb',
     Default: '#e0e0e0',
   };
   return isCenter ? '#1890ff' : colors[type] || colors.Default;
@@ -124,6 +132,37 @@ function ensureNodeProperties(properties: Record<string, unknown> = {}): Record<
   };
 }
 
+// Edge label: the link type, plus whether it was inferred from a computed path and the line
+// of the referencing statement when known
+function getEdgeLabel(link: GraphLink): string {
+  const line = link.properties?.line;
+  const notes = [
+    link.dependencyType === 'dynamic' ? '动态' : '',
+    typeof line === 'number' ? `L${line}` : '',
+  ].filter(Boolean);
+  const label = notes.length > 0 ? `${link.type} (${notes.join(', ')})` : link.type || '';
+  return link.properties?.cycle ? `${label} ↻` : label;
+}
+
+const CYCLE_EDGE_COLOR = '#f5222d';
+
+// Builds a G6 edge; links taking part in a circular dependency are drawn in red
+function toGraphEdge(link: GraphLink) {
+  const edge: Record<string, unknown> = {
+    source: link.source,
+    target: link.target,
+    label: getEdgeLabel(link),
+  };
+  if (link.properties?.cycle) {
+    edge.style = {
+      stroke: CYCLE_EDGE_COLOR,
+      lineWidth: 2,
+      endArrow: { path: G6.Arrow.triangle(6, 8, 3), d: 3, fill: CYCLE_EDGE_COLOR },
+    };
+  }
+  return edge;
+}
+
 export function DependencyGraph({
   selectedNode,
   fullGraphData,
@@ -215,11 +254,7 @@ export function DependencyGraph({
           nodeMap.set(targetNodeData.id, true);
         }
         if (nodeMap.has(link.source) && nodeMap.has(link.target)) {
-          edges.push({
-            source: link.source,
-            target: link.target,
-            label: link.type || '',
-          });
+          edges.push(toGraphEdge(link));
         }
       }
     });
@@ -256,11 +291,7 @@ export function DependencyGraph({
         }
         if (nodeMap.has(link.source) && nodeMap.has(link.target)) {
           if (!edges.some((e) => e.source === link.source && e.target === link.target)) {
-            edges.push({
-              source: link.source,
-              target: link.target,
-              label: link.type || '',
-            });
+            edges.push(toGraphEdge(link));
           }
         }
       }
@@ -126,6 +126,36 @@ export function NodeDetails({
     return counts;
   }, [fullGraphData.links]); // Only depends on all links in the graph
 
+  // Behaviors mixed into the node's own scripts, resolved ones first, then wx:// built-ins
+  const behaviors = useMemo(() => {
+    const scriptIds = new Set<string>();
+    if (node.type === 'Module') {
+      scriptIds.add(node.id);
+    } else if (node.type === 'Component' || node.type === 'Page') {
+      for (const graphNode of fullGraphData.nodes) {
+        if (graphNode.properties?.structuralParentId === node.id) scriptIds.add(graphNode.id);
+      }
+    }
+    if (scriptIds.size === 0) return { modules: [], builtins: [] };
+
+    const labels = new Map(fullGraphData.nodes.map((graphNode) => [graphNode.id, graphNode.label]));
+    const modules = new Map<string, string>();
+    for (const link of fullGraphData.links) {
+      if (link.type === 'Behavior' && scriptIds.has(link.source)) {
+        modules.set(link.target, labels.get(link.target) || link.target);
+      }
+    }
+    const builtins = new Set<string>();
+    for (const graphNode of fullGraphData.nodes) {
+      if (!scriptIds.has(graphNode.id)) continue;
+      for (const name of (graphNode.properties?.builtinBehaviors as string[] | undefined) || []) {
+        builtins.add(name);
+      }
+    }
+    return { modules: [...modules], builtins: [...builtins] };
+  }, [node.id, node.type, fullGraphData]);
+  const behaviorCount = behaviors.modules.length + behaviors.builtins.length;
+
   // Calculate top file types by count
   const topFileTypes = useMemo(() => {
     return Object.entries(fileTypes).sort(([, countA], [, countB]) => countB - countA);
@@ -233,6 +263,38 @@ export function NodeDetails({
           </div>
         )}
 
+        {/* Behaviors Card */}
+        {behaviorCount > 0 && (
+          <div className={styles.detailsCard}>
+            <h3 className={styles.cardTitle}>混入的 Behavior ({behaviorCount})</h3>
+            <div className={`${styles.distributionList} ${styles.scrollableList}`}>
+              {behaviors.modules.map(([id, label]) => (
+                <div
+                  key={id}
+                  className={`${styles.childRow} ${styles.clickableRow}`}
+                  onClick={() => onChildNodeSelect(id)}
+                  title={`跳转到依赖图: ${label}`}
+                >
+                  <div className={styles.childTypeCol}>
+                    <span className={styles.childTypeBadge}>Module</span>
+                  </div>
+                  <div className={styles.childNameCol} title={id}>
+                    {label}
+                  </div>
+                </div>
+              ))}
+              {behaviors.builtins.map((name) => (
+                <div key={name} className={styles.childRow}>
+                  <div className={styles.childTypeCol}>
+                    <span className={styles.childTypeBadge}>内置</span>
+                  </div>
+                  <div className={styles.childNameCol}>{name}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Children List Card - Spans full width */}
         {childrenIds.length > 0 && (
           <div className={`${styles.detailsCard} ${styles.childrenCard}`}>
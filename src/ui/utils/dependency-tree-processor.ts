@@ -54,7 +54,13 @@ function calculateStatsFromModuleIds(
 
   for (const moduleId of moduleIds) {
     const moduleNode = nodeMap.get(moduleId);
-    if (moduleNode && moduleNode.type === 'Module' && moduleNode.properties) {
+    // Files ignored by packOptions are never uploaded, so they do not count towards package sizes
+    if (
+      moduleNode &&
+      moduleNode.type === 'Module' &&
+      moduleNode.properties &&
+      !moduleNode.properties.packIgnored
+    ) {
       const properties = moduleNode.properties;
       const fileSize = properties.fileSize || 0;
       const fileExt = properties.fileExt || 'unknown';
@@ -105,7 +111,7 @@ function ensureModuleProperties(node: GraphNode): ExtendedNodeProperties {
 
 /**
  * Collects all unique reachable 'Module' node IDs starting from a given graph node ID.
- * Traverses through all link types.
+ * Traverses through all link types except Navigation: the pages a node opens are not part of it.
  */
 function collectAllReachableModulesFrom(
   startGraphNodeId: string,
@@ -134,6 +140,8 @@ function collectAllReachableModulesFrom(
     const outgoingLinks = linksFromMap.get(currentId) || [];
     for (const link of outgoingLinks) {
       const targetId = link.target;
+      // Opening a page or calling a cloud function does not load the target's files
+      if (link.type === 'Navigation' || link.type === 'CloudFunction') continue;
       if (!visitedInThisTraversal.has(targetId)) {
         visitedInThisTraversal.add(targetId);
         // Only add to queue if the target node exists to prevent errors
@@ -262,9 +270,17 @@ function processNodeRecursive(
     }
   }
 
-  // Sort children: Packages, Pages, Components, then alphabetically by label
+  // Sort children: Packages, Pages, Components, npm packages, plugins, extended libs, workers, then by label
   childrenTreeNodes.sort((a, b) => {
-    const typeOrder: Record<string, number> = { Package: 1, Page: 2, Component: 3 };
+    const typeOrder: Record<string, number> = {
+      Package: 1,
+      Page: 2,
+      Component: 3,
+      NpmPackage: 4,
+      Plugin: 5,
+      ExtendedLib: 6,
+      Worker: 7,
+    };
     const orderA = typeOrder[a.type] ?? 99;
     const orderB = typeOrder[b.type] ?? 99;
     if (orderA !== orderB) return orderA - orderB;
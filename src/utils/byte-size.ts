@@ -0,0 +1,60 @@
+import { HandledError } from './errors';
+
+const BYTE_UNITS = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  b: 1,
+  byte: 1,
+  bytes: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+};
+
+/**
+ * 将字节数格式化为易读的字符串，如 `1.5 MB`。
+ * includeSign 为 true 时，正数会带上 `+` 前缀（用于展示差值）。
+ */
+export function formatBytes(bytes: number, includeSign = false): string {
+  const k = 1024;
+
+  if (Math.abs(bytes) < 1e-9) {
+    // Treat as zero
+    return includeSign ? '+0 Bytes' : '0 Bytes';
+  }
+
+  const i = Math.floor(Math.log(Math.abs(bytes)) / Math.log(k));
+  const value = parseFloat((bytes / Math.pow(k, i)).toFixed(2));
+
+  let prefix = '';
+  if (includeSign) {
+    if (value > 0) {
+      prefix = '+';
+    }
+    // Negative sign is part of 'value' if bytes is negative
+  }
+  return `${prefix}${value} ${BYTE_UNITS[i]}`;
+}
+
+/**
+ * 解析配置或命令行中的字节大小。
+ * 支持纯数字（字节）以及带单位的字符串，如 `2MB`、`512 KB`、`1.5m`（按 1024 进制换算）。
+ */
+export function parseByteSize(value: number | string): number {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new HandledError(`无效的大小配置: ${value}`);
+    }
+    return value;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-zA-Z]*)\s*$/.exec(value);
+  const multiplier = match ? UNIT_MULTIPLIERS[(match[2] || 'b').toLowerCase()] : undefined;
+  if (!match || multiplier === undefined) {
+    throw new HandledError(`无效的大小配置: '${value}'。示例: 2MB、512KB、1048576`);
+  }
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
@@ -1,11 +1,12 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { ConfigFileOptions, GlobalCliOptions } from '../types/command-options';
+import { ConfigFileOptions, GlobalCliOptions, PackageSizeLimits } from '../types/command-options';
 import { MiniProgramAppJson } from '../types/miniprogram';
 import { ConfigLoader } from './config-loader';
 import { logger } from './debug-logger';
 import { HandledError } from './errors';
 import { findAppJsonConfig } from './fs-finder';
+import { loadProjectConfig, PackOptions } from './project-config';
 import { loadTsConfigTypes } from './tsconfig-helper';
 
 // Define the structure of the initialized context returned
@@ -22,6 +23,11 @@ interface CommandExecutionContext {
   aliases?: {
     [key: string]: string | string[];
   };
+  packageSizeLimits?: PackageSizeLimits;
+  cache: boolean;
+  miniprogramNpmDirs: string[];
+  packOptions?: PackOptions;
+  cloudfunctionRoot?: string;
 }
 
 /**
@@ -64,6 +70,18 @@ export async function initializeCommandContext(
     mergedConfig.appJsonPath = mergedConfig.entryFile;
   }
 
+  // project.config.json is where the devtools themselves look for the mini-program
+  const projectConfig = loadProjectConfig(projectRoot);
+  const projectConfigRoot = projectConfig?.srcMiniprogramRoot ?? projectConfig?.miniprogramRoot;
+  if (!mergedConfig.miniappRoot && !mergedConfig.appJsonPath && projectConfigRoot) {
+    if (fs.existsSync(projectConfigRoot)) {
+      logger.debug(`Using miniprogram root from project.config.json: ${projectConfigRoot}`);
+      mergedConfig.miniappRoot = projectConfigRoot;
+    } else {
+      logger.warn(`project.config.json 中配置的小程序目录不存在: ${projectConfigRoot}`);
+    }
+  }
+
   // --- Start: Auto-detection logic ---
   if (!mergedConfig.miniappRoot && !mergedConfig.appJsonPath) {
     logger.debug('miniappRoot and appJsonPath not specified, attempting auto-detection...');
@@ -138,6 +156,11 @@ export async function initializeCommandContext(
     verboseLevel,
     verbose,
     aliases: mergedAliases,
+    packageSizeLimits: fileConfig?.packageSizeLimits,
+    cache: cliOptions.cache ?? true,
+    miniprogramNpmDirs: projectConfig?.miniprogramNpmDirs ?? [],
+    packOptions: projectConfig?.packOptions,
+    cloudfunctionRoot: projectConfig?.cloudfunctionRoot,
   };
 }
 
@@ -25,6 +25,8 @@ interface LoggerOptions {
   useColors?: boolean;
   /** Language for logs (defaults to English) */
   language?: 'en' | 'zh';
+  /** Write every level to stderr, leaving stdout to a report piped into other tools */
+  useStderr?: boolean;
 }
 
 /**
@@ -43,6 +45,7 @@ class DebugLogger {
       useRelativePaths: options.useRelativePaths ?? true,
       useColors: options.useColors ?? true,
       language: options.language ?? 'en',
+      useStderr: options.useStderr ?? false,
     };
   }
 
@@ -183,6 +186,9 @@ class DebugLogger {
   }
 
   private getWriter(prefix: string): (line: string) => void {
+    if (this.options.useStderr && prefix !== 'WARN') {
+      return console.error;
+    }
     switch (prefix) {
       case 'ERROR':
         return console.error;
@@ -0,0 +1,22 @@
+import { getNpmPackageName } from './miniprogram-npm';
+
+/**
+ * npm packages provided by the libraries app.json enables with `useExtendedLib`.
+ * The platform injects them at runtime, so their files exist nowhere on disk.
+ */
+const EXTENDED_LIB_PACKAGES = new Map<string, string>([
+  ['weui-miniprogram', 'weui'],
+  ['miniprogram-element', 'kbone'],
+  ['miniprogram-render', 'kbone'],
+]);
+
+/**
+ * Returns the extended library a bare specifier belongs to:
+ * 'weui-miniprogram/dialog/dialog' -> 'weui'. Returns null for any other path.
+ */
+export function getExtendedLibName(specifier: string): string | null {
+  if (specifier.startsWith('.') || specifier.startsWith('/')) {
+    return null;
+  }
+  return EXTENDED_LIB_PACKAGES.get(getNpmPackageName(specifier)) ?? null;
+}
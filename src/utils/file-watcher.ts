@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './debug-logger';
+
+// Directories whose changes never affect the analysis
+const IGNORED_SEGMENTS = new Set(['node_modules', '.git', '.svn', '.hg']);
+
+export interface FileWatcher {
+  close(): void;
+}
+
+/**
+ * Watches a directory recursively and reports changed files in batches.
+ *
+ * Events are debounced, so saving several files at once (e.g. a rename refactoring) produces a
+ * single call. Calls never overlap: changes arriving while `onChange` runs are reported in the
+ * next batch. Paths are absolute and may point to files that have been deleted.
+ */
+export function watchFiles(
+  rootDir: string,
+  onChange: (changedFiles: string[]) => Promise<void>,
+  debounceMs = 200,
+): FileWatcher {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  const flush = async (): Promise<void> => {
+    timer = null;
+    if (running || pending.size === 0) return;
+
+    const changedFiles = Array.from(pending);
+    pending.clear();
+    running = true;
+    try {
+      await onChange(changedFiles);
+    } catch (error) {
+      logger.error(`处理文件变更失败: ${(error as Error).message}`);
+    } finally {
+      running = false;
+      if (pending.size > 0) schedule();
+    }
+  };
+
+  const schedule = (): void => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void flush(), debounceMs);
+  };
+
+  const watcher = fs.watch(rootDir, { recursive: true }, (_event, fileName) => {
+    if (!fileName) return;
+    const relativePath = fileName.toString();
+    if (relativePath.split(/[\\/]/).some((segment) => IGNORED_SEGMENTS.has(segment))) return;
+
+    pending.add(path.join(rootDir, relativePath));
+    schedule();
+  });
+
+  return {
+    close(): void {
+      if (timer) clearTimeout(timer);
+      watcher.close();
+    },
+  };
+}
+
+/**
+ * Resolves once the user stops the process with Ctrl+C, so watch modes can clean up.
+ */
+export function waitForInterrupt(): Promise<void> {
+  return new Promise((resolve) => {
+    process.once('SIGINT', () => resolve());
+  });
+}
@@ -1,4 +1,7 @@
-import { execSync } from 'child_process';
+import { execFileSync, execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { logger } from './debug-logger';
 import { HandledError } from './errors';
 
@@ -67,22 +70,6 @@ export function getDefaultBranch(projectRoot: string): string {
   }
 }
 
-/**
- * 检查工作区是否干净（没有未提交的更改）
- */
-export function isWorkingDirectoryClean(projectRoot: string): boolean {
-  try {
-    const output = execSync('git status --porcelain', {
-      cwd: projectRoot,
-      encoding: 'utf8',
-    }).trim();
-    return output === '';
-  } catch (error) {
-    logger.warn(`检查工作区状态失败: ${(error as Error).message}`);
-    return false;
-  }
-}
-
 /**
  * 获取当前分支名
  */
@@ -113,79 +100,70 @@ export function branchOrCommitExists(projectRoot: string, ref: string): boolean
 }
 
 /**
- * 切换到指定分支或提交
+ * 获取 Git 仓库（工作树）的根目录
  */
-function checkoutBranch(projectRoot: string, ref: string): void {
+export function getRepositoryRoot(cwd: string): string {
   try {
-    logger.info(`正在切换到: ${ref}`);
-    execSync(`git checkout ${ref}`, {
-      cwd: projectRoot,
-      stdio: 'inherit',
-    });
+    return execSync('git rev-parse --show-toplevel', { cwd, encoding: 'utf8' }).trim();
   } catch (error) {
-    throw new HandledError(`切换分支失败: ${(error as Error).message}`);
+    throw new HandledError(`获取 Git 仓库根目录失败: ${(error as Error).message}`);
   }
 }
 
 /**
- * Git 切换管理器，用于安全地切换分支并在完成后恢复
+ * 在临时目录中以 detached HEAD 的方式检出指定分支或提交，不影响用户当前的工作区。
+ * 返回临时工作树的路径，使用完毕后需调用 removeWorktree 删除。
  */
-export class GitSwitchManager {
-  private projectRoot: string;
-  private originalBranch: string;
-  private currentBranchName: string; // Tracks the branch currently checked out by the manager
-  private hasSwitched: boolean = false;
-
-  constructor(projectRoot: string) {
-    this.projectRoot = projectRoot;
-    this.originalBranch = getCurrentBranch(projectRoot);
-    this.currentBranchName = this.originalBranch;
+export function createWorktree(repoRoot: string, ref: string): string {
+  if (!branchOrCommitExists(repoRoot, ref)) {
+    throw new HandledError(`分支或提交 '${ref}' 不存在`);
   }
 
-  /**
-   * 获取原始分支名
-   */
-  getOriginalBranch(): string {
-    return this.originalBranch;
-  }
-
-  /**
-   * 获取当前 GitSwitchManager 检出的分支名
-   */
-  getCurrentBranch(): string {
-    return this.currentBranchName;
+  const worktreePath = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-worktree-'));
+  try {
+    logger.debug(`正在为 ${ref} 创建临时工作树: ${worktreePath}`);
+    execFileSync('git', ['worktree', 'add', '--detach', worktreePath, ref], {
+      cwd: repoRoot,
+      stdio: 'ignore',
+    });
+    return worktreePath;
+  } catch (error) {
+    fs.rmSync(worktreePath, { recursive: true, force: true });
+    throw new HandledError(`为 '${ref}' 创建临时工作树失败: ${(error as Error).message}`);
   }
+}
 
-  /**
-   * 切换到目标分支或提交
-   */
-  switchTo(target: string): void {
-    if (
-      target === this.currentBranchName ||
-      (target === 'HEAD' && this.currentBranchName === this.originalBranch && !this.hasSwitched)
-    ) {
-      logger.info(`目标 ${target} 与当前分支 ${this.currentBranchName} 相同，无需切换`);
-      return;
-    }
-
-    if (!branchOrCommitExists(this.projectRoot, target)) {
-      throw new HandledError(`分支或提交 '${target}' 不存在`);
-    }
-
-    checkoutBranch(this.projectRoot, target);
-    this.currentBranchName = target; // Update current branch after successful checkout
-    this.hasSwitched = true;
+/**
+ * 列出工作区中被 Git 忽略的目录，路径相对仓库根目录，不含末尾的 /
+ */
+export function listIgnoredDirectories(repoRoot: string): string[] {
+  try {
+    const output = execFileSync(
+      'git',
+      ['ls-files', '-z', '--others', '--ignored', '--exclude-standard', '--directory'],
+      { cwd: repoRoot, encoding: 'utf8' },
+    );
+    return output
+      .split('\0')
+      .filter((entry) => entry.endsWith('/'))
+      .map((entry) => entry.slice(0, -1));
+  } catch (error) {
+    logger.debug(`获取被忽略的目录失败: ${(error as Error).message}`);
+    return [];
   }
+}
 
-  /**
-   * 恢复到原始分支
-   */
-  restore(): void {
-    if (this.hasSwitched && this.currentBranchName !== this.originalBranch) {
-      logger.info(`恢复到原始分支: ${this.originalBranch}`);
-      checkoutBranch(this.projectRoot, this.originalBranch);
-      this.currentBranchName = this.originalBranch;
-      this.hasSwitched = false; // Reset switch status after restoring
-    }
+/**
+ * 删除由 createWorktree 创建的临时工作树。失败时仅记录警告，残留的目录可用 `git worktree prune` 清理。
+ */
+export function removeWorktree(repoRoot: string, worktreePath: string): void {
+  try {
+    execFileSync('git', ['worktree', 'remove', '--force', worktreePath], {
+      cwd: repoRoot,
+      stdio: 'ignore',
+    });
+  } catch (error) {
+    logger.warn(`删除临时工作树 ${worktreePath} 失败: ${(error as Error).message}`);
+    fs.rmSync(worktreePath, { recursive: true, force: true });
   }
 }
@@ -0,0 +1,42 @@
+import * as path from 'path';
+
+/** Directory the devtools "build npm" step writes packages to */
+export const MINIPROGRAM_NPM_DIR = 'miniprogram_npm';
+
+export interface NpmPackageLocation {
+  /** Package name, including the scope for scoped packages */
+  name: string;
+  /** Absolute path of the package directory inside miniprogram_npm */
+  root: string;
+}
+
+/**
+ * Returns the package name of a bare specifier: 'dayjs/plugin/utc' -> 'dayjs',
+ * '@vant/weapp/button/index' -> '@vant/weapp'.
+ */
+export function getNpmPackageName(specifier: string): string {
+  const segments = specifier.split('/');
+  return specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+}
+
+/**
+ * Finds the npm package a file belongs to, if it lives in a miniprogram_npm directory.
+ */
+export function findNpmPackageOf(filePath: string): NpmPackageLocation | null {
+  const segments = filePath.split(path.sep);
+  const npmIndex = segments.lastIndexOf(MINIPROGRAM_NPM_DIR);
+  if (npmIndex === -1) {
+    return null;
+  }
+
+  const nameLength = segments[npmIndex + 1]?.startsWith('@') ? 2 : 1;
+  // The package directory has to contain the file, not be the file itself
+  if (npmIndex + nameLength >= segments.length - 1) {
+    return null;
+  }
+  const nameSegments = segments.slice(npmIndex + 1, npmIndex + 1 + nameLength);
+  return {
+    name: nameSegments.join('/'),
+    root: segments.slice(0, npmIndex + 1 + nameLength).join(path.sep),
+  };
+}
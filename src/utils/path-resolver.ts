@@ -2,7 +2,9 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { AnalyzerOptions } from '../types/command-options';
 import { logger } from './debug-logger';
+import { getExtendedLibName } from './extended-libs';
 import { SupportedFileType } from './filetypes';
+import { getNpmPackageName, MINIPROGRAM_NPM_DIR } from './miniprogram-npm';
 
 export interface ResolvedPath {
   filePath: string;
@@ -12,6 +14,8 @@ export interface ResolvedPath {
 export class PathResolver {
   private projectRoot: string;
   private options: AnalyzerOptions;
+  // Candidate paths looked for and not found, collected while recordMissingPaths runs
+  private missingPaths: Set<string> | null = null;
 
   constructor(projectRoot: string, options: AnalyzerOptions) {
     this.projectRoot = projectRoot;
@@ -49,14 +53,17 @@ export class PathResolver {
     );
 
     // Rule 0: Handle data URIs and remote URLs
-    if (/^data:/.test(importPath) || /^(http|https|\/\/):/.test(importPath)) {
+    if (this.isDataOrRemoteUrl(importPath)) {
       logger.trace(`Skipping resolution for data URI or remote URL: ${importPath}`);
       return null;
     }
 
     if (this.isNpmPackageImport(importPath)) {
-      logger.trace(`Skipping resolution for npm package import: ${importPath}`);
-      return null;
+      const npmResolved = this.resolveNpmImport(importPath, sourcePath, allowedExtensions);
+      if (!npmResolved) {
+        logger.trace(`npm package import not found in miniprogram_npm: ${importPath}`);
+      }
+      return npmResolved;
     }
 
     if (path.isAbsolute(importPath)) {
@@ -119,6 +126,99 @@ export class PathResolver {
     return null;
   }
 
+  /**
+   * Runs a synchronous resolution and returns the candidate paths it looked for that do not
+   * exist. The same imports keep resolving the same way until one of those paths is created.
+   */
+  public recordMissingPaths<T>(resolve: () => T): { result: T; missingPaths: string[] } {
+    const previous = this.missingPaths;
+    this.missingPaths = new Set();
+    try {
+      const result = resolve();
+      return { result, missingPaths: Array.from(this.missingPaths) };
+    } finally {
+      this.missingPaths = previous;
+    }
+  }
+
+  /**
+   * Tells why `resolveAnyPathWithMetadata` returned null for an import: 'skipped' for data URIs,
+   * remote URLs and packages of an enabled `useExtendedLib` library, which are never resolved on
+   * the file system, 'npm' for a package missing from miniprogram_npm, 'alias' when a configured
+   * alias points to a missing file, 'path' when any other path points to a missing file.
+   */
+  public classifyUnresolvedImport(importPath: string): 'skipped' | 'npm' | 'alias' | 'path' {
+    if (this.isDataOrRemoteUrl(importPath) || this.getEnabledExtendedLib(importPath)) {
+      return 'skipped';
+    }
+    if (this.isNpmPackageImport(importPath)) {
+      return 'npm';
+    }
+    return this.resolveAlias(importPath) ? 'alias' : 'path';
+  }
+
+  /**
+   * Resolves a bare specifier the way the output of the devtools "build npm" step is looked up:
+   * in the miniprogram_npm directory next to the source file or in any parent directory up to
+   * the miniapp root, then in the miniprogram_npm directories configured in project.config.json.
+   * A package without an index file is entered through the `main` field of its package.json.
+   */
+  private resolveNpmImport(
+    importPath: string,
+    sourcePath: string,
+    allowedExtensions: readonly SupportedFileType[],
+  ): ResolvedPath | null {
+    const packageName = getNpmPackageName(importPath);
+    for (const npmDir of this.getMiniprogramNpmDirs(sourcePath)) {
+      const packageRoot = path.join(npmDir, packageName);
+      if (!this.statPath(packageRoot)) continue;
+
+      const existingPath =
+        this.findExistingPath(path.join(npmDir, importPath), allowedExtensions) ??
+        (importPath === packageName ? this.findPackageMain(packageRoot, allowedExtensions) : null);
+      if (existingPath) {
+        logger.trace(`Resolved npm import '${importPath}' to ${existingPath}`);
+        return this.toResolvedPath(existingPath);
+      }
+    }
+    return null;
+  }
+
+  private getMiniprogramNpmDirs(sourcePath: string): string[] {
+    const miniappRoot = this.options.miniappRoot || this.projectRoot;
+    const npmDirs: string[] = [];
+    let currentDir = path.dirname(sourcePath);
+    // Walk up from the source file, but never past the miniapp root
+    while (!path.relative(miniappRoot, currentDir).startsWith('..')) {
+      npmDirs.push(path.join(currentDir, MINIPROGRAM_NPM_DIR));
+      const parentDir = path.dirname(currentDir);
+      if (parentDir === currentDir) break;
+      currentDir = parentDir;
+    }
+    npmDirs.push(path.join(miniappRoot, MINIPROGRAM_NPM_DIR));
+    return Array.from(new Set([...npmDirs, ...(this.options.miniprogramNpmDirs ?? [])]));
+  }
+
+  private findPackageMain(
+    packageRoot: string,
+    allowedExtensions: readonly SupportedFileType[],
+  ): string | null {
+    const packageJsonPath = path.join(packageRoot, 'package.json');
+    if (!this.statPath(packageJsonPath)) return null;
+    try {
+      const { main } = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+      return typeof main === 'string'
+        ? this.findExistingPath(path.join(packageRoot, main), allowedExtensions)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private isDataOrRemoteUrl(importPath: string): boolean {
+    return /^(data:|https?:\/\/|\/\/)/.test(importPath);
+  }
+
   private toResolvedPath(filePath: string): ResolvedPath {
     const baseName = path.basename(filePath);
     const dirName = path.dirname(filePath);
@@ -147,16 +247,14 @@ export class PathResolver {
     );
 
     let potentialPathIsDir = false;
-    try {
-      const stats = fs.statSync(potentialPath);
-      if (stats.isFile()) {
-        logger.trace(`Check 1: Exact path exists and is a file: ${potentialPath}`);
-        return potentialPath; // Exact match and is a file
-      } else if (stats.isDirectory()) {
-        logger.trace(`Check 1: Exact path exists and is a directory: ${potentialPath}`);
-        potentialPathIsDir = true; // It's a directory, continue to check index files
-      }
-    } catch (e: unknown) {
+    const stats = this.statPath(potentialPath);
+    if (stats?.isFile()) {
+      logger.trace(`Check 1: Exact path exists and is a file: ${potentialPath}`);
+      return potentialPath; // Exact match and is a file
+    } else if (stats?.isDirectory()) {
+      logger.trace(`Check 1: Exact path exists and is a directory: ${potentialPath}`);
+      potentialPathIsDir = true; // It's a directory, continue to check index files
+    } else {
       logger.trace(`Check 1: Exact path does not exist: ${potentialPath}`);
     }
 
@@ -166,17 +264,11 @@ export class PathResolver {
       for (const ext of allowedExtensions) {
         const pathWithExt = potentialPath + '.' + ext;
         logger.trace(`Check 2a: Checking path with extension: ${pathWithExt}`);
-        try {
-          const stats = fs.statSync(pathWithExt);
-          if (stats.isFile()) {
-            logger.trace(`Check 2b: Found file with extension: ${pathWithExt}`);
-            return pathWithExt;
-          } else {
-            logger.trace(`Check 2b: Path with extension not found or not a file: ${pathWithExt}`);
-          }
-        } catch (e: unknown) {
-          logger.trace(`Check 2b: Error stating path ${pathWithExt}: ${(e as Error).message}`);
+        if (this.statPath(pathWithExt)?.isFile()) {
+          logger.trace(`Check 2b: Found file with extension: ${pathWithExt}`);
+          return pathWithExt;
         }
+        logger.trace(`Check 2b: Path with extension not found or not a file: ${pathWithExt}`);
       }
     }
 
@@ -185,25 +277,29 @@ export class PathResolver {
     for (const ext of allowedExtensions) {
       const indexFilePath = path.join(potentialPath, 'index.' + ext);
       logger.trace(`Check 3a: Checking index file: ${indexFilePath}`);
-      try {
-        const stats = fs.statSync(indexFilePath);
-        if (stats.isFile()) {
-          logger.trace(`Check 3b: Found index file: ${indexFilePath}`);
-          return indexFilePath;
-        } else {
-          logger.trace(`Check 3b: Index file not found or not a file: ${indexFilePath}`);
-        }
-      } catch (e: unknown) {
-        logger.trace(
-          `Check 3b: Error stating index file ${indexFilePath}: ${(e as Error).message}`,
-        );
+      if (this.statPath(indexFilePath)?.isFile()) {
+        logger.trace(`Check 3b: Found index file: ${indexFilePath}`);
+        return indexFilePath;
       }
+      logger.trace(`Check 3b: Index file not found or not a file: ${indexFilePath}`);
     }
 
     logger.trace(`Failed to find existing path for: ${potentialPath}`);
     return null; // Nothing found
   }
 
+  /**
+   * Stats a candidate path, returning null when it does not exist.
+   */
+  private statPath(candidatePath: string): fs.Stats | null {
+    try {
+      return fs.statSync(candidatePath);
+    } catch {
+      this.missingPaths?.add(candidatePath);
+      return null;
+    }
+  }
+
   /**
    * Check if the import path looks like an alias based on the loaded configuration.
    */
@@ -240,10 +336,10 @@ export class PathResolver {
   }
 
   /**
-   * Check if the import path looks like an npm package that we shouldn't try to resolve
-   * on the file system or with aliases.
+   * Check if the import path is a bare specifier of an npm package, which is looked up in
+   * miniprogram_npm instead of relative to the source file or with aliases.
    */
-  private isNpmPackageImport(importPath: string): boolean {
+  public isNpmPackageImport(importPath: string): boolean {
     // First check: if it's an absolute path, it's definitely not an npm package
     if (path.isAbsolute(importPath)) {
       return false;
@@ -287,6 +383,17 @@ export class PathResolver {
     return false; // Default to false if none of the above conditions met (e.g. relative paths)
   }
 
+  /**
+   * Returns the library of a bare specifier provided by `useExtendedLib` when app.json enables
+   * that library (`weui-miniprogram/dialog/dialog` -> 'weui'), otherwise null.
+   */
+  public getEnabledExtendedLib(importPath: string): string | null {
+    const libName = getExtendedLibName(importPath);
+    return libName && this.options.appJsonContent?.useExtendedLib?.[libName] === true
+      ? libName
+      : null;
+  }
+
   private getAliases(): { [key: string]: string | string[] } | null {
     return this.options.aliases || null;
   }
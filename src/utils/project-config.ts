@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as glob from 'glob';
+import * as path from 'path';
+import { logger } from './debug-logger';
+import { MINIPROGRAM_NPM_DIR } from './miniprogram-npm';
+
+export const PROJECT_CONFIG_FILE = 'project.config.json';
+export const PROJECT_PRIVATE_CONFIG_FILE = 'project.private.config.json';
+
+/** A `packOptions.ignore` / `packOptions.include` entry */
+export interface PackOptionsRule {
+  type: 'file' | 'folder' | 'suffix' | 'prefix' | 'glob' | 'regexp';
+  /** Path relative to the mini-program root for file/folder/glob, otherwise the pattern itself */
+  value: string;
+}
+
+export interface PackOptions {
+  /** Files the devtools leave out of the uploaded package */
+  ignore: PackOptionsRule[];
+  /** Files packed even when an ignore rule matches them */
+  include: PackOptionsRule[];
+}
+
+/**
+ * The settings of project.config.json mp-lens uses, with project.private.config.json applied.
+ * Directories are absolute paths.
+ */
+export interface ProjectConfig {
+  miniprogramRoot?: string;
+  /** Source directory of projects compiled by the devtools (TypeScript, Less, ...) */
+  srcMiniprogramRoot?: string;
+  cloudfunctionRoot?: string;
+  packOptions: PackOptions;
+  /** miniprogram_npm directories the devtools build npm into */
+  miniprogramNpmDirs: string[];
+}
+
+/** The fields read from project.config.json / project.private.config.json, as written */
+interface RawProjectConfig {
+  miniprogramRoot?: unknown;
+  srcMiniprogramRoot?: unknown;
+  cloudfunctionRoot?: unknown;
+  packOptions?: { ignore?: unknown; include?: unknown };
+  setting?: {
+    packNpmManually?: boolean;
+    packNpmRelationList?: Array<{ miniprogramNpmDistDir?: unknown }>;
+  };
+}
+
+const PACK_RULE_TYPES = new Set<string>(['file', 'folder', 'suffix', 'prefix', 'glob', 'regexp']);
+
+function readConfigFile(configPath: string): RawProjectConfig | null {
+  if (!fs.existsSync(configPath)) {
+    return null;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    logger.warn(`无法解析 ${configPath}: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+function toPackRules(rules: unknown): PackOptionsRule[] {
+  if (!Array.isArray(rules)) {
+    return [];
+  }
+  return rules.filter(
+    (rule): rule is PackOptionsRule =>
+      PACK_RULE_TYPES.has(rule?.type) && typeof rule.value === 'string' && rule.value !== '',
+  );
+}
+
+/**
+ * The devtools build npm into the miniprogram_npm under `miniprogramRoot`, and with
+ * `setting.packNpmManually` into every `packNpmRelationList[].miniprogramNpmDistDir`.
+ */
+function findMiniprogramNpmDirs(config: RawProjectConfig, projectRoot: string): string[] {
+  const distDirs: string[] = [];
+  if (typeof config.miniprogramRoot === 'string') {
+    distDirs.push(config.miniprogramRoot);
+  }
+  const relations = config.setting?.packNpmManually
+    ? config.setting.packNpmRelationList
+    : undefined;
+  if (Array.isArray(relations)) {
+    for (const relation of relations) {
+      if (typeof relation?.miniprogramNpmDistDir === 'string') {
+        distDirs.push(relation.miniprogramNpmDistDir);
+      }
+    }
+  }
+  return distDirs.map((distDir) => path.resolve(projectRoot, distDir, MINIPROGRAM_NPM_DIR));
+}
+
+/**
+ * Reads project.config.json from the project root. Fields of project.private.config.json take
+ * precedence, the same way the devtools apply them; `setting` is merged field by field.
+ * Returns null when the project has neither file.
+ */
+export function loadProjectConfig(projectRoot: string): ProjectConfig | null {
+  const sharedConfig = readConfigFile(path.join(projectRoot, PROJECT_CONFIG_FILE));
+  const privateConfig = readConfigFile(path.join(projectRoot, PROJECT_PRIVATE_CONFIG_FILE));
+  if (!sharedConfig && !privateConfig) {
+    return null;
+  }
+
+  const config: RawProjectConfig = {
+    ...sharedConfig,
+    ...privateConfig,
+    setting: { ...sharedConfig?.setting, ...privateConfig?.setting },
+  };
+  const resolveDir = (dir: unknown): string | undefined =>
+    typeof dir === 'string' && dir.trim() !== '' ? path.resolve(projectRoot, dir) : undefined;
+
+  return {
+    miniprogramRoot: resolveDir(config.miniprogramRoot),
+    srcMiniprogramRoot: resolveDir(config.srcMiniprogramRoot),
+    cloudfunctionRoot: resolveDir(config.cloudfunctionRoot),
+    packOptions: {
+      ignore: toPackRules(config.packOptions?.ignore),
+      include: toPackRules(config.packOptions?.include),
+    },
+    miniprogramNpmDirs: findMiniprogramNpmDirs(config, projectRoot),
+  };
+}
+
+function trimSlashes(value: string): string {
+  return value
+    .replace(/\\/g, '/')
+    .replace(/^\.?\//, '')
+    .replace(/\/+$/, '');
+}
+
+function createRuleMatcher(
+  rules: PackOptionsRule[],
+  miniappRoot: string,
+): (relativePath: string) => boolean {
+  const globMatches = new Set<string>();
+  const predicates: Array<(relativePath: string) => boolean> = [];
+
+  for (const rule of rules) {
+    switch (rule.type) {
+      case 'file': {
+        const file = trimSlashes(rule.value);
+        predicates.push((relativePath) => relativePath === file);
+        break;
+      }
+      case 'folder': {
+        const folder = trimSlashes(rule.value);
+        predicates.push((relativePath) => relativePath.startsWith(`${folder}/`));
+        break;
+      }
+      case 'suffix':
+        predicates.push((relativePath) => relativePath.endsWith(rule.value));
+        break;
+      case 'prefix':
+        predicates.push((relativePath) => path.posix.basename(relativePath).startsWith(rule.value));
+        break;
+      case 'glob':
+        for (const match of glob.sync(trimSlashes(rule.value), {
+          cwd: miniappRoot,
+          nodir: true,
+          dot: true,
+          posix: true,
+        })) {
+          globMatches.add(match);
+        }
+        break;
+      case 'regexp':
+        try {
+          const pattern = new RegExp(rule.value);
+          predicates.push((relativePath) => pattern.test(relativePath));
+        } catch (error) {
+          logger.warn(
+            `packOptions 中的正则表达式无效: ${rule.value} (${(error as Error).message})`,
+          );
+        }
+        break;
+    }
+  }
+
+  return (relativePath) =>
+    globMatches.has(relativePath) || predicates.some((predicate) => predicate(relativePath));
+}
+
+/**
+ * Builds a predicate telling whether the devtools leave a file out of the uploaded package:
+ * a `packOptions.ignore` rule matches it and no `packOptions.include` rule does.
+ * Rule paths are relative to the mini-program root; files outside it never match.
+ */
+export function createPackIgnoreMatcher(
+  packOptions: PackOptions | undefined,
+  miniappRoot: string,
+): (filePath: string) => boolean {
+  if (!packOptions || packOptions.ignore.length === 0) {
+    return () => false;
+  }
+  const isIgnored = createRuleMatcher(packOptions.ignore, miniappRoot);
+  const isIncluded = createRuleMatcher(packOptions.include, miniappRoot);
+
+  return (filePath) => {
+    const relativePath = path.relative(miniappRoot, filePath).split(path.sep).join('/');
+    if (relativePath.startsWith('../') || path.isAbsolute(relativePath)) {
+      return false;
+    }
+    return isIgnored(relativePath) && !isIncluded(relativePath);
+  };
+}
@@ -0,0 +1,34 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './debug-logger';
+
+/**
+ * Moves log output to stderr when a machine-readable report is going to be printed to stdout,
+ * so that `mp-lens lint --format sarif > report.sarif` leaves a file other tools can parse.
+ * Call it before the command logs anything.
+ */
+export function prepareReportOutput(format: string, outputPath?: string): void {
+  if (format !== 'text' && !outputPath) {
+    logger.setOptions({ useStderr: true });
+  }
+}
+
+/**
+ * Prints a report to stdout, or writes it to `outputPath` (relative to the working directory).
+ * Once `prepareReportOutput` has moved the logs to stderr, this is the only writer to stdout.
+ * `reportName` names the report in the confirmation message, e.g. '检查结果'.
+ */
+export function writeReport(
+  content: string,
+  outputPath: string | undefined,
+  reportName: string,
+): void {
+  if (!outputPath) {
+    console.log(content);
+    return;
+  }
+  const absolutePath = path.resolve(process.cwd(), outputPath);
+  fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+  fs.writeFileSync(absolutePath, content);
+  logger.info(`✅ ${reportName}已保存至: ${absolutePath}`);
+}
@@ -2,6 +2,7 @@ import chalk from 'chalk';
 import execa from 'execa';
 import semver from 'semver';
 import { version } from '../version';
+import { logger } from './debug-logger';
 
 const PACKAGE_NAME = 'mp-lens';
 const CHECK_TIMEOUT_MS = 4000;
@@ -9,7 +10,7 @@ const CHECK_TIMEOUT_MS = 4000;
 export async function checkForUpdates(): Promise<string | null> {
   try {
     if (version === 'unknown') {
-      console.debug('当前版本未知，跳过版本检查');
+      logger.debug('当前版本未知，跳过版本检查');
       return null;
     }
 
@@ -28,7 +29,7 @@ export async function checkForUpdates(): Promise<string | null> {
       ].join('\n');
     }
   } catch (error) {
-    console.debug('版本检查失败：', error);
+    logger.debug(`版本检查失败：${(error as Error).message}`);
     return null;
   }
   return null;
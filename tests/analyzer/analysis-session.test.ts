@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createAnalysisSession } from '../../src/analyzer/analyzer';
+import { AnalyzerOptions } from '../../src/types/command-options';
+
+function createFixture(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-session-'));
+  for (const [relativePath, content] of Object.entries(files)) {
+    const absolutePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, content);
+  }
+  return root;
+}
+
+describe('createAnalysisSession', () => {
+  let root: string;
+  let options: AnalyzerOptions;
+
+  beforeEach(() => {
+    const appJson = { pages: ['pages/index/index'] };
+    root = createFixture({
+      'app.json': JSON.stringify(appJson),
+      'app.js': '',
+      'pages/index/index.js': "require('../../utils/a');\n",
+      'pages/index/index.json': JSON.stringify({ usingComponents: {} }),
+      'pages/index/index.wxml': '<view />',
+      'utils/a.js': '',
+      'utils/b.js': '',
+      'components/card/card.json': JSON.stringify({ component: true }),
+      'components/card/card.js': '',
+    });
+    options = {
+      miniappRoot: root,
+      appJsonPath: path.join(root, 'app.json'),
+      appJsonContent: appJson,
+      cache: false,
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const file = (relativePath: string) => path.join(root, relativePath);
+
+  it('re-parses changed files and recomputes reachability', async () => {
+    const session = await createAnalysisSession(root, options);
+    expect(session.result.unusedFiles).toContain(file('utils/b.js'));
+
+    fs.writeFileSync(file('pages/index/index.js'), "require('../../utils/b');\n");
+    const result = await session.update([file('pages/index/index.js')]);
+
+    expect(result.reachableNodeIds.has(file('utils/b.js'))).toBe(true);
+    expect(result.unusedFiles).toContain(file('utils/a.js'));
+    expect(result.unusedFiles).not.toContain(file('utils/b.js'));
+  });
+
+  it('adds new files, drops deleted ones and follows usingComponents changes', async () => {
+    const session = await createAnalysisSession(root, options);
+
+    fs.writeFileSync(file('utils/c.js'), '');
+    fs.writeFileSync(file('utils/a.js'), "require('./c');\n");
+    fs.unlinkSync(file('utils/b.js'));
+    fs.writeFileSync(
+      file('pages/index/index.json'),
+      JSON.stringify({ usingComponents: { card: '/components/card/card' } }),
+    );
+    const result = await session.update([
+      file('utils/c.js'),
+      file('utils/a.js'),
+      file('utils/b.js'),
+      file('pages/index/index.json'),
+    ]);
+
+    const nodeIds = result.projectStructure.nodes.map((node) => node.id);
+    expect(nodeIds).not.toContain(file('utils/b.js'));
+    expect(result.reachableNodeIds.has(file('utils/c.js'))).toBe(true);
+    expect(result.reachableNodeIds.has(file('components/card/card.js'))).toBe(true);
+    expect(result.unusedFiles).toEqual([]);
+  });
+
+  it('ignores changes to files the analysis does not scan', async () => {
+    const session = await createAnalysisSession(root, options);
+    fs.writeFileSync(file('README.md'), '# docs');
+
+    await expect(session.update([file('README.md')])).resolves.toBe(session.result);
+  });
+});
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { analyzeProject } from '../../src/analyzer/analyzer';
+import { findCrossPackageReferences } from '../../src/analyzer/cross-package-references';
+import { MiniProgramAppJson } from '../../src/types/miniprogram';
+
+function createFixture(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-cross-pkg-'));
+  for (const [relativePath, content] of Object.entries(files)) {
+    const absolutePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, content);
+  }
+  return root;
+}
+
+async function analyze(root: string, appJson: MiniProgramAppJson) {
+  fs.writeFileSync(path.join(root, 'app.json'), JSON.stringify(appJson));
+  const { projectStructure } = await analyzeProject(root, {
+    miniappRoot: root,
+    appJsonPath: path.join(root, 'app.json'),
+    appJsonContent: appJson,
+  });
+  return findCrossPackageReferences(projectStructure);
+}
+
+describe('findCrossPackageReferences', () => {
+  let root: string;
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('flags imports and components from one subpackage into another', async () => {
+    root = createFixture({
+      'app.js': '',
+      'pages/index/index.js': '',
+      'packageA/pages/a/a.js': "require('../../../packageB/utils/helper');\n",
+      'packageA/pages/a/a.json': JSON.stringify({
+        usingComponents: { card: '/packageB/components/card/card' },
+      }),
+      'packageB/pages/b/b.js': '',
+      'packageB/utils/helper.js': '',
+      'packageB/components/card/card.json': JSON.stringify({ component: true }),
+      'packageB/components/card/card.js': '',
+    });
+
+    const references = await analyze(root, {
+      pages: ['pages/index/index'],
+      subPackages: [
+        { root: 'packageA', pages: ['pages/a/a'] },
+        { root: 'packageB', pages: ['pages/b/b'] },
+      ],
+    });
+
+    expect(references.map((ref) => [ref.reason, ref.target])).toEqual(
+      expect.arrayContaining([
+        ['subpackage-to-subpackage', path.join(root, 'packageB/utils/helper.js')],
+        ['subpackage-to-subpackage', 'comp:packageB/components/card/card'],
+      ]),
+    );
+    expect(references.every((ref) => ref.sourcePackage.label === 'packageA')).toBe(true);
+  });
+
+  it('flags main package references into a subpackage but allows the reverse', async () => {
+    root = createFixture({
+      'app.js': '',
+      'pages/index/index.js': "require('../../packageA/utils/only-in-a');\n",
+      'utils/shared.js': '',
+      'packageA/pages/a/a.js': "require('../../../utils/shared');\n",
+      'packageA/utils/only-in-a.js': '',
+    });
+
+    const references = await analyze(root, {
+      pages: ['pages/index/index'],
+      subPackages: [{ root: 'packageA', pages: ['pages/a/a'] }],
+    });
+
+    expect(references).toHaveLength(1);
+    expect(references[0].reason).toBe('main-to-subpackage');
+    expect(references[0].source).toBe(path.join(root, 'pages/index/index.js'));
+  });
+
+  it('does not let independent subpackages reference the main package', async () => {
+    root = createFixture({
+      'app.js': '',
+      'pages/index/index.js': '',
+      'utils/shared.js': '',
+      'moduleA/pages/a/a.js': "require('../../../utils/shared');\nrequire('../../local');\n",
+      'moduleA/local.js': '',
+    });
+
+    const references = await analyze(root, {
+      pages: ['pages/index/index'],
+      subPackages: [{ root: 'moduleA', pages: ['pages/a/a'], independent: true }],
+    });
+
+    expect(references).toHaveLength(1);
+    expect(references[0].reason).toBe('independent-to-outside');
+    expect(references[0].target).toBe(path.join(root, 'utils/shared.js'));
+  });
+
+  it('allows require.async and components with a componentPlaceholder across subpackages', async () => {
+    root = createFixture({
+      'app.js': '',
+      'pages/index/index.js': "require.async('../../packageB/utils/helper');\n",
+      'packageA/pages/a/a.json': JSON.stringify({
+        usingComponents: { card: '/packageB/components/card/card' },
+        componentPlaceholder: { card: 'view' },
+      }),
+      'packageA/pages/a/a.js': '',
+      'packageB/pages/b/b.js': '',
+      'packageB/utils/helper.js': '',
+      'packageB/components/card/card.json': JSON.stringify({ component: true }),
+      'packageB/components/card/card.js': '',
+    });
+
+    const references = await analyze(root, {
+      pages: ['pages/index/index'],
+      subPackages: [
+        { root: 'packageA', pages: ['pages/a/a'] },
+        { root: 'packageB', pages: ['pages/b/b'] },
+      ],
+    });
+
+    expect(references).toEqual([]);
+  });
+});
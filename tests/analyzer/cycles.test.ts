@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { analyzeProject } from '../../src/analyzer/analyzer';
+import { findDependencyCycles, markCycleLinks } from '../../src/analyzer/cycles';
+import { MiniProgramAppJson } from '../../src/types/miniprogram';
+
+function createFixture(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-cycles-'));
+  for (const [relativePath, content] of Object.entries(files)) {
+    const absolutePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, content);
+  }
+  return root;
+}
+
+async function analyze(root: string, appJson: MiniProgramAppJson) {
+  fs.writeFileSync(path.join(root, 'app.json'), JSON.stringify(appJson));
+  const { projectStructure } = await analyzeProject(root, {
+    miniappRoot: root,
+    appJsonPath: path.join(root, 'app.json'),
+    appJsonContent: appJson,
+  });
+  return projectStructure;
+}
+
+describe('findDependencyCycles', () => {
+  let root: string;
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('finds import, template and component cycles', async () => {
+    root = createFixture({
+      'pages/index/index.js': "require('../../utils/a');\n",
+      'pages/index/index.wxml': '<include src="/templates/header.wxml" />',
+      'pages/index/index.json': JSON.stringify({ usingComponents: { list: '/components/list' } }),
+      'utils/a.js': "require('./b');\n",
+      'utils/b.js': "require('./c');\n",
+      'utils/c.js': "require('./a');\n",
+      'templates/header.wxml': '<import src="./footer.wxml" />',
+      'templates/footer.wxml': '<include src="./header.wxml" />',
+      'components/list.json': JSON.stringify({ usingComponents: { item: './item' } }),
+      'components/item.json': JSON.stringify({ usingComponents: { list: './list' } }),
+    });
+
+    const cycles = findDependencyCycles(await analyze(root, { pages: ['pages/index/index'] }));
+
+    const importCycle = cycles.find((cycle) => cycle.kind === 'import')!;
+    expect(importCycle.path).toEqual(
+      ['utils/a.js', 'utils/b.js', 'utils/c.js'].map((file) => path.join(root, file)),
+    );
+    expect(importCycle.links).toHaveLength(3);
+
+    const templateCycle = cycles.find((cycle) => cycle.kind === 'template')!;
+    expect(templateCycle.nodeIds.sort()).toEqual(
+      ['templates/footer.wxml', 'templates/header.wxml'].map((file) => path.join(root, file)),
+    );
+
+    const componentCycle = cycles.find((cycle) => cycle.kind === 'component')!;
+    expect(componentCycle.path).toEqual(['comp:components/list', 'comp:components/item']);
+    expect(cycles).toHaveLength(3);
+  });
+
+  it('ignores self-recursive components and acyclic chains', async () => {
+    root = createFixture({
+      'pages/index/index.js': "require('../../utils/a');\n",
+      'pages/index/index.json': JSON.stringify({ usingComponents: { tree: '/components/tree' } }),
+      'utils/a.js': "require('./b');\n",
+      'utils/b.js': '',
+      'components/tree.json': JSON.stringify({ usingComponents: { tree: './tree' } }),
+    });
+
+    const structure = await analyze(root, { pages: ['pages/index/index'] });
+
+    expect(findDependencyCycles(structure)).toEqual([]);
+    expect(markCycleLinks(structure)).toBe(structure);
+  });
+
+  it('marks the links of every cycle for the graph UI', async () => {
+    root = createFixture({
+      'pages/index/index.js': "require('../../utils/a');\n",
+      'utils/a.js': "require('./b');\n",
+      'utils/b.js': "require('./a');\n",
+    });
+
+    const marked = markCycleLinks(await analyze(root, { pages: ['pages/index/index'] }));
+
+    const cycleLinks = marked.links.filter((link) => link.properties?.cycle === 'import');
+    expect(cycleLinks.map((link) => path.basename(link.source)).sort()).toEqual(['a.js', 'b.js']);
+  });
+});
@@ -47,6 +47,192 @@ describe('ProjectStructureBuilder behavior', () => {
     expect(result.unusedFiles).not.toContain(path.join(root, 'workers/helper.js'));
   });
 
+  it('parses every script under a workers directory as a separate entry tree', async () => {
+    const appJson = {
+      pages: ['pages/index/index'],
+      workers: { path: 'workers', isSubpackage: true },
+    };
+    const root = createFixture({
+      'app.json': JSON.stringify(appJson),
+      'app.js': '',
+      'pages/index/index.js': '',
+      'workers/request/index.js': "require('./parse');\n",
+      'workers/request/parse.js': '',
+      'workers/compress.js': '',
+      'workers/readme.md': '',
+    });
+
+    const result = await analyzeProject(root, optionsFor(root, appJson));
+    const { nodes, links } = result.projectStructure;
+
+    const workerNode = nodes.find((node) => node.type === 'Worker');
+    expect(workerNode).toMatchObject({
+      id: 'worker:workers',
+      label: 'workers',
+      properties: { root: path.join(root, 'workers'), isSubpackage: true },
+    });
+    expect(links).toContainEqual(
+      expect.objectContaining({ source: 'app', target: 'worker:workers', type: 'WorkerEntry' }),
+    );
+    for (const script of ['workers/request/index.js', 'workers/compress.js']) {
+      const scriptPath = path.join(root, script);
+      expect(links).toContainEqual(
+        expect.objectContaining({
+          source: 'worker:workers',
+          target: scriptPath,
+          type: 'Structure',
+        }),
+      );
+      expect(result.reachableNodeIds.has(scriptPath)).toBe(true);
+    }
+    expect(result.reachableNodeIds.has(path.join(root, 'workers/request/parse.js'))).toBe(true);
+    expect(result.reachableNodeIds.has(path.join(root, 'workers/readme.md'))).toBe(false);
+  });
+
+  it('links navigation calls and navigator tags to the pages they open', async () => {
+    const appJson = {
+      pages: ['pages/index/index', 'pages/detail/detail', 'pages/home/home'],
+      subPackages: [{ root: 'packageA', pages: ['pages/a/a'] }],
+      tabBar: { list: [{ pagePath: 'pages/home/home', text: '首页' }] },
+    };
+    const root = createFixture({
+      'app.json': JSON.stringify(appJson),
+      'app.js': '',
+      'pages/index/index.js': 'wx.navigateTo({ url: `/packageA/pages/a/a?id=${id}` });\n',
+      'pages/index/index.wxml': '<navigator url="../detail/detail">详情</navigator>\n',
+      'pages/detail/detail.js': "wx.redirectTo({ url: '/pages/missing/missing' });\n",
+      'pages/home/home.js': '',
+      'packageA/pages/a/a.js': '',
+    });
+
+    const result = await analyzeProject(root, optionsFor(root, appJson));
+    const { nodes, links } = result.projectStructure;
+
+    expect(links.filter((link) => link.type === 'Navigation')).toEqual([
+      {
+        source: path.join(root, 'pages/index/index.js'),
+        target: 'page:packageA/pages/a/a',
+        type: 'Navigation',
+        dependencyType: 'navigateTo',
+        properties: { sourceFile: path.join(root, 'pages/index/index.js'), line: 1, column: 22 },
+      },
+      {
+        source: path.join(root, 'pages/index/index.wxml'),
+        target: 'page:pages/detail/detail',
+        type: 'Navigation',
+        dependencyType: 'navigateTo',
+        properties: { sourceFile: path.join(root, 'pages/index/index.wxml'), line: 1, column: 12 },
+      },
+    ]);
+    const pageNode = (id: string) => nodes.find((node) => node.id === id);
+    expect(pageNode('page:pages/index/index')?.properties?.entry).toBe(true);
+    expect(pageNode('page:pages/home/home')?.properties?.tabBar).toBe(true);
+  });
+
+  it('links files matched by computed require paths as dynamic imports', async () => {
+    const appJson = { pages: ['pages/index/index'] };
+    const root = createFixture({
+      'app.json': JSON.stringify(appJson),
+      'app.js': '',
+      'pages/index/index.js':
+        "const messages = require(`../../locales/${lang}.js`);\nrequire('../../icons/' + name);\n",
+      'locales/en.js': '',
+      'locales/zh.js': "require('./common');\n",
+      'locales/common.js': '',
+      'locales/legacy.json': '{}',
+      'icons/home/index.js': '',
+    });
+
+    const result = await analyzeProject(root, optionsFor(root, appJson));
+    const indexPath = path.join(root, 'pages/index/index.js');
+
+    const dynamicLinks = result.projectStructure.links.filter(
+      (link) => link.dependencyType === 'dynamic',
+    );
+    expect(dynamicLinks.map((link) => link.target).sort()).toEqual(
+      ['icons/home/index.js', 'locales/common.js', 'locales/en.js', 'locales/zh.js'].map((file) =>
+        path.join(root, file),
+      ),
+    );
+    expect(dynamicLinks[0]).toMatchObject({
+      source: indexPath,
+      type: 'Import',
+      properties: { sourceFile: indexPath, line: 1, pattern: '../../locales/*.js' },
+    });
+    expect(result.unusedFiles).not.toContain(path.join(root, 'locales/zh.js'));
+    expect(result.unusedFiles).not.toContain(path.join(root, 'icons/home/index.js'));
+    expect(result.unusedFiles).toContain(path.join(root, 'locales/legacy.json'));
+  });
+
+  it('links components to the behavior modules they mix in', async () => {
+    const appJson = { pages: ['pages/index/index'] };
+    const root = createFixture({
+      'app.json': JSON.stringify(appJson),
+      'app.js': '',
+      'pages/index/index.json': JSON.stringify({ usingComponents: { card: '/components/card' } }),
+      'pages/index/index.js': '',
+      'components/card.json': JSON.stringify({ component: true }),
+      'components/card.js':
+        "const pager = require('../behaviors/pager');\nComponent({ behaviors: [pager, 'wx://form-field'] });\n",
+      'behaviors/pager.js': 'module.exports = Behavior({});\n',
+      'behaviors/unused.js': 'module.exports = Behavior({});\n',
+    });
+
+    const result = await analyzeProject(root, optionsFor(root, appJson));
+    const cardPath = path.join(root, 'components/card.js');
+    const pagerPath = path.join(root, 'behaviors/pager.js');
+
+    const behaviorLinks = result.projectStructure.links.filter((link) => link.type === 'Behavior');
+    expect(behaviorLinks).toEqual([
+      expect.objectContaining({
+        source: cardPath,
+        target: pagerPath,
+        properties: { sourceFile: cardPath, line: 1, column: 23 },
+      }),
+    ]);
+    const nodeById = (id: string) => result.projectStructure.nodes.find((node) => node.id === id);
+    expect(nodeById(cardPath)?.properties?.builtinBehaviors).toEqual(['wx://form-field']);
+    expect(nodeById(pagerPath)?.properties?.definesBehavior).toBe(true);
+    expect(result.unusedFiles).toContain(path.join(root, 'behaviors/unused.js'));
+  });
+
+  it('links require.async targets and placeholder components as async', async () => {
+    const appJson = { pages: ['pages/index/index'] };
+    const root = createFixture({
+      'app.json': JSON.stringify(appJson),
+      'app.js': '',
+      'pages/index/index.json': JSON.stringify({
+        usingComponents: { chart: '/components/chart', card: '/components/card' },
+        componentPlaceholder: { chart: 'view' },
+      }),
+      'pages/index/index.js': "require.async('../../utils/heavy');\n",
+      'components/chart.json': JSON.stringify({ component: true }),
+      'components/chart.js': '',
+      'components/card.json': JSON.stringify({ component: true }),
+      'components/card.js': '',
+      'utils/heavy.js': '',
+    });
+
+    const result = await analyzeProject(root, optionsFor(root, appJson));
+    const indexPath = path.join(root, 'pages/index/index.js');
+    const linkTypesTo = (target: string) =>
+      result.projectStructure.links
+        .filter((link) => link.target === target && link.source !== 'app')
+        .map((link) => link.type);
+
+    expect(linkTypesTo(path.join(root, 'utils/heavy.js'))).toEqual(['AsyncImport']);
+    expect(linkTypesTo('comp:components/chart')).toEqual(['AsyncComponent']);
+    expect(linkTypesTo('comp:components/card')).toEqual(['Structure']);
+    expect(result.projectStructure.links).toContainEqual(
+      expect.objectContaining({
+        source: indexPath,
+        type: 'AsyncImport',
+        properties: { sourceFile: indexPath, line: 1, column: 15 },
+      }),
+    );
+    expect(result.unusedFiles).not.toContain(path.join(root, 'utils/heavy.js'));
+  });
+
   it('marks componentGenerics default components reachable', async () => {
     const root = createFixture({
       'app.json': JSON.stringify({ pages: ['pages/index/index'] }),
@@ -109,6 +295,33 @@ describe('ProjectStructureBuilder behavior', () => {
     expect(new Set(duplicateKeys).size).toBe(duplicateKeys.length);
   });
 
+  it('parses custom-tab-bar as a component of the app when tabBar.custom is set', async () => {
+    const appJson = {
+      pages: ['pages/index/index'],
+      tabBar: { custom: true, list: [{ pagePath: 'pages/index/index', text: '首页' }] },
+    };
+    const root = createFixture({
+      'app.json': JSON.stringify(appJson),
+      'app.js': '',
+      'pages/index/index.js': '',
+      'custom-tab-bar/index.json': JSON.stringify({
+        component: true,
+        usingComponents: { badge: '../components/badge' },
+      }),
+      'custom-tab-bar/index.js': "require('./icons');\n",
+      'custom-tab-bar/icons.js': '',
+      'components/badge.json': JSON.stringify({ component: true }),
+      'components/badge.js': '',
+    });
+
+    const result = await analyzeProject(root, optionsFor(root, appJson));
+
+    expect(result.projectStructure.links).toContainEqual(
+      expect.objectContaining({ source: 'app', target: 'comp:custom-tab-bar', type: 'Structure' }),
+    );
+    expect(result.unusedFiles).toEqual([]);
+  });
+
   it('marks custom sitemapLocation files reachable from app.json', async () => {
     const root = createFixture({
       'app.json': JSON.stringify({
@@ -185,4 +398,194 @@ describe('ProjectStructureBuilder behavior', () => {
     );
     expect(pageNode?.properties?.fileCount).toBe(2);
   });
+
+  it('records where each dependency is written on its link', async () => {
+    const root = createFixture({
+      'app.json': JSON.stringify({ pages: ['pages/index/index'] }),
+      'app.js': '',
+      'pages/index/index.js': "// header\nconst util = require('../../utils/util');\n",
+      'pages/index/index.json':
+        '{\n  "usingComponents": {\n    "card": "/components/card"\n  }\n}\n',
+      'components/card.json': JSON.stringify({ component: true }),
+      'components/card.js': '',
+      'utils/util.js': '',
+    });
+
+    const result = await analyzeProject(root, optionsFor(root, { pages: ['pages/index/index'] }));
+    const { links } = result.projectStructure;
+
+    const importLink = links.find((link) => link.target === path.join(root, 'utils/util.js'));
+    expect(importLink?.properties).toEqual({
+      sourceFile: path.join(root, 'pages/index/index.js'),
+      line: 2,
+      column: 22,
+    });
+    const componentLink = links.find(
+      (link) => link.source === 'page:pages/index/index' && link.target === 'comp:components/card',
+    );
+    expect(componentLink?.properties).toEqual({
+      sourceFile: path.join(root, 'pages/index/index.json'),
+      line: 3,
+      column: 5,
+    });
+  });
+
+  it('follows npm imports and components into miniprogram_npm', async () => {
+    const appJson = {
+      pages: ['pages/index/index'],
+      usingComponents: { 'van-button': '@vant/weapp/button/index' },
+    };
+    const root = createFixture({
+      'app.json': JSON.stringify(appJson),
+      'app.js': '',
+      'pages/index/index.js': "const dayjs = require('dayjs');\n",
+      'miniprogram_npm/dayjs/index.js': "require('./locale');\n",
+      'miniprogram_npm/dayjs/locale.js': '',
+      'miniprogram_npm/dayjs/unused.js': '',
+      'miniprogram_npm/@vant/weapp/button/index.json': JSON.stringify({ component: true }),
+      'miniprogram_npm/@vant/weapp/button/index.js': '',
+    });
+
+    const result = await analyzeProject(root, optionsFor(root, appJson));
+    const { nodes, links } = result.projectStructure;
+
+    const dayjsIndex = path.join(root, 'miniprogram_npm/dayjs/index.js');
+    expect(links).toContainEqual(
+      expect.objectContaining({
+        source: path.join(root, 'pages/index/index.js'),
+        target: dayjsIndex,
+        type: 'Import',
+      }),
+    );
+    expect(nodes.find((node) => node.id === 'npm:miniprogram_npm/dayjs')).toMatchObject({
+      type: 'NpmPackage',
+      label: 'dayjs',
+    });
+    expect(links).toContainEqual(
+      expect.objectContaining({ source: 'app', target: 'npm:miniprogram_npm/dayjs' }),
+    );
+    expect(nodes.find((node) => node.id === dayjsIndex)?.properties?.npmPackage).toBe('dayjs');
+    expect(result.reachableNodeIds.has(path.join(root, 'miniprogram_npm/dayjs/locale.js'))).toBe(
+      true,
+    );
+    expect(
+      result.reachableNodeIds.has(path.join(root, 'miniprogram_npm/@vant/weapp/button/index.js')),
+    ).toBe(true);
+    expect(nodes.some((node) => node.id === 'npm:miniprogram_npm/@vant/weapp')).toBe(true);
+    // Files of third-party packages are never reported as unused
+    expect(result.unusedFiles).not.toContain(path.join(root, 'miniprogram_npm/dayjs/unused.js'));
+    expect(result.unresolvedDependencies).toEqual([]);
+  });
+
+  it('models plugins as nodes linked from their declaration and every usage', async () => {
+    const appJson = {
+      pages: ['pages/index/index'],
+      plugins: { chart: { version: '1.0.0', provider: 'wx1' } },
+      subPackages: [
+        {
+          root: 'packageA',
+          pages: ['pages/a/a'],
+          plugins: { map: { version: '2.0.0', provider: 'wx2' } },
+        },
+      ],
+      usingComponents: { 'chart-view': 'plugin://chart/view' },
+    };
+    const root = createFixture({
+      'app.json': JSON.stringify(appJson),
+      'app.js': '',
+      'pages/index/index.json': JSON.stringify({
+        usingComponents: { 'chart-legend': 'plugin://chart/legend' },
+      }),
+      'pages/index/index.js': "wx.navigateTo({ url: 'plugin://shop/detail' });\n",
+      'packageA/pages/a/a.js': "wx.navigateTo({ url: 'plugin://map/index' });\n",
+    });
+
+    const result = await analyzeProject(root, optionsFor(root, appJson));
+    const { nodes, links } = result.projectStructure;
+    const hasLink = (source: string, target: string, type: string) =>
+      links.some((link) => link.source === source && link.target === target && link.type === type);
+
+    expect(nodes.find((node) => node.id === 'plugin:chart')?.properties).toMatchObject({
+      declared: true,
+      provider: 'wx1',
+      version: '1.0.0',
+      structuralParentId: 'app',
+    });
+    expect(hasLink('app', 'plugin:chart', 'Structure')).toBe(true);
+    expect(hasLink('pkg:packageA', 'plugin:map', 'Structure')).toBe(true);
+    expect(hasLink('app', 'plugin:chart', 'Plugin')).toBe(true);
+    expect(hasLink('page:pages/index/index', 'plugin:chart', 'Plugin')).toBe(true);
+    expect(hasLink(path.join(root, 'packageA/pages/a/a.js'), 'plugin:map', 'Plugin')).toBe(true);
+    expect(nodes.find((node) => node.id === 'plugin:shop')?.properties?.declared).toBe(false);
+  });
+
+  it('links components of useExtendedLib libraries to a node of the library', async () => {
+    const appJson = {
+      pages: ['pages/index/index', 'pages/list/list'],
+      useExtendedLib: { weui: true },
+    };
+    const root = createFixture({
+      'app.json': JSON.stringify(appJson),
+      'app.js': '',
+      'pages/index/index.json': JSON.stringify({
+        usingComponents: { 'mp-dialog': 'weui-miniprogram/dialog/dialog' },
+      }),
+      'pages/index/index.js': '',
+      'pages/list/list.json': JSON.stringify({
+        usingComponents: { 'kb-view': 'miniprogram-element/view/view' },
+      }),
+      'pages/list/list.js': '',
+    });
+
+    const result = await analyzeProject(root, optionsFor(root, appJson));
+    const { nodes, links } = result.projectStructure;
+    const hasLink = (source: string, target: string, type: string) =>
+      links.some((link) => link.source === source && link.target === target && link.type === type);
+
+    expect(nodes.find((node) => node.id === 'extlib:weui')?.properties).toMatchObject({
+      declared: true,
+      structuralParentId: 'app',
+    });
+    expect(hasLink('app', 'extlib:weui', 'Structure')).toBe(true);
+    expect(hasLink('page:pages/index/index', 'extlib:weui', 'ExtendedLib')).toBe(true);
+    expect(hasLink('page:pages/list/list', 'extlib:kbone', 'ExtendedLib')).toBe(true);
+    expect(nodes.find((node) => node.id === 'extlib:kbone')?.properties?.declared).toBe(false);
+    expect(result.unresolvedDependencies).toEqual([]);
+  });
+
+  it('models cloud functions as entry trees linked from their callFunction calls', async () => {
+    const appJson = { pages: ['pages/index/index'] };
+    const root = createFixture({
+      'miniprogram/app.json': JSON.stringify(appJson),
+      'miniprogram/app.js': '',
+      'miniprogram/pages/index/index.js': "wx.cloud.callFunction({ name: 'login' });\n",
+      'cloudfunctions/login/package.json': JSON.stringify({ name: 'login', main: 'main.js' }),
+      'cloudfunctions/login/main.js': "require('./db');\n",
+      'cloudfunctions/login/db.js': '',
+      'cloudfunctions/login/legacy.js': '',
+    });
+    const miniappRoot = path.join(root, 'miniprogram');
+    const functionRoot = path.join(root, 'cloudfunctions/login');
+
+    const result = await analyzeProject(root, {
+      ...optionsFor(miniappRoot, appJson),
+      cloudfunctionRoot: path.join(root, 'cloudfunctions'),
+    });
+    const { nodes, links } = result.projectStructure;
+    const hasLink = (source: string, target: string, type: string) =>
+      links.some((link) => link.source === source && link.target === target && link.type === type);
+
+    expect(nodes.find((node) => node.id === 'cloudfn:login')).toMatchObject({
+      type: 'CloudFunction',
+      properties: { cloudFunction: 'login', root: functionRoot },
+    });
+    expect(hasLink('cloudfn:login', path.join(functionRoot, 'main.js'), 'Structure')).toBe(true);
+    expect(hasLink('cloudfn:login', path.join(functionRoot, 'package.json'), 'Config')).toBe(true);
+    expect(
+      hasLink(path.join(miniappRoot, 'pages/index/index.js'), 'cloudfn:login', 'CloudFunction'),
+    ).toBe(true);
+    expect(result.reachableNodeIds.has(path.join(functionRoot, 'db.js'))).toBe(true);
+    expect(result.unusedFiles).toContain(path.join(functionRoot, 'legacy.js'));
+    expect(result.cloudFunctionCalls.map((call) => call.rawPath)).toEqual(['login']);
+  });
 });
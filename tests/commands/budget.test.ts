@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { budget } from '../../src/commands/budget';
+import { GlobalCliOptions } from '../../src/types/command-options';
+
+function createFixture(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-budget-'));
+  for (const [relativePath, content] of Object.entries(files)) {
+    const absolutePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, content);
+  }
+  return root;
+}
+
+describe('Budget Command Integration Tests', () => {
+  let projectRoot: string;
+  let consoleSpy: jest.SpyInstance;
+
+  const appJson = {
+    pages: ['pages/index/index'],
+    subPackages: [{ root: 'packageA', pages: ['pages/detail/detail'] }],
+  };
+
+  beforeEach(() => {
+    projectRoot = createFixture({
+      'app.json': JSON.stringify(appJson),
+      'app.js': '',
+      'pages/index/index.js': "require('../../utils/shared');\n",
+      'utils/shared.js': 'x'.repeat(1000),
+      'packageA/pages/detail/detail.js': 'y'.repeat(3000),
+      'unused.js': 'z'.repeat(50000),
+    });
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+    process.exitCode = undefined;
+  });
+
+  const cliOptionsFor = (root: string): GlobalCliOptions => ({
+    project: root,
+    miniappRoot: '.',
+    verboseLevel: 0,
+    verbose: false,
+    exclude: [],
+  });
+
+  it('reports every package and passes within the default limits', async () => {
+    await budget(cliOptionsFor(projectRoot));
+
+    const output = consoleSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+    expect(output).toContain('主包');
+    expect(output).toContain('packageA');
+    expect(output).not.toContain('超出');
+    expect(process.exitCode).not.toBe(1);
+  });
+
+  it('fails when a package exceeds its custom limit', async () => {
+    fs.writeFileSync(
+      path.join(projectRoot, 'mp-lens.config.json'),
+      JSON.stringify({ packageSizeLimits: { packages: { packageA: '2KB' } } }),
+    );
+
+    await budget(cliOptionsFor(projectRoot));
+
+    const output = consoleSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+    expect(output).toMatch(/packageA.*超出/);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('does not count unreachable files towards the main package', async () => {
+    fs.writeFileSync(
+      path.join(projectRoot, 'mp-lens.config.json'),
+      JSON.stringify({ packageSizeLimits: { main: '10KB' } }),
+    );
+
+    await budget(cliOptionsFor(projectRoot));
+
+    expect(process.exitCode).not.toBe(1);
+  });
+
+  it('does not count files ignored by packOptions in project.config.json', async () => {
+    fs.writeFileSync(
+      path.join(projectRoot, 'packageA/pages/detail/detail.js'),
+      "require('./mock-data');\n",
+    );
+    fs.writeFileSync(
+      path.join(projectRoot, 'packageA/pages/detail/mock-data.js'),
+      'm'.repeat(5000),
+    );
+    fs.writeFileSync(
+      path.join(projectRoot, 'mp-lens.config.json'),
+      JSON.stringify({ packageSizeLimits: { packages: { packageA: '2KB' } } }),
+    );
+
+    await budget(cliOptionsFor(projectRoot));
+    expect(process.exitCode).toBe(1);
+
+    process.exitCode = undefined;
+    fs.writeFileSync(
+      path.join(projectRoot, 'project.config.json'),
+      JSON.stringify({ packOptions: { ignore: [{ type: 'suffix', value: 'mock-data.js' }] } }),
+    );
+    await budget(cliOptionsFor(projectRoot));
+    expect(process.exitCode).not.toBe(1);
+  });
+});
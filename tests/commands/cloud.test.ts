@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { cloud } from '../../src/commands/cloud';
+import { GlobalCliOptions } from '../../src/types/command-options';
+import { HandledError } from '../../src/utils/errors';
+
+function createFixture(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-cloud-cmd-'));
+  for (const [relativePath, content] of Object.entries(files)) {
+    const absolutePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, content);
+  }
+  return root;
+}
+
+describe('Cloud Command Integration Tests', () => {
+  let projectRoot: string;
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    projectRoot = createFixture({
+      'project.config.json': JSON.stringify({
+        miniprogramRoot: 'miniprogram/',
+        cloudfunctionRoot: 'cloudfunctions/',
+      }),
+      'miniprogram/app.json': JSON.stringify({ pages: ['pages/index/index'] }),
+      'miniprogram/app.js': '',
+      'miniprogram/pages/index/index.js':
+        "wx.cloud.callFunction({ name: 'login' });\nwx.cloud.callFunction({ name: 'sendMail' });\n",
+      'cloudfunctions/login/package.json': JSON.stringify({ name: 'login' }),
+      'cloudfunctions/login/index.js': "const db = require('./db');\n",
+      'cloudfunctions/login/db.js': '',
+      'cloudfunctions/login/legacy.js': '',
+      'cloudfunctions/report/index.js': '',
+      'cloudfunctions/report/config.json': JSON.stringify({
+        triggers: [{ name: 'daily', type: 'timer', config: '0 0 2 * * * *' }],
+      }),
+      'cloudfunctions/unusedFn/index.js': '',
+    });
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    process.exitCode = undefined;
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const cliOptions = (): GlobalCliOptions => ({
+    project: projectRoot,
+    verboseLevel: 0,
+    verbose: false,
+    exclude: [],
+  });
+
+  it('writes a JSON report of called, uncalled and missing cloud functions', async () => {
+    const outputFile = path.join(projectRoot, 'cloud.json');
+    await cloud(cliOptions(), { format: 'json', output: outputFile });
+
+    const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+    expect(report.cloudfunctionRoot).toBe('cloudfunctions');
+    expect(report.summary).toEqual({ functions: 3, uncalled: 1, missing: 1, unusedFiles: 1 });
+    expect(report.functions).toEqual([
+      {
+        name: 'login',
+        calls: [{ file: 'miniprogram/pages/index/index.js', name: 'login', line: 1, column: 31 }],
+        hasTriggers: false,
+        unusedFiles: ['cloudfunctions/login/legacy.js'],
+      },
+      { name: 'report', calls: [], hasTriggers: true, unusedFiles: [] },
+      { name: 'unusedFn', calls: [], hasTriggers: false, unusedFiles: [] },
+    ]);
+    expect(report.uncalled).toEqual(['unusedFn']);
+    expect(report.missing).toEqual([
+      { file: 'miniprogram/pages/index/index.js', name: 'sendMail', line: 2, column: 31 },
+    ]);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('does not count a function calling itself as a call', async () => {
+    fs.writeFileSync(
+      path.join(projectRoot, 'cloudfunctions/unusedFn/index.js'),
+      "cloud.callFunction({ name: 'unusedFn' });\n",
+    );
+    const outputFile = path.join(projectRoot, 'cloud.json');
+    await cloud(cliOptions(), { format: 'json', output: outputFile });
+
+    const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+    expect(report.uncalled).toEqual(['unusedFn']);
+  });
+
+  it('throws when project.config.json has no cloudfunctionRoot', async () => {
+    fs.writeFileSync(
+      path.join(projectRoot, 'project.config.json'),
+      JSON.stringify({ miniprogramRoot: 'miniprogram/' }),
+    );
+
+    await expect(cloud(cliOptions(), {})).rejects.toThrow(HandledError);
+  });
+});
@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { cycles } from '../../src/commands/cycles';
+import { GlobalCliOptions } from '../../src/types/command-options';
+
+function createFixture(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-cycles-cmd-'));
+  for (const [relativePath, content] of Object.entries(files)) {
+    const absolutePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, content);
+  }
+  return root;
+}
+
+describe('Cycles Command Integration Tests', () => {
+  let projectRoot: string;
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    projectRoot = createFixture({
+      'app.json': JSON.stringify({ pages: ['pages/index/index'] }),
+      'pages/index/index.js': "require('../../utils/a');\n",
+      'utils/a.js': "const b = require('./b');\n",
+      'utils/b.js': "\nconst a = require('./a');\n",
+    });
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const cliOptions = (): GlobalCliOptions => ({
+    project: projectRoot,
+    miniappRoot: '.',
+    verboseLevel: 0,
+    verbose: false,
+    exclude: [],
+  });
+
+  it('prints each cycle with the position of every reference', async () => {
+    await cycles(cliOptions(), {});
+
+    const output = consoleSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+    expect(output).toContain('JS 模块循环引用');
+    expect(output).toContain('utils/a.js (utils/a.js:1:19)');
+    expect(output).toContain('→ utils/b.js (utils/b.js:2:19)');
+  });
+
+  it('writes a JSON report', async () => {
+    const outputFile = path.join(projectRoot, 'cycles.json');
+    await cycles(cliOptions(), { format: 'json', output: outputFile });
+
+    const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+    expect(report.summary).toEqual({ total: 1, import: 1, template: 0, component: 0 });
+    expect(report.cycles[0]).toEqual(
+      expect.objectContaining({
+        kind: 'import',
+        path: ['utils/a.js', 'utils/b.js'],
+        links: expect.arrayContaining([
+          { source: 'utils/a.js', target: 'utils/b.js', file: 'utils/a.js', line: 1, column: 19 },
+        ]),
+      }),
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { deps } from '../../src/commands/deps';
+import { GlobalCliOptions } from '../../src/types/command-options';
+
+function createFixture(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-deps-cmd-'));
+  for (const [relativePath, content] of Object.entries(files)) {
+    const absolutePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, content);
+  }
+  return root;
+}
+
+describe('Deps Command Integration Tests', () => {
+  let projectRoot: string;
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    projectRoot = createFixture({
+      'package.json': JSON.stringify({
+        dependencies: { dayjs: '^1.0.0', '@vant/weapp': '^1.0.0', lodash: '^4.0.0', qs: '^6.0.0' },
+        devDependencies: { 'miniprogram-api-typings': '^3.0.0', mitt: '^3.0.0' },
+      }),
+      'app.json': JSON.stringify({ pages: ['pages/index/index'] }),
+      'pages/index/index.js': "const dayjs = require('dayjs');\nimport mitt from 'mitt';\n",
+      'pages/index/index.json':
+        '{\n  "usingComponents": {\n    "van-button": "@vant/weapp/button/index",\n    "card": "/components/card"\n  }\n}\n',
+      'components/card.json': JSON.stringify({ component: true }),
+      'components/card.js': "require('./helper');\n",
+      'components/helper.js': '',
+      'utils/legacy.js': "const qs = require('qs');\nconst axios = require('axios');\n",
+      'miniprogram_npm/dayjs/index.js': '',
+    });
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    process.exitCode = undefined;
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const cliOptions = (): GlobalCliOptions => ({
+    project: projectRoot,
+    miniappRoot: '.',
+    verboseLevel: 0,
+    verbose: false,
+    exclude: [],
+  });
+
+  it('writes a JSON report of unused, undeclared and unreachable-only packages', async () => {
+    const outputFile = path.join(projectRoot, 'deps.json');
+    await deps(cliOptions(), { format: 'json', output: outputFile });
+
+    const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+    expect(report.packageJson).toBe('package.json');
+    expect(report.unused).toEqual(['lodash']);
+    expect(report.undeclared).toEqual([
+      {
+        name: 'axios',
+        devDependency: false,
+        usages: [{ file: 'utils/legacy.js', specifier: 'axios', line: 2, column: 23 }],
+      },
+      {
+        name: 'mitt',
+        devDependency: true,
+        usages: [{ file: 'pages/index/index.js', specifier: 'mitt', line: 2, column: 18 }],
+      },
+    ]);
+    expect(report.onlyUnreachable).toEqual([
+      {
+        name: 'qs',
+        usages: [{ file: 'utils/legacy.js', specifier: 'qs', line: 1, column: 20 }],
+      },
+    ]);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('finds component packages referenced by an explicit miniprogram_npm path', async () => {
+    fs.writeFileSync(
+      path.join(projectRoot, 'pages/index/index.json'),
+      JSON.stringify({
+        usingComponents: { 'van-button': '/miniprogram_npm/@vant/weapp/button/index' },
+      }),
+    );
+    const buttonDir = path.join(projectRoot, 'miniprogram_npm/@vant/weapp/button');
+    fs.mkdirSync(buttonDir, { recursive: true });
+    fs.writeFileSync(path.join(buttonDir, 'index.json'), JSON.stringify({ component: true }));
+    fs.writeFileSync(path.join(buttonDir, 'index.js'), '');
+    const outputFile = path.join(projectRoot, 'deps.json');
+    await deps(cliOptions(), { format: 'json', output: outputFile });
+
+    const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+    expect(report.unused).not.toContain('@vant/weapp');
+  });
+
+  it('ignores packages provided by an enabled useExtendedLib library', async () => {
+    fs.writeFileSync(
+      path.join(projectRoot, 'app.json'),
+      JSON.stringify({ pages: ['pages/index/index'], useExtendedLib: { weui: true } }),
+    );
+    fs.writeFileSync(
+      path.join(projectRoot, 'pages/index/index.json'),
+      JSON.stringify({ usingComponents: { 'mp-dialog': 'weui-miniprogram/dialog/dialog' } }),
+    );
+    const outputFile = path.join(projectRoot, 'deps.json');
+    await deps(cliOptions(), { format: 'json', output: outputFile });
+
+    const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+    expect(report.undeclared.map((entry: { name: string }) => entry.name)).not.toContain(
+      'weui-miniprogram',
+    );
+  });
+
+  it('prints each group with the place every package is used', async () => {
+    await deps(cliOptions(), {});
+
+    const output = consoleSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+    expect(output).toContain('已使用但未在 dependencies 中声明的包 (2)');
+    expect(output).toContain('mitt');
+    expect(output).toContain('仅在 devDependencies 中声明');
+    expect(output).toContain('已声明但未被任何文件使用的包 (1)');
+    expect(output).toContain('仅被不可达文件使用的包 (1)');
+    expect(output).toContain('utils/legacy.js:1:20');
+  });
+});
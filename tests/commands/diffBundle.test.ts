@@ -0,0 +1,264 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { diffBundle } from '../../src/commands/diffBundle';
+import { GlobalCliOptions } from '../../src/types/command-options';
+import { logger } from '../../src/utils/debug-logger';
+
+function createFixture(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-diff-'));
+  for (const [relativePath, content] of Object.entries(files)) {
+    const absolutePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, content);
+  }
+  return root;
+}
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync(
+    'git',
+    ['-c', 'user.name=mp-lens', '-c', 'user.email=mp-lens@example.com', ...args],
+    { cwd, encoding: 'utf8' },
+  ).trim();
+}
+
+describe('Diff Command Integration Tests', () => {
+  let repoRoot: string;
+  let consoleSpy: jest.SpyInstance;
+
+  const cliOptionsFor = (root: string): GlobalCliOptions => ({
+    project: root,
+    miniappRoot: '.',
+    verboseLevel: 0,
+    verbose: false,
+    exclude: [],
+  });
+
+  beforeEach(() => {
+    repoRoot = createFixture({
+      '.gitignore': 'node_modules/\n',
+      'app.json': JSON.stringify({ pages: ['pages/index/index'] }),
+      'app.js': '',
+      'pages/index/index.js': "require('../../utils/a');\n",
+      'utils/a.js': 'a'.repeat(100),
+    });
+    git(repoRoot, 'init', '-q', '-b', 'main');
+    git(repoRoot, 'add', '-A');
+    git(repoRoot, 'commit', '-q', '-m', 'base');
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    fs.rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  it('compares uncommitted changes against a ref without touching the checkout', async () => {
+    fs.writeFileSync(path.join(repoRoot, 'utils/a.js'), 'a'.repeat(300));
+    fs.writeFileSync(path.join(repoRoot, 'utils/b.js'), 'b'.repeat(50));
+    fs.writeFileSync(
+      path.join(repoRoot, 'pages/index/index.js'),
+      "require('../../utils/a');\nrequire('../../utils/b');\n",
+    );
+    const statusBefore = git(repoRoot, 'status', '--porcelain');
+
+    await diffBundle(cliOptionsFor(repoRoot), { base: 'main' });
+
+    const output = consoleSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+    expect(output).toContain(`+ ${path.join('utils', 'b.js')}`);
+    expect(output).toContain(`~ ${path.join('utils', 'a.js')}`);
+    expect(output).not.toContain('app.json');
+    expect(git(repoRoot, 'status', '--porcelain')).toBe(statusBefore);
+    expect(git(repoRoot, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+    expect(git(repoRoot, 'worktree', 'list')).not.toContain('mp-lens-worktree-');
+  });
+
+  it('analyzes an explicit --target HEAD as the committed tree', async () => {
+    fs.writeFileSync(path.join(repoRoot, 'utils/a.js'), 'a'.repeat(300));
+
+    const outputFile = path.join(os.tmpdir(), `mp-lens-diff-head-${process.pid}.json`);
+
+    await diffBundle(cliOptionsFor(repoRoot), {
+      base: 'main',
+      target: 'HEAD',
+      format: 'json',
+      output: outputFile,
+    });
+
+    const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+    fs.rmSync(outputFile);
+    expect(report.target).toBe('HEAD');
+    expect(report.changes).toEqual([]);
+  });
+
+  it('analyzes the git-ignored miniprogram_npm of the working copy on both sides', async () => {
+    fs.writeFileSync(path.join(repoRoot, '.gitignore'), 'node_modules/\nminiprogram_npm/\n');
+    fs.writeFileSync(
+      path.join(repoRoot, 'pages/index/index.js'),
+      "require('../../utils/a');\nrequire('dayjs');\n",
+    );
+    git(repoRoot, 'commit', '-q', '-am', 'use dayjs');
+    fs.mkdirSync(path.join(repoRoot, 'miniprogram_npm/dayjs'), { recursive: true });
+    fs.writeFileSync(path.join(repoRoot, 'miniprogram_npm/dayjs/index.js'), 'd'.repeat(200));
+
+    const outputFile = path.join(os.tmpdir(), `mp-lens-diff-npm-${process.pid}.json`);
+    await diffBundle(cliOptionsFor(repoRoot), {
+      base: 'main',
+      format: 'json',
+      output: outputFile,
+    });
+
+    const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+    fs.rmSync(outputFile);
+    expect(report.changes).toEqual([]);
+    expect(report.total.oldSize).toBe(report.total.newSize);
+    expect(git(repoRoot, 'status', '--porcelain')).toBe('');
+  });
+
+  it('keeps the dependency cache in the checkout, so a second run reuses it for the base', async () => {
+    const outputFile = path.join(os.tmpdir(), `mp-lens-diff-cache-${process.pid}.json`);
+    const runDiff = () =>
+      diffBundle(cliOptionsFor(repoRoot), { base: 'main', format: 'json', output: outputFile });
+    const cacheHits = (): string[] =>
+      jest
+        .mocked(logger.trace)
+        .mock.calls.map(([message]) => String(message))
+        .filter((message) => message.startsWith('Dependency cache hit: '));
+
+    await runDiff();
+    jest.mocked(logger.trace).mockClear();
+    await runDiff();
+    fs.rmSync(outputFile);
+
+    expect(fs.existsSync(path.join(repoRoot, 'node_modules/.cache/mp-lens'))).toBe(true);
+    // Files of the base are analyzed in a new temporary worktree on every run
+    expect(cacheHits()).toContainEqual(expect.stringMatching(/mp-lens-worktree-.*index\.js$/));
+  });
+
+  it('compares two refs side by side', async () => {
+    git(repoRoot, 'checkout', '-q', '-b', 'feature');
+    fs.rmSync(path.join(repoRoot, 'utils/a.js'));
+    fs.writeFileSync(path.join(repoRoot, 'pages/index/index.js'), '');
+    git(repoRoot, 'commit', '-q', '-am', 'remove a');
+    git(repoRoot, 'checkout', '-q', 'main');
+
+    await diffBundle(cliOptionsFor(repoRoot), { base: 'main', target: 'feature' });
+
+    const output = consoleSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+    expect(output).toContain(`- ${path.join('utils', 'a.js')}`);
+    expect(git(repoRoot, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+  });
+
+  it('breaks sizes down by package and flags packages newly crossing the size limit', async () => {
+    fs.writeFileSync(
+      path.join(repoRoot, 'app.json'),
+      JSON.stringify({
+        pages: ['pages/index/index'],
+        subPackages: [{ root: 'sub', pages: ['pages/a'] }],
+      }),
+    );
+    fs.mkdirSync(path.join(repoRoot, 'sub/pages'), { recursive: true });
+    fs.writeFileSync(path.join(repoRoot, 'sub/pages/a.js'), 'b'.repeat(50));
+    fs.writeFileSync(path.join(repoRoot, 'logo.png'), 'p'.repeat(10));
+    git(repoRoot, 'add', '-A');
+    git(repoRoot, 'commit', '-q', '-m', 'add subpackage');
+
+    fs.writeFileSync(path.join(repoRoot, 'sub/pages/a.js'), 'b'.repeat(2 * 1024 * 1024 + 1));
+    fs.writeFileSync(path.join(repoRoot, 'logo.png'), 'p'.repeat(30));
+
+    await diffBundle(cliOptionsFor(repoRoot), { base: 'main' });
+
+    const output = consoleSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+    expect(output).toContain(
+      '└ 共享资源 (已计入主包): 10 Bytes -> 30 Bytes (+20 Bytes), 文件数 1 -> 1',
+    );
+    expect(output).toMatch(/ sub: 50 Bytes -> 2 MB .*文件数 1 -> 1 {2}⛔ 新超出 2 MB 限制/);
+    expect(output).not.toMatch(/主包: .*⛔/);
+  });
+
+  describe('machine-readable output', () => {
+    // Suites that ran earlier in the same worker may have left an exit code behind
+    beforeEach(() => {
+      process.exitCode = undefined;
+    });
+
+    afterEach(() => {
+      process.exitCode = undefined;
+    });
+
+    // Progress logs go to stderr, so stdout holds nothing but the report
+    const reportOutput = (): string =>
+      consoleSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+
+    it('emits file changes, package totals and the overall delta as JSON', async () => {
+      fs.writeFileSync(path.join(repoRoot, 'utils/a.js'), 'a'.repeat(300));
+
+      await diffBundle(cliOptionsFor(repoRoot), { base: 'main', format: 'json' });
+
+      const report = JSON.parse(reportOutput());
+      expect(report.base).toBe('main');
+      expect(report.changes).toEqual([
+        {
+          type: 'modified',
+          file: path.join('utils', 'a.js'),
+          oldSize: 100,
+          newSize: 300,
+          impact: 200,
+        },
+      ]);
+      expect(report.packages.map((change: { package: string }) => change.package)).toEqual([
+        '主包',
+        '共享资源',
+      ]);
+      expect(report.packages[0]).toMatchObject({
+        package: '主包',
+        delta: 200,
+        crossedLimit: false,
+      });
+      expect(report.packages[0].newSize).toBe(report.total.newSize);
+      expect(report.total.delta).toBe(200);
+      expect(report.exceededPackages).toEqual([]);
+      expect(process.exitCode).toBeUndefined();
+    });
+
+    it('flags packages growing beyond --fail-on-increase in the Markdown report', async () => {
+      fs.writeFileSync(
+        path.join(repoRoot, 'app.json'),
+        JSON.stringify({
+          pages: ['pages/index/index'],
+          subPackages: [{ root: 'sub', pages: ['pages/a'] }],
+        }),
+      );
+      fs.mkdirSync(path.join(repoRoot, 'sub/pages'), { recursive: true });
+      fs.writeFileSync(path.join(repoRoot, 'sub/pages/a.js'), 'b'.repeat(50));
+
+      await diffBundle(cliOptionsFor(repoRoot), {
+        base: 'main',
+        format: 'markdown',
+        failOnIncrease: '100%',
+      });
+
+      const markdown = reportOutput();
+      // The main package grows by less than 100% (only app.json changed), the new subpackage is flagged
+      expect(markdown).toMatch(/\| 主包 \| \d+ Bytes \|/);
+      expect(markdown).toContain('| sub ⚠️ | 0 Bytes | 50 Bytes | +50 Bytes |');
+      expect(markdown).toContain('`sub/pages/a.js`');
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('accepts byte thresholds', async () => {
+      fs.writeFileSync(path.join(repoRoot, 'utils/a.js'), 'a'.repeat(300));
+
+      await diffBundle(cliOptionsFor(repoRoot), {
+        base: 'main',
+        format: 'json',
+        failOnIncrease: '1KB',
+      });
+
+      expect(JSON.parse(reportOutput()).exceededPackages).toEqual([]);
+      expect(process.exitCode).toBeUndefined();
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { lint } from '../../src/commands/lint';
-import { GlobalCliOptions } from '../../src/types/command-options';
+import { CmdLintOptions, GlobalCliOptions } from '../../src/types/command-options';
+import { logger, LogLevel } from '../../src/utils/debug-logger';
 import { HandledError } from '../../src/utils/errors';
 
 describe('Lint Command Integration Tests', () => {
@@ -15,6 +16,11 @@ describe('Lint Command Integration Tests', () => {
     }
   });
 
+  afterEach(() => {
+    // lint 发现问题时会设置 exitCode，避免影响后续测试
+    process.exitCode = undefined;
+  });
+
   afterAll(() => {
     // 清理临时目录
     if (fs.existsSync(tempDir)) {
@@ -314,6 +320,604 @@ describe('Lint Command Integration Tests', () => {
     });
   });
 
+  describe('Project Rules', () => {
+    let ruleProjectRoot: string;
+
+    beforeEach(() => {
+      ruleProjectRoot = path.join(tempDir, `rules-test-${Date.now()}`);
+      const files: Record<string, string> = {
+        'app.json': JSON.stringify({
+          pages: ['pages/index/index'],
+          subPackages: [
+            { root: 'packageA', pages: ['pages/a/a'] },
+            { root: 'packageB', pages: ['pages/b/b'] },
+          ],
+        }),
+        'pages/index/index.js': '',
+        'packageA/pages/a/a.js': "require('../../../packageB/utils/helper');",
+        'packageB/pages/b/b.js': '',
+        'packageB/utils/helper.js': '',
+      };
+      for (const [relativePath, content] of Object.entries(files)) {
+        const filePath = path.join(ruleProjectRoot, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+      }
+    });
+
+    afterEach(() => {
+      fs.rmSync(ruleProjectRoot, { recursive: true, force: true });
+    });
+
+    it('should report cross-subpackage references and fail the run', async () => {
+      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+
+      try {
+        await lint({ ...baseCliOptions, project: ruleProjectRoot });
+        const output = consoleSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+
+        expect(output).toContain('跨分包引用 (cross-package-reference)');
+        expect(output).toContain(`${path.join('packageA', 'pages', 'a', 'a.js')}:1:9`);
+        expect(output).toContain('分包 packageA 引用了分包 packageB 中的');
+        expect(process.exitCode).toBe(1);
+      } finally {
+        consoleSpy.mockRestore();
+      }
+    });
+
+    it('should require a componentPlaceholder for components from another subpackage', async () => {
+      const files: Record<string, string> = {
+        'packageA/pages/a/a.json':
+          '{\n  "usingComponents": {\n    "chart": "/packageB/components/chart",\n    "card": "/packageB/components/card"\n  },\n  "componentPlaceholder": { "chart": "view" }\n}\n',
+        'packageB/components/chart.json': JSON.stringify({ component: true }),
+        'packageB/components/chart.js': '',
+        'packageB/components/card.json': JSON.stringify({ component: true }),
+        'packageB/components/card.js': '',
+      };
+      for (const [relativePath, content] of Object.entries(files)) {
+        const filePath = path.join(ruleProjectRoot, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+      }
+      const outputFile = path.join(ruleProjectRoot, 'report.json');
+
+      await lint({ ...baseCliOptions, project: ruleProjectRoot }, undefined, {
+        format: 'json',
+        output: outputFile,
+      });
+      const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+      const issuesOf = (rule: string) =>
+        report.issues.filter((issue: { rule: string }) => issue.rule === rule);
+
+      expect(issuesOf('missing-component-placeholder')).toEqual([
+        {
+          rule: 'missing-component-placeholder',
+          severity: 'error',
+          file: 'packageA/pages/a/a.json',
+          line: 4,
+          column: 5,
+          message:
+            '分包 packageA 使用了分包 packageB 中的组件 packageB/components/card，但没有在 componentPlaceholder 中为它声明占位组件，运行时无法加载',
+        },
+      ]);
+      expect(
+        issuesOf('cross-package-reference').map((issue: { file: string }) => issue.file),
+      ).toEqual(['packageA/pages/a/a.js']);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should report references to missing files by reason and fail the run', async () => {
+      const files: Record<string, string> = {
+        'pages/index/index.js': "require('./utlis');\nrequire('@lib/missing');\nrequire('lodash');",
+        'pages/index/index.wxml': '<import src="./missing-template.wxml" />',
+        'pages/index/index.json':
+          '{\n  "usingComponents": {\n    "missing-comp": "/components/missing"\n  }\n}\n',
+        'pages/index/utils.js': '',
+        'tsconfig.json': JSON.stringify({
+          compilerOptions: { baseUrl: '.', paths: { '@lib/*': ['lib/*'] } },
+        }),
+      };
+      for (const [relativePath, content] of Object.entries(files)) {
+        fs.writeFileSync(path.join(ruleProjectRoot, relativePath), content);
+      }
+      const outputFile = path.join(ruleProjectRoot, 'report.json');
+
+      await lint({ ...baseCliOptions, project: ruleProjectRoot }, undefined, {
+        format: 'json',
+        output: outputFile,
+      });
+      const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+      const unresolved = report.issues.filter(
+        (issue: { rule: string }) => issue.rule === 'unresolved-import',
+      );
+
+      expect(unresolved).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            severity: 'error',
+            file: 'pages/index/index.js',
+            line: 1,
+            column: 9,
+            message: expect.stringContaining('请检查路径是否拼写正确'),
+          }),
+          expect.objectContaining({
+            file: 'pages/index/index.js',
+            line: 2,
+            message: expect.stringContaining('请检查别名配置'),
+          }),
+          expect.objectContaining({
+            file: 'pages/index/index.wxml',
+            message: expect.stringContaining('WXML import/include 的模板 ./missing-template.wxml'),
+          }),
+          expect.objectContaining({
+            file: 'pages/index/index.json',
+            line: 3,
+            column: 5,
+            message: expect.stringContaining('usingComponents 中声明的组件 /components/missing'),
+          }),
+        ]),
+      );
+      // npm packages missing from miniprogram_npm must not be reported
+      expect(unresolved).toHaveLength(4);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should report unused and undeclared plugins', async () => {
+      const files: Record<string, string> = {
+        'app.json':
+          '{\n  "pages": ["pages/index/index"],\n  "plugins": {\n    "chart": { "version": "1.0.0", "provider": "wx1" },\n    "live": { "version": "1.0.0", "provider": "wx2" }\n  },\n  "subPackages": [\n    { "root": "packageA", "pages": ["pages/a/a"], "plugins": { "map": { "version": "1.0.0", "provider": "wx3" } } }\n  ]\n}\n',
+        'pages/index/index.json': JSON.stringify({
+          usingComponents: { 'chart-view': 'plugin://chart/view' },
+        }),
+        'pages/index/index.js': "wx.navigateTo({ url: 'plugin://shop/detail?id=1' });\n",
+        'packageA/pages/a/a.js': "wx.navigateTo({ url: 'plugin://map/index' });\n",
+      };
+      for (const [relativePath, content] of Object.entries(files)) {
+        fs.writeFileSync(path.join(ruleProjectRoot, relativePath), content);
+      }
+      const outputFile = path.join(ruleProjectRoot, 'report.json');
+
+      await lint({ ...baseCliOptions, project: ruleProjectRoot }, undefined, {
+        format: 'json',
+        output: outputFile,
+      });
+      const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+      const pluginIssues = report.issues.filter((issue: { rule: string }) =>
+        issue.rule.endsWith('-plugin'),
+      );
+
+      expect(pluginIssues).toEqual([
+        {
+          rule: 'unused-plugin',
+          severity: 'warning',
+          file: 'app.json',
+          line: 5,
+          column: 5,
+          message: '插件 live 已在 app.json 中声明，但没有任何组件或页面跳转使用它',
+        },
+        {
+          rule: 'undeclared-plugin',
+          severity: 'error',
+          file: 'pages/index/index.js',
+          line: 1,
+          column: 22,
+          message: '使用了插件 shop，但它未在 app.json 或分包的 plugins 中声明',
+        },
+      ]);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should report unused and not enabled extended libraries', async () => {
+      const files: Record<string, string> = {
+        'app.json':
+          '{\n  "pages": ["pages/index/index"],\n  "useExtendedLib": {\n    "kbone": true\n  }\n}\n',
+        'pages/index/index.json':
+          '{\n  "usingComponents": {\n    "mp-dialog": "weui-miniprogram/dialog/dialog"\n  }\n}\n',
+      };
+      for (const [relativePath, content] of Object.entries(files)) {
+        fs.writeFileSync(path.join(ruleProjectRoot, relativePath), content);
+      }
+      const outputFile = path.join(ruleProjectRoot, 'report.json');
+
+      await lint({ ...baseCliOptions, project: ruleProjectRoot }, undefined, {
+        format: 'json',
+        output: outputFile,
+      });
+      const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+      const extendedLibIssues = report.issues.filter((issue: { rule: string }) =>
+        issue.rule.includes('extended-lib'),
+      );
+
+      expect(extendedLibIssues).toEqual([
+        {
+          rule: 'unused-extended-lib',
+          severity: 'warning',
+          file: 'app.json',
+          line: 4,
+          column: 5,
+          message: '扩展库 kbone 已在 app.json 的 useExtendedLib 中启用，但没有任何组件使用它',
+        },
+        {
+          rule: 'extended-lib-not-enabled',
+          severity: 'error',
+          file: 'pages/index/index.json',
+          line: 3,
+          column: 5,
+          message: '使用了扩展库 weui 的组件，但未在 app.json 的 useExtendedLib 中启用它',
+        },
+      ]);
+      expect(
+        report.issues.some((issue: { rule: string }) => issue.rule === 'unresolved-import'),
+      ).toBe(false);
+      expect(process.exitCode).toBe(1);
+    });
+    it('should report worker scripts importing files outside the workers directory', async () => {
+      const files: Record<string, string> = {
+        'app.json': JSON.stringify({ pages: ['pages/index/index'], workers: 'workers' }),
+        'workers/index.js': "const config = require('../utils/config');\nrequire('./helper');\n",
+        'workers/helper.js': '',
+        'utils/config.js': '',
+      };
+      for (const [relativePath, content] of Object.entries(files)) {
+        const filePath = path.join(ruleProjectRoot, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+      }
+      const outputFile = path.join(ruleProjectRoot, 'report.json');
+
+      await lint({ ...baseCliOptions, project: ruleProjectRoot }, undefined, {
+        format: 'json',
+        output: outputFile,
+      });
+      const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+      const workerIssues = report.issues.filter(
+        (issue: { rule: string }) => issue.rule === 'worker-import-outside-root',
+      );
+
+      expect(workerIssues).toEqual([
+        {
+          rule: 'worker-import-outside-root',
+          severity: 'error',
+          file: 'workers/index.js',
+          line: 1,
+          column: 24,
+          message: 'Worker 脚本引用了 workers 目录 workers 以外的 utils/config.js，运行时无法加载',
+        },
+      ]);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should report registered pages nothing navigates to', async () => {
+      const files: Record<string, string> = {
+        'app.json': JSON.stringify({
+          pages: ['pages/index/index', 'pages/list/list', 'pages/old/old', 'pages/mine/mine'],
+          tabBar: { list: [{ pagePath: 'pages/mine/mine', text: '我的' }] },
+        }),
+        'pages/index/index.wxml': '<navigator url="/pages/list/list">列表</navigator>\n',
+        'pages/list/list.js': '',
+        'pages/old/old.js': "wx.redirectTo({ url: '/pages/old/old' });\n",
+        'pages/mine/mine.js': '',
+      };
+      for (const [relativePath, content] of Object.entries(files)) {
+        const filePath = path.join(ruleProjectRoot, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+      }
+      const outputFile = path.join(ruleProjectRoot, 'report.json');
+
+      await lint({ ...baseCliOptions, project: ruleProjectRoot }, undefined, {
+        format: 'json',
+        output: outputFile,
+      });
+      const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+      const orphanIssues = report.issues.filter(
+        (issue: { rule: string }) => issue.rule === 'orphan-page',
+      );
+
+      expect(orphanIssues).toEqual([
+        {
+          rule: 'orphan-page',
+          severity: 'warning',
+          file: 'app.json',
+          message: '页面 pages/old/old 已在 app.json 中注册，但没有任何页面跳转或 navigator 指向它',
+        },
+      ]);
+    });
+
+    it('should report navigation to unknown pages, with the wrong API or a relative URL', async () => {
+      const files: Record<string, string> = {
+        'app.json': JSON.stringify({
+          pages: ['pages/index/index', 'pages/list/list', 'pages/mine/mine'],
+          tabBar: { list: [{ pagePath: 'pages/mine/mine', text: '我的' }] },
+        }),
+        'pages/index/index.js': [
+          "wx.navigateTo({ url: '/pages/old/index' });",
+          "wx.navigateTo({ url: '/pages/mine/mine' });",
+          "wx.switchTab({ url: '/pages/list/list' });",
+          "wx.redirectTo({ url: '../list/list' });",
+          "wx.switchTab({ url: '/pages/mine/mine' });",
+          "wx.navigateTo({ url: 'pages/list/list' });",
+        ].join('\n'),
+        'pages/list/list.wxml': '<navigator url="/pages/gone/gone?id={{id}}">旧页面</navigator>\n',
+        'pages/mine/mine.js': '',
+      };
+      for (const [relativePath, content] of Object.entries(files)) {
+        const filePath = path.join(ruleProjectRoot, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+      }
+      const outputFile = path.join(ruleProjectRoot, 'report.json');
+
+      await lint({ ...baseCliOptions, project: ruleProjectRoot }, undefined, {
+        format: 'json',
+        output: outputFile,
+      });
+      const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+      const routeIssues = report.issues.filter(
+        (issue: { rule: string }) => issue.rule === 'invalid-route',
+      );
+
+      expect(routeIssues).toEqual([
+        {
+          rule: 'invalid-route',
+          severity: 'error',
+          file: 'pages/index/index.js',
+          line: 1,
+          column: 22,
+          message: '跳转的页面 pages/old/index 未在 app.json 的 pages 或分包中注册',
+        },
+        {
+          rule: 'invalid-route',
+          severity: 'error',
+          file: 'pages/index/index.js',
+          line: 2,
+          column: 22,
+          message: 'navigateTo 不能打开 tabBar 页面 pages/mine/mine，请改用 switchTab 或 reLaunch',
+        },
+        {
+          rule: 'invalid-route',
+          severity: 'error',
+          file: 'pages/index/index.js',
+          line: 3,
+          column: 21,
+          message: 'switchTab 只能打开 tabBar 页面，pages/list/list 不在 tabBar.list 中',
+        },
+        {
+          rule: 'invalid-route',
+          severity: 'warning',
+          file: 'pages/index/index.js',
+          line: 4,
+          column: 22,
+          message: '跳转地址 ../list/list 缺少开头的 /，运行时会相对当前页面解析',
+        },
+        {
+          rule: 'invalid-route',
+          severity: 'warning',
+          file: 'pages/index/index.js',
+          line: 6,
+          column: 22,
+          message: '跳转地址 pages/list/list 缺少开头的 /，运行时会相对当前页面解析',
+        },
+        {
+          rule: 'invalid-route',
+          severity: 'error',
+          file: 'pages/list/list.wxml',
+          line: 1,
+          column: 12,
+          message: '跳转的页面 pages/gone/gone 未在 app.json 的 pages 或分包中注册',
+        },
+      ]);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should report behaviors that no component or page mixes in', async () => {
+      const files: Record<string, string> = {
+        'app.json': JSON.stringify({ pages: ['pages/index/index'] }),
+        'pages/index/index.js': [
+          "import { pager } from '../../behaviors/pager';",
+          "require('../../behaviors/legacy');",
+          'Page({ behaviors: [pager] });',
+        ].join('\n'),
+        'behaviors/pager.js': 'export const pager = Behavior({});\n',
+        'behaviors/legacy.js': 'module.exports = Behavior({});\n',
+      };
+      for (const [relativePath, content] of Object.entries(files)) {
+        const filePath = path.join(ruleProjectRoot, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+      }
+      const outputFile = path.join(ruleProjectRoot, 'report.json');
+
+      await lint({ ...baseCliOptions, project: ruleProjectRoot }, undefined, {
+        format: 'json',
+        output: outputFile,
+      });
+      const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+      const behaviorIssues = report.issues.filter(
+        (issue: { rule: string }) => issue.rule === 'unused-behavior',
+      );
+
+      expect(behaviorIssues).toEqual([
+        {
+          rule: 'unused-behavior',
+          severity: 'warning',
+          file: 'behaviors/legacy.js',
+          message: 'behaviors/legacy.js 定义了 Behavior，但没有任何组件或页面的 behaviors 使用它',
+        },
+      ]);
+    });
+
+    it('should report a missing or an unused custom-tab-bar directory', async () => {
+      const appJsonPath = path.join(ruleProjectRoot, 'app.json');
+      const outputFile = path.join(ruleProjectRoot, 'report.json');
+      const customTabBarIssues = async () => {
+        await lint({ ...baseCliOptions, project: ruleProjectRoot }, undefined, {
+          format: 'json',
+          output: outputFile,
+        });
+        const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+        return report.issues.filter((issue: { rule: string }) => issue.rule === 'custom-tab-bar');
+      };
+
+      fs.writeFileSync(
+        appJsonPath,
+        JSON.stringify({ pages: ['pages/index/index'], tabBar: { custom: true, list: [] } }),
+      );
+      expect(await customTabBarIssues()).toEqual([
+        {
+          rule: 'custom-tab-bar',
+          severity: 'error',
+          file: 'app.json',
+          message:
+            'app.json 开启了 tabBar.custom，但小程序根目录下没有 custom-tab-bar/index 组件，tabBar 将无法显示',
+        },
+      ]);
+
+      fs.mkdirSync(path.join(ruleProjectRoot, 'custom-tab-bar'));
+      fs.writeFileSync(path.join(ruleProjectRoot, 'custom-tab-bar/index.json'), '{}');
+      fs.writeFileSync(path.join(ruleProjectRoot, 'custom-tab-bar/index.js'), 'Component({});');
+      expect(await customTabBarIssues()).toEqual([]);
+
+      fs.writeFileSync(appJsonPath, JSON.stringify({ pages: ['pages/index/index'] }));
+      expect(await customTabBarIssues()).toEqual([
+        {
+          rule: 'custom-tab-bar',
+          severity: 'warning',
+          file: 'custom-tab-bar',
+          message:
+            'app.json 未开启 tabBar.custom，custom-tab-bar 目录不会被加载，可以删除或在 tabBar 中设置 "custom": true',
+        },
+      ]);
+    });
+  });
+
+  describe('Output Formats', () => {
+    let formatProjectRoot: string;
+
+    beforeEach(() => {
+      formatProjectRoot = path.join(tempDir, `format-test-${Date.now()}`);
+      const files: Record<string, string> = {
+        'app.json': JSON.stringify({ pages: ['pages/main'] }),
+        'pages/main.wxml': '<view>\n  <undeclared-comp />\n</view>\n',
+        'pages/main.json':
+          '{\n  "usingComponents": {\n    "unused-comp": "/components/unused"\n  }\n}\n',
+        'components/unused.wxml': '<view />',
+        'components/unused.json': JSON.stringify({ component: true }),
+      };
+      for (const [relativePath, content] of Object.entries(files)) {
+        const filePath = path.join(formatProjectRoot, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+      }
+    });
+
+    afterEach(() => {
+      fs.rmSync(formatProjectRoot, { recursive: true, force: true });
+    });
+
+    const lintWithFormat = async (format: CmdLintOptions['format']): Promise<string> => {
+      const outputFile = path.join(formatProjectRoot, `report.${format}`);
+      await lint({ ...baseCliOptions, project: formatProjectRoot }, undefined, {
+        format,
+        output: outputFile,
+      });
+      return fs.readFileSync(outputFile, 'utf-8');
+    };
+
+    it('should report every issue with its position as JSON', async () => {
+      const report = JSON.parse(await lintWithFormat('json'));
+
+      expect(report.summary.usedNotDeclaredCount).toBe(1);
+      expect(report.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            rule: 'used-not-declared',
+            file: 'pages/main.wxml',
+            line: 2,
+            column: 3,
+            componentTag: 'undeclared-comp',
+          }),
+          expect.objectContaining({
+            rule: 'declared-not-used',
+            file: 'pages/main.json',
+            line: 3,
+            column: 5,
+            componentTag: 'unused-comp',
+          }),
+        ]),
+      );
+    });
+
+    it('should point at the usingComponents key when the tag is also written elsewhere', async () => {
+      fs.writeFileSync(
+        path.join(formatProjectRoot, 'pages/main.json'),
+        '{\n  "componentPlaceholder": { "unused-comp": "view" },\n  "usingComponents": {\n    "unused-comp": "/components/unused"\n  }\n}\n',
+      );
+
+      const report = JSON.parse(await lintWithFormat('json'));
+
+      expect(report.issues).toContainEqual(
+        expect.objectContaining({
+          rule: 'declared-not-used',
+          componentTag: 'unused-comp',
+          line: 4,
+          column: 5,
+        }),
+      );
+    });
+
+    it('should produce SARIF results with regions', async () => {
+      const sarif = JSON.parse(await lintWithFormat('sarif'));
+      const result = sarif.runs[0].results.find(
+        (r: { ruleId: string }) => r.ruleId === 'used-not-declared',
+      );
+
+      expect(sarif.version).toBe('2.1.0');
+      expect(result.locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: 'pages/main.wxml' },
+        region: { startLine: 2, startColumn: 3 },
+      });
+    });
+
+    it('should produce checkstyle and JUnit XML', async () => {
+      const checkstyle = await lintWithFormat('checkstyle');
+      expect(checkstyle).toContain('<file name="pages/main.wxml">');
+      expect(checkstyle).toContain('line="2" column="3" severity="warning"');
+
+      const junit = await lintWithFormat('junit');
+      expect(junit).toContain('<testsuite name="pages/main.json" tests="1" failures="1"');
+      expect(junit).toContain(
+        '<testcase name="used-not-declared:2:3" classname="pages/main.wxml">',
+      );
+    });
+
+    it('should keep logs out of a report printed to stdout', async () => {
+      const logSpy = jest.spyOn(console, 'log').mockImplementation();
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      // tests/setup.ts silences the logger; let info messages through to the console
+      const infoSpy = jest.mocked(logger.info);
+      infoSpy.mockImplementation(Object.getPrototypeOf(logger).info);
+      logger.setLevel(LogLevel.ESSENTIAL);
+
+      try {
+        await lint({ ...baseCliOptions, project: formatProjectRoot }, undefined, {
+          format: 'json',
+        });
+        const stdout = logSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+        const stderr = errorSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+
+        expect(JSON.parse(stdout).summary.usedNotDeclaredCount).toBe(1);
+        expect(stderr).toContain('开始组件使用情况检查流程');
+      } finally {
+        infoSpy.mockImplementation(() => {});
+        logger.setLevel(LogLevel.ERROR);
+        logger.setOptions({ useStderr: false });
+        logSpy.mockRestore();
+        errorSpy.mockRestore();
+      }
+    });
+  });
+
   describe('Path Normalization Analysis', () => {
     let testProjectRoot: string;
 
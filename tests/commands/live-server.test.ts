@@ -0,0 +1,47 @@
+import * as http from 'http';
+import { LIVE_EVENTS_PATH, LiveGraphServer } from '../../src/commands/graph/live-server';
+
+function get(url: string): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => http.get(url, resolve).on('error', reject));
+}
+
+function readBody(res: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = '';
+    res.on('data', (chunk) => (body += chunk));
+    res.on('end', () => resolve(body));
+  });
+}
+
+describe('LiveGraphServer', () => {
+  let server: LiveGraphServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('serves the latest page and pushes updates to subscribed pages', async () => {
+    server = new LiveGraphServer('<html>v1</html>');
+    const url = await server.listen(0);
+
+    expect(await readBody(await get(url))).toBe('<html>v1</html>');
+
+    const events = await get(new URL(LIVE_EVENTS_PATH, url).toString());
+    expect(events.headers['content-type']).toBe('text/event-stream');
+    const received = new Promise<string>((resolve) => {
+      events.on('data', (chunk: Buffer) => {
+        const text = chunk.toString();
+        if (text.startsWith('data: ')) resolve(text);
+      });
+    });
+
+    const update = {
+      graph: { nodes: [], links: [], rootNodeId: 'app', miniappRoot: '/tmp/app' },
+      unusedFiles: ['/tmp/app/unused.js'],
+    };
+    server.publish('<html>v2</html>', update);
+
+    expect(JSON.parse((await received).slice('data: '.length))).toEqual(update);
+    expect(await readBody(await get(url))).toBe('<html>v2</html>');
+  });
+});
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { optimizePackages } from '../../src/commands/optimize-packages';
+import { GlobalCliOptions } from '../../src/types/command-options';
+
+function createFixture(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-optimize-'));
+  for (const [relativePath, content] of Object.entries(files)) {
+    const absolutePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, content);
+  }
+  return root;
+}
+
+describe('Optimize Packages Command Integration Tests', () => {
+  let projectRoot: string;
+  let consoleSpy: jest.SpyInstance;
+
+  const appJson = {
+    pages: ['pages/index/index'],
+    subPackages: [
+      { root: 'packageA', pages: ['pages/a/a'] },
+      { root: 'packageB', pages: ['pages/b/b'] },
+    ],
+  };
+
+  beforeEach(() => {
+    projectRoot = createFixture({
+      'app.json': JSON.stringify(appJson),
+      'app.js': '',
+      'pages/index/index.js': "require('../../utils/shared');\n",
+      'utils/shared.js': 'x'.repeat(100),
+      'utils/only-a.js': "const shared = require('./shared');\n" + 'a'.repeat(1000),
+      'utils/both.js': 'b'.repeat(500),
+      'templates/item.wxml': '<template name="item"><text>item</text></template>',
+      'components/card/card.json': JSON.stringify({ component: true }),
+      'components/card/card.js': 'Component({});',
+      'components/card/card.wxml': '<view>card</view>',
+      'packageA/pages/a/a.js':
+        "require('../../../utils/only-a');\nrequire('../../../utils/both');\n",
+      'packageA/pages/a/a.json': JSON.stringify({
+        usingComponents: { card: '/components/card/card' },
+      }),
+      'packageA/pages/a/a.wxml': '<import src="../../../templates/item.wxml"/>\n<card />',
+      'packageB/pages/b/b.js': "require('../../../utils/both');\n",
+    });
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const cliOptionsFor = (root: string): GlobalCliOptions => ({
+    project: root,
+    miniappRoot: '.',
+    verboseLevel: 0,
+    verbose: false,
+    exclude: [],
+  });
+
+  it('lists main-package files used by a single subpackage without changing anything', async () => {
+    await optimizePackages(cliOptionsFor(projectRoot), {});
+
+    const output = consoleSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+    expect(output).toContain('分包 packageA');
+    expect(output).toContain(path.join('utils', 'only-a.js'));
+    expect(output).toContain(path.join('templates', 'item.wxml'));
+    expect(output).toContain(path.join('components', 'card', 'card.js'));
+    expect(output).not.toContain(path.join('utils', 'both.js'));
+    expect(output).not.toContain(path.join('utils', 'shared.js'));
+    expect(output).toContain('主包可减少');
+    expect(fs.existsSync(path.join(projectRoot, 'utils/only-a.js'))).toBe(true);
+  });
+
+  it('attributes files loaded through require.async to the package they live in', async () => {
+    fs.writeFileSync(
+      path.join(projectRoot, 'pages/index/index.js'),
+      "require('../../utils/shared');\nrequire.async('../../packageB/utils/chart');\n",
+    );
+    fs.mkdirSync(path.join(projectRoot, 'packageB/utils'), { recursive: true });
+    fs.writeFileSync(
+      path.join(projectRoot, 'packageB/utils/chart.js'),
+      "require('../../utils/chart-helper');\n",
+    );
+    fs.writeFileSync(path.join(projectRoot, 'utils/chart-helper.js'), 'c'.repeat(200));
+
+    await optimizePackages(cliOptionsFor(projectRoot), {});
+
+    const output = consoleSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+    expect(output).toContain('分包 packageB');
+    expect(output).toContain(path.join('utils', 'chart-helper.js'));
+    expect(output).not.toContain(path.join('utils', 'shared.js'));
+  });
+
+  it('keeps files in the main package when an independent subpackage could not load their dependencies', async () => {
+    const independentAppJson = {
+      ...appJson,
+      subPackages: [{ root: 'packageC', pages: ['pages/c/c'], independent: true }],
+    };
+    fs.writeFileSync(path.join(projectRoot, 'app.json'), JSON.stringify(independentAppJson));
+    fs.mkdirSync(path.join(projectRoot, 'packageC/pages/c'), { recursive: true });
+    fs.writeFileSync(
+      path.join(projectRoot, 'packageC/pages/c/c.js'),
+      "require('../../../utils/only-a');\nrequire('../../../utils/format');\nrequire('../../../utils/standalone');\n",
+    );
+    fs.writeFileSync(path.join(projectRoot, 'utils/format.js'), "require('./only-a');\n");
+    fs.writeFileSync(path.join(projectRoot, 'utils/standalone.js'), 's'.repeat(200));
+
+    await optimizePackages(cliOptionsFor(projectRoot), {});
+
+    const output = consoleSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+    expect(output).toContain('分包 packageC');
+    expect(output).toContain(path.join('utils', 'standalone.js'));
+    // only-a.js loads shared.js, which stays in the main package; format.js loads only-a.js
+    expect(output).not.toContain(path.join('utils', 'only-a.js'));
+    expect(output).not.toContain(path.join('utils', 'format.js'));
+  });
+
+  it('moves the files and rewrites the references with --write', async () => {
+    await optimizePackages(cliOptionsFor(projectRoot), { write: true });
+
+    const read = (relativePath: string) =>
+      fs.readFileSync(path.join(projectRoot, relativePath), 'utf-8');
+
+    expect(fs.existsSync(path.join(projectRoot, 'utils/only-a.js'))).toBe(false);
+    expect(fs.existsSync(path.join(projectRoot, 'components'))).toBe(false);
+    expect(read('packageA/utils/only-a.js')).toContain("require('../../utils/shared')");
+    expect(read('packageA/pages/a/a.js')).toContain("require('../../utils/only-a')");
+    expect(read('packageA/pages/a/a.js')).toContain("require('../../../utils/both')");
+    expect(JSON.parse(read('packageA/pages/a/a.json')).usingComponents.card).toBe(
+      '/packageA/components/card/card',
+    );
+    expect(read('packageA/pages/a/a.wxml')).toContain('src="../../templates/item.wxml"');
+    expect(fs.existsSync(path.join(projectRoot, 'packageA/components/card/card.wxml'))).toBe(true);
+  });
+});
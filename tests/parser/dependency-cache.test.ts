@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DependencyCache } from '../../src/parser/dependency-cache';
+import { FileParser } from '../../src/parser/file-parser';
+import { FileDependencies } from '../../src/parser/dependency-types';
+import { AnalyzerOptions } from '../../src/types/command-options';
+
+describe('DependencyCache', () => {
+  let root: string;
+  let options: AnalyzerOptions;
+  let sourceFile: string;
+  let targetFile: string;
+
+  const dependenciesFor = (): FileDependencies => ({
+    resolved: [
+      {
+        sourceFile,
+        rawPath: './util',
+        kind: 'script',
+        targetFile,
+        linkType: 'Import',
+      },
+    ],
+    unresolved: [],
+    dynamicImports: [],
+    plugins: [],
+    routes: [],
+    builtinBehaviors: [],
+    definesBehavior: false,
+    cloudFunctions: [],
+    missingPaths: [],
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-cache-'));
+    options = { miniappRoot: root, appJsonPath: path.join(root, 'app.json') };
+    sourceFile = path.join(root, 'index.js');
+    targetFile = path.join(root, 'util.js');
+    fs.writeFileSync(sourceFile, "require('./util');\n");
+    fs.writeFileSync(targetFile, '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  async function parseWithNewCache(parse: jest.Mock, cacheOptions = options) {
+    const cache = new DependencyCache(root, cacheOptions);
+    const result = await cache.getOrParse(sourceFile, parse);
+    cache.save();
+    return result;
+  }
+
+  it('reuses stored dependencies across instances while the content is unchanged', async () => {
+    const parse = jest.fn(async () => dependenciesFor());
+
+    await parseWithNewCache(parse);
+    const result = await parseWithNewCache(parse);
+
+    expect(parse).toHaveBeenCalledTimes(1);
+    expect(result).toEqual(dependenciesFor());
+    expect(fs.existsSync(path.join(root, 'node_modules/.cache/mp-lens'))).toBe(true);
+  });
+
+  it('parses again when the content, the aliases or a target file change', async () => {
+    const parse = jest.fn(async () => dependenciesFor());
+    await parseWithNewCache(parse);
+
+    fs.writeFileSync(sourceFile, "require('./util');\n// changed\n");
+    await parseWithNewCache(parse);
+    expect(parse).toHaveBeenCalledTimes(2);
+
+    await parseWithNewCache(parse, { ...options, aliases: { '@utils': root } });
+    expect(parse).toHaveBeenCalledTimes(3);
+
+    fs.unlinkSync(targetFile);
+    await parseWithNewCache(parse, { ...options, aliases: { '@utils': root } });
+    expect(parse).toHaveBeenCalledTimes(4);
+  });
+
+  it('parses again when a candidate path that did not exist is created', async () => {
+    fs.renameSync(targetFile, path.join(root, 'util.ts'));
+    const fileParser = new FileParser(root, options);
+    const parse = jest.fn((file: string) => fileParser.parseFileDependencies(file));
+
+    await parseWithNewCache(parse);
+    const cached = await parseWithNewCache(parse);
+    expect(parse).toHaveBeenCalledTimes(1);
+    expect(cached.resolved.map((dependency) => dependency.targetFile)).toEqual([
+      path.join(root, 'util.ts'),
+    ]);
+
+    // util.js takes precedence over util.ts for './util'
+    fs.writeFileSync(targetFile, '');
+    const result = await parseWithNewCache(parse);
+    expect(parse).toHaveBeenCalledTimes(2);
+    expect(result.resolved.map((dependency) => dependency.targetFile)).toEqual([targetFile]);
+  });
+
+  it('shares entries with a copy of the project stored under the same cache root', async () => {
+    const parse = jest.fn(async () => dependenciesFor());
+    await parseWithNewCache(parse);
+
+    const copy = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-cache-copy-'));
+    try {
+      fs.copyFileSync(sourceFile, path.join(copy, 'index.js'));
+      fs.copyFileSync(targetFile, path.join(copy, 'util.js'));
+      const cache = new DependencyCache(copy, { ...options, miniappRoot: copy, cacheRoot: root });
+      const result = await cache.getOrParse(path.join(copy, 'index.js'), parse);
+
+      expect(parse).toHaveBeenCalledTimes(1);
+      expect(result.resolved).toEqual([
+        {
+          sourceFile: path.join(copy, 'index.js'),
+          rawPath: './util',
+          kind: 'script',
+          targetFile: path.join(copy, 'util.js'),
+          linkType: 'Import',
+        },
+      ]);
+    } finally {
+      fs.rmSync(copy, { recursive: true, force: true });
+    }
+  });
+
+  it('parses files with unresolved dependencies every time', async () => {
+    const parse = jest.fn(
+      async (): Promise<FileDependencies> => ({
+        resolved: [],
+        unresolved: [{ sourceFile, rawPath: './missing', kind: 'script', reason: 'path' }],
+        dynamicImports: [],
+        plugins: [],
+        routes: [],
+        builtinBehaviors: [],
+        definesBehavior: false,
+        cloudFunctions: [],
+        missingPaths: [],
+      }),
+    );
+
+    await parseWithNewCache(parse);
+    const result = await parseWithNewCache(parse);
+
+    expect(parse).toHaveBeenCalledTimes(2);
+    expect(result.unresolved).toHaveLength(1);
+  });
+});
@@ -151,5 +151,32 @@ describe('FileParser', () => {
         ]),
       );
     });
+
+    it('classifies dependencies that do not resolve and skips URLs', async () => {
+      const { root, parser } = createFixture({
+        'pages/index/index.js': "require('./utlis');\nrequire('lodash');\n",
+        'pages/index/index.wxml':
+          '<include src="./header.wxml" /><image src="https://example.com/a.png" />',
+      });
+
+      const scriptDependencies = await parser.parseFileDependencies(
+        path.join(root, 'pages/index/index.js'),
+      );
+      expect(scriptDependencies.unresolved).toEqual([
+        expect.objectContaining({
+          rawPath: './utlis',
+          reason: 'path',
+          location: { line: 1, column: 9 },
+        }),
+        expect.objectContaining({ rawPath: 'lodash', reason: 'npm' }),
+      ]);
+
+      const templateDependencies = await parser.parseFileDependencies(
+        path.join(root, 'pages/index/index.wxml'),
+      );
+      expect(templateDependencies.unresolved).toEqual([
+        expect.objectContaining({ rawPath: './header.wxml', reason: 'template' }),
+      ]);
+    });
   });
 });
@@ -295,4 +295,163 @@ describe('JavaScriptParser', () => {
       expect(dependencies).toEqual(['./path', '../config/app.json']);
     });
   });
+
+  describe('parseWithLocations', () => {
+    it('should report the position of each dependency path', async () => {
+      const filePath = actualPath.resolve('/project', 'src/app.js');
+      const content = "import a from './a';\n\nconst b = require('./b');\nrequire('./a');\n";
+
+      const dependencies = await parser.parseWithLocations(content, filePath);
+
+      expect(dependencies).toEqual([
+        { rawPath: './a', location: { line: 1, column: 15 } },
+        { rawPath: './b', location: { line: 3, column: 19 } },
+      ]);
+    });
+  });
+
+  describe('parseReferences', () => {
+    it('should report plugin pages opened by navigation calls', async () => {
+      const filePath = actualPath.resolve('/project', 'pages/index/index.js');
+      const content = [
+        "wx.navigateTo({ url: 'plugin://myPlugin/detail?id=1' });",
+        'wx.redirectTo({ url: `plugin://shop/list?page=${page}` });',
+        'wx.reLaunch({ url: `plugin://${name}/index` });',
+        "wx.navigateTo({ url: '/pages/other/index' });",
+      ].join('\n');
+
+      const references = await parser.parseReferences(content, filePath);
+
+      expect(references.imports).toEqual([]);
+      expect(references.pluginRoutes).toEqual([
+        { rawPath: 'plugin://myPlugin/detail?id=1', location: { line: 1, column: 22 } },
+        { rawPath: 'plugin://shop/list?page=', location: { line: 2, column: 22 } },
+      ]);
+    });
+
+    it('should report page routes with the API that opens them', async () => {
+      const filePath = actualPath.resolve('/project', 'pages/index/index.js');
+      const content = [
+        "wx.navigateTo({ url: '/pages/detail/detail?id=1' });",
+        'wx.redirectTo({ url: `../list/list?page=${page}` });',
+        "wx.switchTab({ url: '/pages/home/home' });",
+        "wx.navigateTo({ url: '/pages/home/home' });",
+        'wx.navigateTo({ url: `/pages/${name}/index` });',
+        "wx.navigateToMiniProgram({ appId: 'wx123', path: 'pages/index/index' });",
+        "wx.navigateTo({ url: 'plugin://myPlugin/detail' });",
+      ].join('\n');
+
+      const references = await parser.parseReferences(content, filePath);
+
+      expect(references.routes).toEqual([
+        {
+          rawPath: '/pages/detail/detail?id=1',
+          method: 'navigateTo',
+          location: { line: 1, column: 22 },
+        },
+        { rawPath: '../list/list?page=', method: 'redirectTo', location: { line: 2, column: 22 } },
+        { rawPath: '/pages/home/home', method: 'switchTab', location: { line: 3, column: 21 } },
+        { rawPath: '/pages/home/home', method: 'navigateTo', location: { line: 4, column: 22 } },
+      ]);
+    });
+
+    it('should turn computed require and import paths into glob patterns', async () => {
+      const filePath = actualPath.resolve('/project', 'pages/index/index.js');
+      const content = [
+        'const messages = require(`../locales/${lang}.js`);',
+        "const icon = require('./icons/' + name + '.js');",
+        "import('/utils/' + kind);",
+        'require(`./${name}`);',
+        'require(modulePath);',
+        "require('./static');",
+      ].join('\n');
+
+      const references = await parser.parseReferences(content, filePath);
+
+      expect(references.imports).toEqual([
+        { rawPath: './static', location: { line: 6, column: 9 } },
+      ]);
+      expect(references.dynamicImports).toEqual([
+        { rawPath: '../locales/*.js', location: { line: 1, column: 26 } },
+        { rawPath: './icons/*.js', location: { line: 2, column: 22 } },
+        { rawPath: '/utils/*', location: { line: 3, column: 8 } },
+      ]);
+    });
+
+    it('should report modules loaded with require.async separately from imports', async () => {
+      const filePath = actualPath.resolve('/project', 'pages/index/index.js');
+      const content = [
+        "const utils = require('../../utils/index');",
+        "require.async('../../packageB/utils/chart').then((chart) => chart.draw());",
+        'require.async(chartPath);',
+      ].join('\n');
+
+      const references = await parser.parseReferences(content, filePath);
+
+      expect(references.imports).toEqual([
+        { rawPath: '../../utils/index', location: { line: 1, column: 23 } },
+      ]);
+      expect(references.asyncImports).toEqual([
+        { rawPath: '../../packageB/utils/chart', location: { line: 2, column: 15 } },
+      ]);
+    });
+
+    it('should report the cloud functions called by name', async () => {
+      const filePath = actualPath.resolve('/project', 'pages/index/index.js');
+      const content = [
+        "wx.cloud.callFunction({ name: 'login', data: {} });",
+        "cloud.callFunction({ name: 'sendMail' });",
+        'wx.cloud.callFunction({ name: functionName });',
+        "api.callFunction({ name: 'other' });",
+      ].join('\n');
+
+      const references = await parser.parseReferences(content, filePath);
+
+      expect(references.cloudFunctionCalls).toEqual([
+        { rawPath: 'login', location: { line: 1, column: 31 } },
+        { rawPath: 'sendMail', location: { line: 2, column: 28 } },
+      ]);
+    });
+
+    it('should report the modules and built-ins mixed in through behaviors', async () => {
+      const filePath = actualPath.resolve('/project', 'components/card/card.js');
+      const content = [
+        "import shared from '../../behaviors/shared';",
+        "const mixins = require('../../behaviors/index');",
+        'Component({',
+        '  behaviors: [',
+        '    shared,',
+        '    mixins.list,',
+        "    require('../../behaviors/pager'),",
+        "    'wx://form-field',",
+        '    unknownBehavior,',
+        '  ],',
+        '});',
+      ].join('\n');
+
+      const references = await parser.parseReferences(content, filePath);
+
+      expect(references.behaviors).toEqual([
+        { rawPath: '../../behaviors/shared', location: { line: 1, column: 20 } },
+        { rawPath: '../../behaviors/index', location: { line: 2, column: 24 } },
+        { rawPath: '../../behaviors/pager', location: { line: 7, column: 13 } },
+      ]);
+      expect(references.builtinBehaviors).toEqual([
+        { rawPath: 'wx://form-field', location: { line: 8, column: 5 } },
+      ]);
+      expect(references.definesBehavior).toBe(false);
+    });
+
+    it('should detect scripts that define a behavior', async () => {
+      const filePath = actualPath.resolve('/project', 'behaviors/pager.js');
+      const content = "module.exports = Behavior({ behaviors: ['wx://component-export'] });";
+
+      const references = await parser.parseReferences(content, filePath);
+
+      expect(references.definesBehavior).toBe(true);
+      expect(references.builtinBehaviors.map((behavior) => behavior.rawPath)).toEqual([
+        'wx://component-export',
+      ]);
+    });
+  });
 });
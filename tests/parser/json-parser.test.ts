@@ -203,4 +203,27 @@ describe('JSONParser', () => {
       expect(dependencies).toEqual([]);
     });
   });
+
+  describe('parseWithLocations', () => {
+    it('should report array items and usingComponents keys', async () => {
+      const filePath = actualPath.resolve('/project', 'app.json');
+      const fileContent = [
+        '{',
+        '  "pages": ["pages/index/index"],',
+        '  "subPackages": [{ "root": "sub", "pages": ["a"] }],',
+        '  "usingComponents": {',
+        '    "nav-bar": "/components/nav-bar"',
+        '  }',
+        '}',
+      ].join('\n');
+
+      const dependencies = await parser.parseWithLocations(fileContent, filePath);
+
+      expect(dependencies).toEqual([
+        { rawPath: '/pages/index/index', location: { line: 2, column: 13 } },
+        { rawPath: '/sub/a', location: { line: 3, column: 46 } },
+        { rawPath: '/components/nav-bar', location: { line: 5, column: 5 } },
+      ]);
+    });
+  });
 });
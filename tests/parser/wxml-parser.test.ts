@@ -191,4 +191,44 @@ describe('WXMLParser', () => {
       expect(dependencies).toEqual([]);
     });
   });
+
+  describe('parseWithLocations', () => {
+    it('should report the position of the src attribute', async () => {
+      const filePath = actualPath.resolve('/project', 'pages/index.wxml');
+      const content =
+        '<view>\n  <import src="header.wxml" />\n  <image src="/images/logo.png" />\n</view>';
+
+      const dependencies = await parser.parseWithLocations(content, filePath);
+
+      expect(dependencies).toEqual([
+        { rawPath: './header.wxml', location: { line: 2, column: 11 } },
+        { rawPath: '/images/logo.png', location: { line: 3, column: 10 } },
+      ]);
+    });
+  });
+
+  describe('parseReferences', () => {
+    it('should report the pages navigator tags open', async () => {
+      const filePath = actualPath.resolve('/project', 'pages/index/index.wxml');
+      const content = [
+        '<navigator url="/pages/detail/detail?id={{item.id}}">详情</navigator>',
+        '<navigator url="/pages/home/home" open-type="switchTab">首页</navigator>',
+        '<navigator url="/pages/{{name}}/index">动态</navigator>',
+        '<navigator open-type="navigateBack">返回</navigator>',
+        '<navigator target="miniProgram" app-id="wx123" path="pages/index/index">其他小程序</navigator>',
+      ].join('\n');
+
+      const references = await parser.parseReferences(content, filePath);
+
+      expect(references.dependencies).toEqual([]);
+      expect(references.routes).toEqual([
+        {
+          rawPath: '/pages/detail/detail?id=',
+          method: 'navigateTo',
+          location: { line: 1, column: 12 },
+        },
+        { rawPath: '/pages/home/home', method: 'switchTab', location: { line: 2, column: 12 } },
+      ]);
+    });
+  });
 });
@@ -219,4 +219,18 @@ describe('WXSSParser', () => {
       expect(dependencies).toEqual(['valid.wxss', 'another-valid.wxss']);
     });
   });
+
+  describe('parseWithLocations', () => {
+    it('should report the position of each @import and url()', async () => {
+      const filePath = actualPath.resolve('/project', 'styles/main.wxss');
+      const content = '@import "base.wxss";\n.logo {\n  background: url(./logo.png);\n}\n';
+
+      const dependencies = await parser.parseWithLocations(content, filePath);
+
+      expect(dependencies).toEqual([
+        { rawPath: 'base.wxss', location: { line: 1, column: 1 } },
+        { rawPath: './logo.png', location: { line: 3, column: 15 } },
+      ]);
+    });
+  });
 });
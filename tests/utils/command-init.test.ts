@@ -31,4 +31,29 @@ describe('initializeCommandContext', () => {
     expect(context.appJsonPath).toBe(path.join(root, 'custom-entry.json'));
     expect(context.appJsonContent).toEqual({ pages: ['pages/custom/custom'] });
   });
+
+  it('takes the mini-program root from project.config.json when the tree has several app.json', async () => {
+    const root = createFixture({
+      'project.config.json': JSON.stringify({
+        miniprogramRoot: 'dist/',
+        srcMiniprogramRoot: 'src/',
+        cloudfunctionRoot: 'cloudfunctions/',
+        packOptions: { ignore: [{ type: 'folder', value: 'mock' }] },
+      }),
+      'src/app.json': JSON.stringify({ pages: ['pages/index/index'] }),
+      'examples/demo/app.json': JSON.stringify({ pages: ['pages/demo/demo'] }),
+    });
+
+    const context = await initializeCommandContext({
+      project: root,
+      verbose: false,
+      verboseLevel: 0,
+    });
+
+    expect(context.miniappRoot).toBe(path.join(root, 'src'));
+    expect(context.appJsonContent).toEqual({ pages: ['pages/index/index'] });
+    expect(context.cloudfunctionRoot).toBe(path.join(root, 'cloudfunctions'));
+    expect(context.packOptions?.ignore).toEqual([{ type: 'folder', value: 'mock' }]);
+    expect(context.miniprogramNpmDirs).toEqual([path.join(root, 'dist/miniprogram_npm')]);
+  });
 });
@@ -261,7 +261,7 @@ describe('PathResolver', () => {
       expect(resolved).toBeNull();
     });
 
-    it('should skip npm package imports', () => {
+    it('should return null for npm packages missing from miniprogram_npm', () => {
       const sourcePath = actualPath.resolve(projectRoot, 'src/index.js');
 
       const resolved = pathResolver.resolveAnyPath('react', sourcePath, ['js', 'ts']);
@@ -269,6 +269,56 @@ describe('PathResolver', () => {
       expect(resolved).toBeNull();
     });
 
+    it('should resolve npm packages through the nearest miniprogram_npm directory', () => {
+      const sourcePath = actualPath.resolve(projectRoot, 'pages/index/index.js');
+      mockPathExists('miniprogram_npm/dayjs', 'dir');
+      mockPathExists('miniprogram_npm/dayjs/index.js');
+      mockPathExists('miniprogram_npm/@vant/weapp/button', 'dir');
+      mockPathExists('miniprogram_npm/@vant/weapp', 'dir');
+      mockPathExists('miniprogram_npm/@vant/weapp/button/index.js');
+
+      expect(pathResolver.resolveAnyPath('dayjs', sourcePath, ['js'])).toBe(
+        actualPath.resolve(projectRoot, 'miniprogram_npm/dayjs/index.js'),
+      );
+      expect(pathResolver.resolveAnyPath('@vant/weapp/button/index', sourcePath, ['js'])).toBe(
+        actualPath.resolve(projectRoot, 'miniprogram_npm/@vant/weapp/button/index.js'),
+      );
+    });
+
+    it('should record the candidate paths that do not exist', () => {
+      const sourcePath = actualPath.resolve(projectRoot, 'pages/index/index.js');
+      mockPathExists('miniprogram_npm/dayjs', 'dir');
+      mockPathExists('miniprogram_npm/dayjs/index.js');
+
+      const { result, missingPaths } = pathResolver.recordMissingPaths(() =>
+        pathResolver.resolveAnyPath('dayjs', sourcePath, ['js']),
+      );
+
+      expect(result).toBe(actualPath.resolve(projectRoot, 'miniprogram_npm/dayjs/index.js'));
+      // A package installed into a closer miniprogram_npm would take precedence
+      expect(missingPaths).toEqual([
+        actualPath.resolve(projectRoot, 'pages/index/miniprogram_npm/dayjs'),
+        actualPath.resolve(projectRoot, 'pages/miniprogram_npm/dayjs'),
+      ]);
+    });
+
+    it('should resolve npm packages through configured miniprogram_npm directories', () => {
+      const npmDir = actualPath.resolve(projectRoot, 'dist/miniprogram_npm');
+      pathResolver = new PathResolver(projectRoot, {
+        verbose: false,
+        miniappRoot: projectRoot,
+        appJsonPath: actualPath.resolve(projectRoot, 'app.json'),
+        miniprogramNpmDirs: [npmDir],
+      });
+      const sourcePath = actualPath.resolve(projectRoot, 'utils/date.js');
+      mockPathExists('dist/miniprogram_npm/dayjs', 'dir');
+      mockPathExists('dist/miniprogram_npm/dayjs/index.js');
+
+      expect(pathResolver.resolveAnyPath('dayjs', sourcePath, ['js'])).toBe(
+        actualPath.resolve(npmDir, 'dayjs/index.js'),
+      );
+    });
+
     it('should handle absolute paths correctly', () => {
       const absolutePath = actualPath.resolve('/absolute/path/to/file.js');
       const sourcePath = actualPath.resolve(projectRoot, 'src/index.js');
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createPackIgnoreMatcher, loadProjectConfig } from '../../src/utils/project-config';
+
+function createFixture(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mp-lens-project-config-'));
+  for (const [relativePath, content] of Object.entries(files)) {
+    const absolutePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, content);
+  }
+  return root;
+}
+
+describe('loadProjectConfig', () => {
+  it('returns null when the project has no project.config.json', () => {
+    const root = createFixture({ 'app.json': '{}' });
+
+    expect(loadProjectConfig(root)).toBeNull();
+  });
+
+  it('resolves the configured directories and applies project.private.config.json', () => {
+    const root = createFixture({
+      'project.config.json': JSON.stringify({
+        miniprogramRoot: 'miniprogram/',
+        cloudfunctionRoot: 'cloudfunctions/',
+        packOptions: { ignore: [{ type: 'suffix', value: '.md' }], include: [] },
+        setting: { packNpmManually: true, urlCheck: true },
+      }),
+      'project.private.config.json': JSON.stringify({
+        srcMiniprogramRoot: 'src/',
+        setting: {
+          packNpmRelationList: [
+            { packageJsonPath: './package.json', miniprogramNpmDistDir: 'lib' },
+          ],
+        },
+      }),
+    });
+
+    expect(loadProjectConfig(root)).toEqual({
+      miniprogramRoot: path.join(root, 'miniprogram'),
+      srcMiniprogramRoot: path.join(root, 'src'),
+      cloudfunctionRoot: path.join(root, 'cloudfunctions'),
+      packOptions: { ignore: [{ type: 'suffix', value: '.md' }], include: [] },
+      miniprogramNpmDirs: [
+        path.join(root, 'miniprogram/miniprogram_npm'),
+        path.join(root, 'lib/miniprogram_npm'),
+      ],
+    });
+  });
+});
+
+describe('createPackIgnoreMatcher', () => {
+  it('matches every rule type relative to the mini-program root and honours include', () => {
+    const root = createFixture({
+      'docs/readme.md': '',
+      'mock/data.js': '',
+      'mock/keep.js': '',
+      'pages/index/index.js': '',
+      'pages/index/index.test.js': '',
+      'pages/index/draft-index.wxml': '',
+      'images/big.psd': '',
+    });
+    const isIgnored = createPackIgnoreMatcher(
+      {
+        ignore: [
+          { type: 'folder', value: 'mock' },
+          { type: 'file', value: '/docs/readme.md' },
+          { type: 'suffix', value: '.test.js' },
+          { type: 'prefix', value: 'draft-' },
+          { type: 'glob', value: 'images/**/*.psd' },
+          { type: 'regexp', value: '\\.log$' },
+        ],
+        include: [{ type: 'file', value: 'mock/keep.js' }],
+      },
+      root,
+    );
+
+    expect(isIgnored(path.join(root, 'mock/data.js'))).toBe(true);
+    expect(isIgnored(path.join(root, 'mock/keep.js'))).toBe(false);
+    expect(isIgnored(path.join(root, 'docs/readme.md'))).toBe(true);
+    expect(isIgnored(path.join(root, 'pages/index/index.test.js'))).toBe(true);
+    expect(isIgnored(path.join(root, 'pages/index/draft-index.wxml'))).toBe(true);
+    expect(isIgnored(path.join(root, 'images/big.psd'))).toBe(true);
+    expect(isIgnored(path.join(root, 'logs/debug.log'))).toBe(true);
+    expect(isIgnored(path.join(root, 'pages/index/index.js'))).toBe(false);
+    expect(isIgnored(path.join(path.dirname(root), 'mock/data.js'))).toBe(false);
+  });
+});